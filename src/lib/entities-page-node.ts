@@ -1,4 +1,5 @@
 import { NSPanelColorUtils } from './nspanel-colorutils'
+import { NSPanelHmiCodec } from './nspanel-hmi-codec'
 import { NSPanelPopupHelpers } from './nspanel-popup-helpers'
 import { NSPanelUtils } from './nspanel-utils'
 import { PageNodeBase } from './page-node-base'
@@ -12,7 +13,8 @@ import {
     PageEntityData,
     InputHandlingResult,
     HMICommand,
-    HMICommandParameters,
+    LuiEntitiesCardUpdate,
+    LuiEntity,
 } from '../types/types'
 import * as NSPanelConstants from './nspanel-constants'
 
@@ -64,19 +66,13 @@ export class EntitiesPageNode<TConfig extends EntityBasedPageConfig> extends Pag
     }
 
     protected doGeneratePage(): HMICommand | null {
-        const titleNav = this.generateTitleNav()
-        const entitites = this.generateEntities()
-
-        const hmiCmdParams: HMICommandParameters = []
-        hmiCmdParams.push(this.entitiesPageNodeConfig.title ?? '')
-        hmiCmdParams.push(titleNav)
-        hmiCmdParams.push(entitites)
-
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATE,
-            params: hmiCmdParams,
-        }
-        return hmiCmd
+        return NSPanelHmiCodec.encode({
+            cmd: 'entityUpd',
+            card: this.options?.pageType as LuiEntitiesCardUpdate['card'],
+            title: this.entitiesPageNodeConfig.title ?? '',
+            navigation: this.generateNavigation(),
+            entities: this.generateEntities(),
+        })
     }
 
     public generatePopupDetails(type: string, entityId: string): HMICommand | null {
@@ -89,6 +85,7 @@ export class EntitiesPageNode<TConfig extends EntityBasedPageConfig> extends Pag
 
             // if (entityData != null) { // entity data might be undefined, if nothing received yet
             const hmiCmd: HMICommand = NSPanelPopupHelpers.generatePopup(type, this, entity, entityData)
+            this.reportSanitizedContent(hmiCmd)
             return hmiCmd
             // }
         }
@@ -110,8 +107,8 @@ export class EntitiesPageNode<TConfig extends EntityBasedPageConfig> extends Pag
         this.entityData.set(entityId, data)
     }
 
-    protected generateEntities(): string {
-        const resultEntities: string[] = []
+    protected generateEntities(): LuiEntity[] {
+        const resultEntities: LuiEntity[] = []
 
         const entities = this.getEntities()
         const maxEntities = this.options?.maxEntities
@@ -126,18 +123,16 @@ export class EntitiesPageNode<TConfig extends EntityBasedPageConfig> extends Pag
             const icon = entityData?.icon ?? entityConfig.icon
             const text = entityData?.text ?? entityConfig.text
 
-            const entity = NSPanelUtils.makeEntity(
-                entityConfig.type,
-                entityConfig.entityId,
-                NSPanelUtils.getIcon(icon ?? ''),
-                NSPanelColorUtils.toHmiColor(entityConfig.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
-                text ?? '',
-                optionalValue
-            )
-
-            resultEntities.push(entity)
+            resultEntities.push({
+                type: entityConfig.type,
+                entityId: entityConfig.entityId,
+                icon: NSPanelUtils.getIcon(icon ?? ''),
+                iconColor: NSPanelColorUtils.toHmiColor(entityConfig.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
+                text: text ?? '',
+                value: optionalValue,
+            })
         }
 
-        return resultEntities.join(NSPanelConstants.STR_LUI_DELIMITER)
+        return resultEntities
     }
 }
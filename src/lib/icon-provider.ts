@@ -7,8 +7,18 @@ export const IconProvider = {
 
         return key
     },
+
+    GetIconName: (icon: string): string | null => {
+        if (ICON_NAMES.size === 0) {
+            ICONS.forEach((value, key) => ICON_NAMES.set(value, key))
+        }
+
+        return ICON_NAMES.get(icon) ?? null
+    },
 }
 
+const ICON_NAMES = new Map<string, string>()
+
 const ICONS = new Map<string, string>([
     ['ab-testing', ''],
     ['abacus', ''],
@@ -1,11 +1,25 @@
 import { isIPv6 } from 'node:net'
 
+import { PanelParameters, TasmotaTopicPrefix } from '../types/types'
+
+const FULL_TOPIC_PLACEHOLDERS = ['%hostname%', '%id%']
+
 export const MqttUtils = {
-    buildFullTopic(fullTopic: string, topic: string, prefix: string, command?: string) {
+    buildFullTopic(
+        fullTopic: string,
+        topic: string,
+        prefix: string,
+        command?: string,
+        placeholders: { hostname?: string; id?: string } = {}
+    ) {
         let result = fullTopic
 
-        result = result.replace('%topic%', topic)
-        result = result.replace('%prefix%', prefix)
+        result = result.replace(/%topic%/g, topic)
+        result = result.replace(/%prefix%/g, prefix)
+        // hostname and id (last 6 hex digits of the MAC address) are only known, if configured, otherwise the
+        // topic is used instead to not subscribe and publish to topics containing the placeholder
+        result = result.replace(/%hostname%/g, placeholders.hostname || topic)
+        result = result.replace(/%id%/g, placeholders.id || topic)
         result += result.endsWith('/') ? '' : '/'
 
         if (command !== undefined && command !== null) {
@@ -15,6 +29,39 @@ export const MqttUtils = {
         return result
     },
 
+    /**
+     * Builds the topic of a panel for a prefix, using the full topic override of the prefix, if set.
+     */
+    buildPanelTopic(panel: PanelParameters, prefix: TasmotaTopicPrefix, command?: string) {
+        const fullTopicOverrides: Record<TasmotaTopicPrefix, string | undefined> = {
+            cmnd: panel.cmndFullTopic,
+            stat: panel.statFullTopic,
+            tele: panel.teleFullTopic,
+        }
+        const fullTopic = fullTopicOverrides[prefix] ? fullTopicOverrides[prefix] : panel.fullTopic
+
+        return MqttUtils.buildFullTopic(fullTopic, panel.topic, prefix, command, {
+            hostname: panel.hostname,
+            id: panel.deviceId,
+        })
+    },
+
+    /**
+     * Returns the placeholders used in the full topics of a panel, which have no value configured.
+     */
+    getUnresolvedPlaceholders(panel: PanelParameters): string[] {
+        const values: Record<string, string | undefined> = {
+            '%hostname%': panel.hostname,
+            '%id%': panel.deviceId,
+        }
+        const fullTopics = [panel.fullTopic, panel.cmndFullTopic, panel.statFullTopic, panel.teleFullTopic]
+
+        return FULL_TOPIC_PLACEHOLDERS.filter(
+            (placeholder) =>
+                !values[placeholder] && fullTopics.some((fullTopic) => String(fullTopic ?? '').includes(placeholder))
+        )
+    },
+
     matchesMqttTopic(topic: string, subscribedTopic: string) {
         if (subscribedTopic === '#' || subscribedTopic === topic) {
             return true
@@ -29,14 +76,24 @@ export const MqttUtils = {
         return regex.test(topic)
     },
 
-    getBrokerUrl(address: string, port: string | number = '', useTls: boolean = false) {
+    getBrokerUrl(
+        address: string,
+        port: string | number = '',
+        useTls: boolean = false,
+        useWebSocket: boolean = false,
+        webSocketPath: string = ''
+    ) {
         let brokerUrl = ''
         const brokerPort = port || 1883
 
         if (address.indexOf('://') > -1) {
             brokerUrl = address
         } else {
-            brokerUrl = useTls ? 'mqtts://' : 'mqtt://'
+            if (useWebSocket) {
+                brokerUrl = useTls ? 'wss://' : 'ws://'
+            } else {
+                brokerUrl = useTls ? 'mqtts://' : 'mqtt://'
+            }
 
             if (address !== '') {
                 brokerUrl += isIPv6(address) ? `[${address}]` : address
@@ -45,6 +102,10 @@ export const MqttUtils = {
             }
 
             brokerUrl += `:${brokerPort}`
+
+            if (useWebSocket && webSocketPath) {
+                brokerUrl += webSocketPath.startsWith('/') ? webSocketPath : `/${webSocketPath}`
+            }
         }
 
         return brokerUrl
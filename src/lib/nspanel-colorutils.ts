@@ -75,6 +75,23 @@ export class NSPanelColorUtils {
         return dec
     }
 
+    public static dec565ToRgb(dec: number): RGBColor {
+        const red = (dec >> 11) & 0x1f
+        const green = (dec >> 5) & 0x3f
+        const blue = dec & 0x1f
+
+        // scale to 8 bit, replicating the high bits to get full white
+        return {
+            red: (red << 3) | (red >> 2),
+            green: (green << 2) | (green >> 4),
+            blue: (blue << 3) | (blue >> 2),
+        }
+    }
+
+    public static rgbToHex(rgb: RGBColor): string {
+        return `#${[rgb.red, rgb.green, rgb.blue].map((v) => v.toString(16).padStart(2, '0')).join('')}`
+    }
+
     public static hsv2Rgb(hsv: HSVColor): RGBColor {
         const tmpHue = hsv.hue / 60
         const chroma = hsv.value * hsv.saturation
@@ -10,12 +10,14 @@ export const STR_NAV_ID_NEXT: string = 'nav.next'
 
 // messages
 export const STR_MSG_TOPIC_COMMAND: string = 'cmd'
+export const STR_MSG_TOPIC_COMMAND_RESULT: string = 'cmdResult'
 export const STR_MSG_TOPIC_DATA: string = 'data'
 export const STR_MSG_TOPIC_EVENT: string = 'event'
 export const STR_MSG_TOPIC_HARDWARE: string = 'hw'
 export const STR_MSG_TOPIC_MEDIA: string = 'media'
 export const STR_MSG_TOPIC_NOTIFY: string = 'notify'
 export const STR_MSG_TOPIC_SENSOR: string = 'sensor'
+export const STR_MSG_TOPIC_SENSOR_STATS: string = 'sensorStats'
 export const STR_MSG_TOPIC_STATUS: string = 'status'
 export const STR_MSG_TOPIC_STATUS2: string = 'status2'
 
@@ -23,6 +25,9 @@ export const STR_MSG_TOPIC_STATUS2: string = 'status2'
 export const STR_LUI_LINEBREAK: string = '\r\n'
 export const STR_LUI_DELIMITER: string = '~'
 export const STR_LUI_LIST_DELIMITER: string = '?'
+export const STR_LUI_DELIMITER_REPLACEMENT: string = '-'
+export const STR_LUI_LIST_DELIMITER_REPLACEMENT: string = '-'
+export const LUI_MAX_FIELD_LENGTH: number = 255
 export const STR_LUI_COLOR_BLACK: number = 0
 export const STR_LUI_COLOR_GREEN: number = 2016
 export const STR_LUI_COLOR_RED: number = 63488
@@ -67,11 +72,30 @@ export const STR_TASMOTA_CMD_OTAURL: string = 'OtaUrl'
 export const STR_TASMOTA_CMD_UPGRADE: string = 'Upgrade'
 export const STR_TASMOTA_CMD_BACKLOG: string = 'Backlog'
 export const STR_TASMOTA_CMD_RESTART: string = 'Restart'
+export const STR_TASMOTA_CMD_CUSTOMSEND: string = 'CustomSend'
+export const STR_TASMOTA_CMD_SUBSCRIBE: string = 'Subscribe'
+export const STR_TASMOTA_CMD_UNSUBSCRIBE: string = 'Unsubscribe'
+// rule of the panel showing the offline screen, when the status of Node-RED changes to offline
+export const STR_TASMOTA_CMD_LAST_WILL_RULE: string = 'Rule3'
+export const STR_TASMOTA_EVENT_SERVER_STATUS: string = 'NSPanelLuiStatus'
 export const STR_TASMOTA_PARAM_RELAY_TOGGLE: string = 'TOGGLE'
 export const STR_TASMOTA_PARAM_RESTART_SAVE_TO_FLASH: string = '1'
 export const STR_TASMOTA_UPGRADE_SUCCESSFUL: string = 'Successful'
 export const STR_TASMOTA_UPGRADE_FAILED: string = 'Failed'
 export const STR_TASMOTA_MSG_UPGRADE: string = 'Upgrade'
+export const STR_TASMOTA_LWT_ONLINE: string = 'Online'
+export const STR_TASMOTA_LWT_OFFLINE: string = 'Offline'
+export const STR_TASMOTA_BUTTON_ACTION_HOLD: string = 'hold'
+export const STR_TASMOTA_BUTTON_ACTION_CLEAR: string = 'clear'
+export const STR_TASMOTA_SENSOR_PANEL: string = 'ANALOG'
+export const STR_SENSOR_SOURCE_PANEL: string = 'temperature1'
+export const STR_HW_BUTTON_EVENT_PRESS: string = 'press'
+export const STR_HW_BUTTON_EVENT_HOLD: string = 'hold'
+export const STR_HW_BUTTON_EVENT_RELEASE: string = 'release'
+
+// status of the mqtt connection of Node-RED
+export const STR_MQTT_STATUS_ONLINE: string = 'online'
+export const STR_MQTT_STATUS_OFFLINE: string = 'offline'
 
 // berry driver
 export const STR_BERRYDRIVER_CMD_GETVERSION: string = 'GetDriverVersion'
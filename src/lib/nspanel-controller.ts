@@ -1,5 +1,4 @@
 import * as nEvents from 'events'
-import { v4 as uuidv4 } from 'uuid'
 import { scheduleTask, CronosTask } from 'cronosjs'
 import dayjs from 'dayjs'
 import 'dayjs/locale/de'
@@ -9,12 +8,17 @@ import { Logger } from './logger'
 import { NSPanelMqttHandler } from './nspanel-mqtt-handler'
 import { NSPanelUpdater } from './nspanel-updater'
 import { SimpleControllerCache } from './nspanel-controller-cache'
+import { SimpleNotificationQueue } from './nspanel-notification-queue'
 import { NSPanelPopupHelpers } from './nspanel-popup-helpers'
+import { NSPanelMessageUtils } from './nspanel-message-utils'
+import { NSPanelDimSchedule } from './nspanel-dim-schedule'
+import { NSPanelHmiCodec } from './nspanel-hmi-codec'
+import { NSPanelSensorProcessor } from './nspanel-sensor-processor'
 
 import {
     PanelConfig,
     EventArgs,
-    SplitTime,
+    PanelEvent,
     PageMap,
     IPageNode,
     PageId,
@@ -35,6 +39,23 @@ import {
     PanelControllerConfig,
     HMICommand,
     TasmotaCommand,
+    INotificationQueue,
+    QueuedNotification,
+    NotifyResult,
+    NotifyResultEventArgs,
+    DimScheduleStep,
+    DimCommandParams,
+    TimeoutCommandParams,
+    DateFormatCommandParams,
+    DetachRelaysCommandParams,
+    TelePeriodCommandParams,
+    NavigateCommandParams,
+    TasmotaCommandResult,
+    PanelStatusEventArgs,
+    PanelScreen,
+    ReplayCommandParams,
+    SensorEventArgs,
+    SensorStatistics,
 } from '../types/types'
 import * as NSPanelConstants from './nspanel-constants'
 import { IPanelNodeEx } from '../types/panel'
@@ -52,19 +73,24 @@ const DEFAULT_TIME_OPTIONS: Intl.DateTimeFormatOptions = {
     minute: '2-digit',
 }
 
-type PanelDimMode = {
-    isConfigured: boolean
-    dimLow: number
-    dimHigh: number
-    start: SplitTime
+type NotificationRepeat = {
+    notification: QueuedNotification
+    timer: ReturnType<typeof setInterval>
+    repeats: number
 }
 
-type PanelDimModes = {
-    isNight: boolean
-    day: PanelDimMode
-    night: PanelDimMode
+const DEFAULT_NOTIFY_BUZZER: BuzzerCommandParams = {
+    count: 3,
+    beepDuration: 2,
+    silenceDuration: 1,
 }
 
+const HW_BUTTON_EVENTS: string[] = [
+    NSPanelConstants.STR_HW_BUTTON_EVENT_PRESS,
+    NSPanelConstants.STR_HW_BUTTON_EVENT_HOLD,
+    NSPanelConstants.STR_HW_BUTTON_EVENT_RELEASE,
+]
+
 export class NSPanelController extends nEvents.EventEmitter implements IPanelController {
     private _panelMqttHandler: IPanelMqttHandler
 
@@ -78,17 +104,32 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
 
     private _cache: IControllerCache
 
-    private _panelDimModes: PanelDimModes = {
-        isNight: false,
-        day: { isConfigured: false, dimLow: 100, dimHigh: 100, start: { hours: 0, minutes: 0 } },
-        night: { isConfigured: false, dimLow: 100, dimHigh: 100, start: { hours: 0, minutes: 0 } },
-    }
+    private _notifications: INotificationQueue
+
+    private _activeNotification: QueuedNotification | null = null
+
+    private _activeNotificationShownAt: number = 0
+
+    private _notificationTimer: ReturnType<typeof setTimeout> | null = null
+
+    private _notificationRepeats: Map<string, NotificationRepeat> = new Map()
+
+    private _dimSchedule: DimScheduleStep[] = []
+
+    private _activeDimStep: DimScheduleStep | null = null
+
+    private _dimOverride: DimCommandParams | null = null
+
+    private _panelOnline: boolean | null = null
+
+    private _sensorProcessor: NSPanelSensorProcessor
 
     constructor(ctrlConfig: PanelControllerConfig, panelNode: IPanelNodeEx, i18n: NodeRedI18nResolver) {
         super()
         this._ctrlConfig = ctrlConfig
         this._i18n = i18n
         this._cache = new SimpleControllerCache()
+        this._notifications = new SimpleNotificationQueue()
 
         this.init(panelNode)
     }
@@ -101,6 +142,8 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
                     historyType: 'page',
                     pageNode,
                 }
+                // the user stays on the requested page, pending notifications are shown when the panel times out
+                this.suspendActiveNotification()
                 this.setCurrentPage(pageHistory)
             }
         }
@@ -193,10 +236,106 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
                     this._panelUpdater?.checkForUpdates()
                     break
                 }
+
+                case 'setDim': {
+                    const dimParams = cmdData.params as DimCommandParams
+                    this._dimOverride = dimParams?.dimLow != null || dimParams?.dimHigh != null ? dimParams : null
+                    this.sendDimModeToPanel()
+                    break
+                }
+
+                case 'setTimeout': {
+                    const timeoutParams = cmdData.params as TimeoutCommandParams
+                    this._panelConfig.panel.panelTimeout = timeoutParams.timeout
+
+                    // pages with own timeout keep it
+                    const currentPage = this.getCurrentPage()
+                    if (currentPage?.historyType !== 'page' || currentPage.pageNode?.getTimeout() == null) {
+                        this.sendTimeoutToPanel()
+                    }
+                    break
+                }
+
+                case 'setDateFormat': {
+                    const dateFormatParams = cmdData.params as DateFormatCommandParams
+                    Object.assign(this._panelConfig.panel, dateFormatParams)
+                    this.sendTimeToPanel()
+                    this.sendDateToPanel()
+                    break
+                }
+
+                case 'detachRelays': {
+                    const detachRelaysParams = cmdData.params as DetachRelaysCommandParams
+                    this._panelConfig.panel.detachRelays = detachRelaysParams.detach
+                    this.sendDetachRelays(detachRelaysParams.detach)
+                    break
+                }
+
+                case 'setTelePeriod': {
+                    const telePeriodParams = cmdData.params as TelePeriodCommandParams
+                    this._panelConfig.panel.telePeriod = telePeriodParams.telePeriod
+                    this.sendTelePeriod(telePeriodParams.telePeriod)
+                    break
+                }
+
+                case 'navigate': {
+                    const navigateParams = cmdData.params as NavigateCommandParams
+                    this.onPageNavigationRequest(navigateParams.page)
+                    break
+                }
+
+                case 'screensaver': {
+                    this.activateScreenSaver()
+                    break
+                }
+
+                case 'wake': {
+                    this.deactivateScreenSaver()
+                    break
+                }
+
+                case 'restart': {
+                    this.sendCommandToPanel({
+                        cmd: NSPanelConstants.STR_TASMOTA_CMD_RESTART,
+                        data: NSPanelConstants.STR_TASMOTA_PARAM_RESTART_SAVE_TO_FLASH,
+                    })
+                    break
+                }
+
+                case 'tasmota': {
+                    this.sendCommandToPanel(cmdData.params as TasmotaCommand)
+                    break
+                }
+
+                case 'hmi': {
+                    this.sendToPanel(cmdData.params as HMICommand)
+                    break
+                }
+
+                case 'replay': {
+                    this.replayTraffic(cmdData.params as ReplayCommandParams)
+                    break
+                }
             }
         })
     }
 
+    public requestCommandResult(cmd: TasmotaCommand, timeout?: number): Promise<TasmotaCommandResult> {
+        return this._panelMqttHandler.requestCommandResult(cmd, timeout)
+    }
+
+    public getScreen(): PanelScreen {
+        return this._panelMqttHandler.getScreen()
+    }
+
+    public getSensorStatistics(reset: boolean = false): SensorStatistics[] {
+        const statistics = this._sensorProcessor.getStatistics()
+        if (reset) {
+            this._sensorProcessor.resetStatistics()
+        }
+        return statistics
+    }
+
     public setNodeStatus(statusLevel: StatusLevel, msg: string): void {
         const nodeStatus: NodeStatus = { statusLevel, msg }
         this.emit('status', nodeStatus)
@@ -207,18 +346,224 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
             return
         }
 
+        const notification: QueuedNotification = this._notifications.enqueue(notifyData)
+        // an updated notification starts repeating anew
+        this.stopNotificationRepeat(notification.notifyId)
+        const activeNotification: QueuedNotification | null = this._activeNotification
+
+        if (activeNotification == null) {
+            this.showNextNotification()
+        } else if (activeNotification.notifyId === notification.notifyId) {
+            // update of the notification currently shown
+            this._notifications.remove(notification.notifyId)
+            this.closeActiveNotification()
+            this.displayNotification(notification)
+        } else if (notification.priority > activeNotification.priority) {
+            // notification with higher priority preempts the current one, which is shown again later
+            this._notifications.remove(notification.notifyId)
+            this.suspendActiveNotification()
+            this.displayNotification(notification)
+        }
+    }
+
+    // #region notification queue
+    private showNextNotification(): boolean {
+        if (this._activeNotification != null) return false
+
+        const nextNotification: QueuedNotification | null = this._notifications.dequeue()
+        if (nextNotification == null) return false
+
+        this.displayNotification(nextNotification)
+        return true
+    }
+
+    private displayNotification(notification: QueuedNotification): void {
+        this._activeNotification = notification
+        this._activeNotificationShownAt = Date.now()
+
         const notifyHistory: IPageHistory = {
             historyType: 'notify',
-            entityId: notifyData.notifyId ?? `notify.${uuidv4()}`,
-            notifyData,
+            entityId: notification.notifyId,
+            notifyData: notification.notifyData,
         }
-
         this.setCurrentPage(notifyHistory)
-        if (this._ctrlConfig.beepOnNotifications || notifyData.beep) {
-            this.sendBuzzerCommand(3, 2, 1)
+
+        // the panel closes the notification by itself after timeout, report it as unanswered
+        const timeout = Number(notification.notifyData.timeout)
+        if (!Number.isNaN(timeout) && timeout > 0) {
+            this._notificationTimer = setTimeout(
+                () => this.onNotificationTimeout(notification.notifyId),
+                timeout * 1000
+            )
+        }
+
+        this.startNotificationRepeat(notification)
+    }
+
+    private closeActiveNotification(): void {
+        this._activeNotification = null
+
+        if (this._notificationTimer != null) {
+            clearTimeout(this._notificationTimer)
+            this._notificationTimer = null
+        }
+
+        if (this.getCurrentPage()?.historyType === 'notify') {
+            this._cache.removeLastFromHistory()
+        }
+    }
+
+    private suspendActiveNotification(): void {
+        const activeNotification: QueuedNotification | null = this._activeNotification
+        if (activeNotification == null) return
+
+        this.closeActiveNotification()
+        if (!SimpleNotificationQueue.isExpired(activeNotification)) {
+            this._notifications.requeue(activeNotification)
+        }
+    }
+
+    private isActiveNotificationEvent(eventArgs: EventArgs): boolean {
+        return (
+            this._activeNotification != null &&
+            eventArgs.source === this._activeNotification.notifyId &&
+            (eventArgs.event2 === NSPanelConstants.STR_LUI_EVENT_NOTIFY_ACTION ||
+                eventArgs.event2 === NSPanelConstants.STR_LUI_EVENT_BEXIT)
+        )
+    }
+
+    private onNotificationClose(eventArgs: EventArgs): void {
+        const { notifyId } = this._activeNotification
+        let result: NotifyResult = 'dismissed'
+        if (eventArgs.event2 === NSPanelConstants.STR_LUI_EVENT_NOTIFY_ACTION) {
+            result = eventArgs.data === NSPanelConstants.STR_LUI_NOTIFY_ACTION_YES ? 'yes' : 'no'
+        }
+
+        this.notifyNotificationResult(this._activeNotification, result)
+        this.stopNotificationRepeat(notifyId)
+        this.closeActiveNotification()
+
+        if (
+            notifyId.startsWith(NSPanelConstants.STR_UPDATE_NOTIFY_ID_PREFIX) &&
+            eventArgs.event2 === NSPanelConstants.STR_LUI_EVENT_NOTIFY_ACTION
+        ) {
+            this._panelUpdater.onUpdateNotificationResult(notifyId, eventArgs.data)
+        }
+
+        if (!this.showNextNotification()) {
+            this.restoreLastPage()
+        }
+    }
+
+    private onNotificationTimeout(notifyId: string): void {
+        this._notificationTimer = null
+        if (this._activeNotification?.notifyId !== notifyId) return
+
+        // unanswered repeating notifications are shown again with the next repeat
+        if (!this._notificationRepeats.has(notifyId)) {
+            this.notifyNotificationResult(this._activeNotification, 'timeout')
+        }
+        this.closeActiveNotification()
+        if (!this.showNextNotification()) {
+            this.restoreLastPage()
+        }
+    }
+
+    private checkNotificationExpiry(): void {
+        this._notifications.purgeExpired().forEach((notification) => {
+            this.stopNotificationRepeat(notification.notifyId)
+            this.notifyNotificationResult(notification, 'expired')
+        })
+
+        this._notificationRepeats.forEach(({ notification }) => {
+            if (SimpleNotificationQueue.isExpired(notification) && notification !== this._activeNotification) {
+                this.stopNotificationRepeat(notification.notifyId)
+                this.notifyNotificationResult(notification, 'expired')
+            }
+        })
+
+        if (this._activeNotification != null && SimpleNotificationQueue.isExpired(this._activeNotification)) {
+            this.notifyNotificationResult(this._activeNotification, 'expired')
+            this.stopNotificationRepeat(this._activeNotification.notifyId)
+            this.closeActiveNotification()
+            if (!this.showNextNotification()) {
+                this.restoreLastPage()
+            }
+        }
+    }
+
+    private notifyNotificationResult(notification: QueuedNotification, result: NotifyResult): void {
+        const isShown = this._activeNotification?.notifyId === notification.notifyId
+        const notifyResultEventArgs: NotifyResultEventArgs = {
+            type: 'notifyResult',
+            date: new Date(),
+            source: notification.notifyId,
+            event: result,
+            notifyId: notification.notifyId,
+            responseTime: isShown ? Date.now() - this._activeNotificationShownAt : null,
+        }
+
+        this.notifyControllerNode(notifyResultEventArgs)
+    }
+
+    private startNotificationRepeat(notification: QueuedNotification): void {
+        const existingRepeat = this._notificationRepeats.get(notification.notifyId)
+        if (existingRepeat != null) {
+            existingRepeat.notification = notification
+            return
+        }
+
+        const repeatInterval = Number(notification.notifyData.repeatInterval)
+        if (Number.isNaN(repeatInterval) || repeatInterval <= 0) return
+
+        const timer = setInterval(() => this.onNotificationRepeat(notification.notifyId), repeatInterval * 1000)
+        this._notificationRepeats.set(notification.notifyId, { notification, timer, repeats: 0 })
+    }
+
+    private stopNotificationRepeat(notifyId: string): void {
+        const notificationRepeat = this._notificationRepeats.get(notifyId)
+        if (notificationRepeat == null) return
+
+        clearInterval(notificationRepeat.timer)
+        this._notificationRepeats.delete(notifyId)
+    }
+
+    private onNotificationRepeat(notifyId: string): void {
+        const notificationRepeat = this._notificationRepeats.get(notifyId)
+        if (notificationRepeat == null) return
+
+        const { notification } = notificationRepeat
+        const isActive = this._activeNotification?.notifyId === notifyId
+        const isQueued = this._notifications.has(notifyId)
+        const maxRepeats = Number(notification.notifyData.maxRepeats)
+
+        notificationRepeat.repeats += 1
+        if (!Number.isNaN(maxRepeats) && maxRepeats > 0 && notificationRepeat.repeats > maxRepeats) {
+            this.stopNotificationRepeat(notifyId)
+            // notification timed out before and will not be shown again
+            if (!isActive && !isQueued) {
+                this.notifyNotificationResult(notification, 'timeout')
+            }
+            return
+        }
+
+        if (isActive) {
+            this.closeActiveNotification()
+            this.displayNotification(notification)
+        } else {
+            if (!isQueued) {
+                this._notifications.requeue(notification)
+            }
+            this.showNextNotification()
         }
     }
 
+    private stopAllNotificationRepeats(): void {
+        this._notificationRepeats.forEach(({ timer }) => clearInterval(timer))
+        this._notificationRepeats.clear()
+    }
+    // #endregion notification queue
+
     private sendBuzzerCommand(count: number, beepDuration?: number, silenceDuration?: number, tune?: number) {
         const params = [count]
         if (beepDuration != null) params.push(beepDuration)
@@ -232,9 +577,10 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
         this.sendLWTToPanel()
         this.cronTaskEveryMinute?.stop()
         this.cronTaskHourly?.stop()
-        this.cronTaskDimModeDay?.stop()
-        this.cronTaskDimModeNight?.stop()
         this.cronTaskCheckForUpdates?.stop()
+        this.stopAllNotificationRepeats()
+        this.closeActiveNotification()
+        this._notifications.clear()
         this._panelMqttHandler?.dispose()
     }
 
@@ -246,28 +592,50 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
 
         this.initLocale(this._ctrlConfig.lang)
 
-        // preparing dim modes
-        let tempStartTime = panelConfig.panel.panelDimLowStartTime
-        if (panelConfig.panel.panelDimLowStartTime != null) {
-            this._panelDimModes.day.dimLow = panelConfig.panel.panelDimLow
-            this._panelDimModes.day.dimHigh = panelConfig.panel.panelDimHigh
-            this._panelDimModes.day.start = tempStartTime
-            this._panelDimModes.day.isConfigured = true
-        }
-        tempStartTime = panelConfig.panel.panelDimLowNightStartTime
-        if (panelConfig.panel.panelDimLowStartTime != null) {
-            this._panelDimModes.night.dimLow = panelConfig.panel.panelDimLowNight
-            this._panelDimModes.day.dimHigh = panelConfig.panel.panelDimHighNight
-            this._panelDimModes.night.start = tempStartTime
-            this._panelDimModes.night.isConfigured = true
+        // preparing dim schedule, falling back to day and night settings
+        if (panelConfig.panel.dimSchedule?.length > 0) {
+            this._dimSchedule = panelConfig.panel.dimSchedule
+        } else {
+            const { panelDimLowStartTime, panelDimLowNightStartTime } = panelConfig.panel
+            this._dimSchedule = [
+                {
+                    start: 'time',
+                    time: panelDimLowStartTime?.hours >= 0 ? panelDimLowStartTime : { hours: 0, minutes: 0 },
+                    dimLow: panelConfig.panel.panelDimLow,
+                    dimHigh: panelConfig.panel.panelDimHigh,
+                },
+            ]
+            if (panelDimLowNightStartTime?.hours >= 0) {
+                this._dimSchedule.push({
+                    start: 'time',
+                    time: panelDimLowNightStartTime,
+                    dimLow: panelConfig.panel.panelDimLowNight,
+                    dimHigh: panelConfig.panel.panelDimHighNight,
+                })
+            }
         }
 
+        this._sensorProcessor = new NSPanelSensorProcessor({
+            offset: panelConfig.panel.tempCalibrationOffset,
+            scale: panelConfig.panel.tempCalibrationScale,
+            filter: panelConfig.panel.tempFilter,
+            filterSize: panelConfig.panel.tempFilterSize,
+            outlierThreshold: panelConfig.panel.tempOutlierThreshold,
+            statsPeriod: panelConfig.panel.tempStatsPeriod,
+        })
+
         // initializing mqtt
-        const mqttHandler = new NSPanelMqttHandler(panelConfig)
+        const mqttHandler = new NSPanelMqttHandler(
+            panelConfig,
+            panelNode.getMqttClient(),
+            this.getOfflineCommands(this._i18n('nspanel-controller.panel.serverOffline'))
+        )
         this._panelMqttHandler = mqttHandler
         mqttHandler.on('event', (eventArgs) => this.onEvent(eventArgs))
         mqttHandler.on('msg', (msg) => this.onMessage(msg))
         mqttHandler.on('sensor', (msg) => this.onSensorData(msg))
+        mqttHandler.on('status', (statusEventArgs) => this.onPanelStatus(statusEventArgs))
+        mqttHandler.on('screen', (screen) => this.emit('screen', screen))
 
         // initialize updater
         const panelUpdater = new NSPanelUpdater(this, mqttHandler, this._i18n, {
@@ -295,44 +663,40 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
         }
     }
 
-    private onEvent(eventArgs: EventArgs) {
-        switch (eventArgs.event) {
-            case NSPanelConstants.STR_LUI_EVENT_STARTUP: {
-                const startupEventArgs: StartupEventArgs = eventArgs as StartupEventArgs
+    private onEvent(eventArgs: PanelEvent) {
+        switch (eventArgs.kind) {
+            case 'startup': {
                 this.clearActiveStatusOfAllPages()
-                this.onPanelStartup(startupEventArgs)
+                this.onPanelStartup(eventArgs)
                 this.notifyControllerNode(eventArgs)
                 break
             }
 
-            case NSPanelConstants.STR_LUI_EVENT_SLEEPREACHED:
-                this.activateScreenSaver() // TODO: last notification, if applicable
+            case 'sleepReached':
+                this.activateScreenSaver()
+                // notifications suspended by navigating away are shown again, once the panel timed out
+                this.showNextNotification()
                 this.notifyControllerNode(eventArgs)
                 break
 
-            case 'relay':
-            case 'button':
-                if (eventArgs.type === 'hw') {
-                    this.notifyControllerNode(eventArgs)
-                }
+            case 'relayState':
+            case 'buttonAction':
+                this.notifyControllerNode(eventArgs)
                 this.notifyCurrentPageOfEvent('input', eventArgs)
                 break
 
-            case NSPanelConstants.STR_LUI_EVENT_PAGEOPENDETAIL:
+            case 'popupOpen':
                 this.onPopupOpen(eventArgs)
                 this.notifyCurrentPageOfEvent('input', eventArgs)
                 break
 
-            case NSPanelConstants.STR_LUI_EVENT_BUTTONPRESS2: // close pageOpenDetail
-                if (eventArgs.source.startsWith(NSPanelConstants.STR_UPDATE_NOTIFY_ID_PREFIX)) {
-                    this.onPopupClose()
-                    switch (eventArgs.event2) {
-                        case NSPanelConstants.STR_LUI_EVENT_NOTIFY_ACTION:
-                            this._panelUpdater.onUpdateNotificationResult(eventArgs.source, eventArgs.data)
-                            break
-                        case NSPanelConstants.STR_LUI_EVENT_BEXIT:
-                            break
-                    }
+            case 'buttonPress':
+            case 'colorWheel':
+            case 'positionSlider':
+            case 'numberSet':
+            case 'notifyAction': // close pageOpenDetail
+                if (this.isActiveNotificationEvent(eventArgs)) {
+                    this.onNotificationClose(eventArgs)
                 } else if (
                     eventArgs.source.startsWith('popup') &&
                     eventArgs.event2 === NSPanelConstants.STR_LUI_EVENT_BEXIT
@@ -367,7 +731,11 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
         }
     }
 
-    private onSensorData(eventArgs: EventArgs) {
+    private onSensorData(rawEventArgs: EventArgs) {
+        // calibrated and filtered, outliers are dropped
+        const eventArgs = this._sensorProcessor.process(rawEventArgs as SensorEventArgs)
+        if (eventArgs == null) return
+
         if (eventArgs.type === 'sensor') {
             this.notifyControllerNode(eventArgs)
         }
@@ -412,25 +780,13 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
     private onPanelStartup(startupEventArgs: StartupEventArgs) {
         // delay startup until pages had time to register
         if (this.delayPanelStartupFlag) return
+        this.suspendActiveNotification()
         this._cache.resetHistory()
 
         this._panelUpdater?.setHmiVersion(startupEventArgs.hmiVersion)
         this.setNodeStatus('info', this._i18n('common.status.panelInit'))
 
-        // prepare dim mode
-        const now: Date = new Date()
-        const dimModeNightStart = new Date()
-        dimModeNightStart.setHours(this._panelDimModes.night.start.hours, this._panelDimModes.night.start.minutes, 0, 0)
-        if (now >= dimModeNightStart) {
-            this._panelDimModes.isNight = true
-        }
-
-        this.sendTimeoutToPanel()
-        this.sendDimModeToPanel()
-        this.sendTimeToPanel()
-        this.sendDateToPanel()
-        this.sendDetachRelays(this._panelConfig.panel.detachRelays)
-        this.sendTelePeriod(this._panelConfig.panel.telePeriod)
+        this.sendPanelSettings()
 
         if (this.cronTaskHourly === null) {
             this.cronTaskHourly = scheduleTask('@hourly', () => this.onCronHourly(), {})
@@ -447,27 +803,6 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
             )
         }
 
-        if (this.cronTaskDimModeDay === null && this._panelDimModes.day.isConfigured) {
-            this.cronTaskDimModeDay = scheduleTask(
-                `0 ${this._panelDimModes.day.start.minutes} ${this._panelDimModes.day.start.hours} * * *`,
-                () => {
-                    this._panelDimModes.isNight = false
-                    this.sendDimModeToPanel()
-                },
-                {}
-            )
-        }
-        if (this.cronTaskDimModeNight === null && this._panelDimModes.night.isConfigured) {
-            this.cronTaskDimModeNight = scheduleTask(
-                `0 ${this._panelDimModes.night.start.minutes} ${this._panelDimModes.night.start.hours} * * *`,
-                () => {
-                    this._panelDimModes.isNight = true
-                    this.sendDimModeToPanel()
-                },
-                {}
-            )
-        }
-
         // query relay states
         this.executeCommand([
             { cmd: 'switch', params: { id: 0 } },
@@ -480,6 +815,45 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
         this.setNodeStatus('info', this._i18n('common.status.panelStarted'))
     }
 
+    private onPanelStatus(statusEventArgs: PanelStatusEventArgs) {
+        const wasOnline = this._panelOnline
+        this._panelOnline = statusEventArgs.online
+
+        if (statusEventArgs.event !== 'telemetry') {
+            this.setNodeStatus(
+                statusEventArgs.online ? 'success' : 'error',
+                this._i18n(statusEventArgs.online ? 'common.status.panelOnline' : 'common.status.panelOffline')
+            )
+
+            // panel reconnected without restart, thus restore settings and current page
+            if (statusEventArgs.online && wasOnline === false) {
+                this.reinitPanel()
+            }
+        }
+
+        this.notifyControllerNode(statusEventArgs)
+    }
+
+    private reinitPanel() {
+        if (this.delayPanelStartupFlag) return
+
+        this.sendPanelSettings()
+        if (this.getCurrentPage() != null) {
+            this.restoreLastPage()
+        } else if (this._ctrlConfig.screenSaverOnStartup) {
+            this.activateScreenSaver()
+        }
+    }
+
+    private sendPanelSettings() {
+        this.sendTimeoutToPanel()
+        this.updateDimMode(true)
+        this.sendTimeToPanel()
+        this.sendDateToPanel()
+        this.sendDetachRelays(this._panelConfig.panel.detachRelays)
+        this.sendTelePeriod(this._panelConfig.panel.telePeriod)
+    }
+
     private getCurrentPage(): IPageHistory | null {
         return this._cache.getCurrentPage()
     }
@@ -501,10 +875,10 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
             case 'page':
                 if (pageNode != null) {
                     if (fullUpdate) {
-                        const hmiCmd: HMICommand = {
-                            cmd: NSPanelConstants.STR_LUI_CMD_PAGETYPE,
-                            params: pageNode.getPageType(),
-                        }
+                        const hmiCmd: HMICommand = NSPanelHmiCodec.encode({
+                            cmd: 'pageType',
+                            pageType: pageNode.getPageType(),
+                        })
                         this.sendToPanel(hmiCmd)
                         this.sendTimeoutToPanel(pageNode.getTimeout())
                     }
@@ -546,6 +920,36 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
         this.renderPage(currentPage, true)
     }
 
+    private deactivateScreenSaver() {
+        const currentPage: IPageHistory | null = this.getCurrentPage()
+        if (currentPage?.pageNode?.isScreenSaver() !== true) return
+
+        currentPage.pageNode.setActive(false)
+        this._cache.removeLastFromHistory()
+
+        if (this.getCurrentPage() != null) {
+            this.restoreLastPage()
+        } else {
+            // no page shown before, start with first page available
+            const firstPageNode: IPageNode | undefined = this._cache
+                .getAllKnownPages()
+                ?.find((pageNode) => !pageNode.isScreenSaver())
+            if (firstPageNode != null) {
+                this.onPageIdNavigationRequest(firstPageNode.id)
+            } else {
+                this._cache.addToHistory(currentPage)
+                currentPage.pageNode.setActive(true)
+            }
+        }
+    }
+
+    private restoreLastPage() {
+        const lastPage: IPageHistory = this._cache.getLastFromHistory()
+
+        lastPage?.pageNode?.setActive(true)
+        this.renderPage(lastPage, true)
+    }
+
     private clearActiveStatusOfAllPages(): void {
         this._cache.getAllKnownPages()?.forEach((pageNode) => {
             pageNode.setActive(false)
@@ -570,7 +974,7 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
                 this._panelConfig.panel.detachRelays &&
                 eventArgs.type === 'hw' &&
                 eventArgs.event === 'button' &&
-                eventArgs.event2 === 'press'
+                HW_BUTTON_EVENTS.includes(eventArgs.event2)
             ) {
                 nodeMsg.topic = NSPanelConstants.STR_MSG_TOPIC_EVENT
             }
@@ -589,6 +993,7 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
     }
 
     private activateScreenSaver() {
+        this.suspendActiveNotification()
         this._cache.resetHistory()
 
         const screenSaverPageNodes: IPageNode[] =
@@ -616,26 +1021,26 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
             this.setNodeStatus('warn', this._i18n('common.status.noScreenSaverPage'))
             log.warn('No screensaver found.')
 
-            const hmiCmd: HMICommand = {
-                cmd: NSPanelConstants.STR_LUI_CMD_PAGETYPE,
-                params: NSPanelConstants.STR_PAGE_TYPE_CARD_SCREENSAVER,
-            }
+            const hmiCmd: HMICommand = NSPanelHmiCodec.encode({
+                cmd: 'pageType',
+                pageType: NSPanelConstants.STR_PAGE_TYPE_CARD_SCREENSAVER,
+            })
             this.sendToPanel(hmiCmd)
         }
     }
 
     private activateStartupPage() {
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_PAGETYPE,
-            params: NSPanelConstants.STR_PAGE_TYPE_CARD_STARTUP,
-        }
+        const hmiCmd: HMICommand = NSPanelHmiCodec.encode({
+            cmd: 'pageType',
+            pageType: NSPanelConstants.STR_PAGE_TYPE_CARD_STARTUP,
+        })
         this.sendToPanel(hmiCmd)
     }
 
     private updatePage(page: IPageNode) {
         const data: HMICommand[] = []
         if (page.isForceRedraw()) {
-            data.push({ cmd: NSPanelConstants.STR_LUI_CMD_PAGETYPE, params: page.getPageType() })
+            data.push(NSPanelHmiCodec.encode({ cmd: 'pageType', pageType: page.getPageType() }))
         }
 
         const pageData = page.generatePage()
@@ -663,13 +1068,27 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
 
         if (notifyHmiCmd !== null) {
             const cmds: HMICommand[] = [
-                { cmd: NSPanelConstants.STR_LUI_CMD_PAGETYPE, params: NSPanelConstants.STR_PAGE_TYPE_POPUP_NOTIFY },
+                NSPanelHmiCodec.encode({ cmd: 'pageType', pageType: NSPanelConstants.STR_PAGE_TYPE_POPUP_NOTIFY }),
                 notifyHmiCmd,
             ]
+            if (notifyHmiCmd.sanitized) {
+                this.setNodeStatus('warn', this._i18n('common.status.contentSanitized'))
+            }
             this.sendToPanel(cmds)
 
-            if (this._ctrlConfig.beepOnNotifications || history.notifyData.beep) {
-                this.sendBuzzerCommand(3, 2, 1)
+            // explicit beep setting of the notification overrides the controller default
+            const { beep, buzzer } = history.notifyData
+            const beepOnNotification: boolean =
+                NSPanelMessageUtils.toBoolean(beep) ?? (buzzer != null || this._ctrlConfig.beepOnNotifications)
+
+            if (beepOnNotification) {
+                const buzzerParams: BuzzerCommandParams = buzzer ?? DEFAULT_NOTIFY_BUZZER
+                this.sendBuzzerCommand(
+                    buzzerParams.count ?? DEFAULT_NOTIFY_BUZZER.count,
+                    buzzerParams.beepDuration,
+                    buzzerParams.silenceDuration,
+                    buzzerParams.tune
+                )
             }
         }
     }
@@ -680,8 +1099,25 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
         this._panelMqttHandler.sendToPanel(cmds)
     }
 
+    private replayTraffic(replayParams: ReplayCommandParams) {
+        const file = replayParams?.file ?? this._panelConfig.panel.recordFile
+        if (file == null || file === NSPanelConstants.STR_EMPTY) {
+            log.warn('No traffic record to replay')
+            return
+        }
+
+        log.info(`Replaying traffic record ${file}`)
+        this._panelMqttHandler
+            .replay(file, replayParams?.speed)
+            .then((count) => log.info(`Replayed ${count} messages from ${file}`))
+            .catch((err: unknown) => {
+                if (err instanceof Error) {
+                    log.error(`Could not replay traffic record ${file}. Error: ${err.message}`)
+                }
+            })
+    }
+
     private sendLWTToPanel() {
-        const offline = this._i18n('nspanel-controller.panel.offline')
         const stopped = this._i18n('nspanel-controller.panel.serverStopped')
 
         const date = new Date()
@@ -690,16 +1126,22 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
 
         const timeStr = `${timeHours.toString().padStart(2, '0')}:${timeMinutes.toString().padStart(2, '0')}`
 
-        const cmds: HMICommand[] = [
-            { cmd: NSPanelConstants.STR_LUI_CMD_PAGETYPE, params: NSPanelConstants.STR_PAGE_TYPE_CARD_SCREENSAVER },
-            { cmd: 'statusUpdate', params: null },
-            { cmd: NSPanelConstants.STR_LUI_CMD_TIME, params: offline },
-            { cmd: NSPanelConstants.STR_LUI_CMD_DATE, params: stopped },
-            { cmd: NSPanelConstants.STR_LUI_CMD_NOTIFY, params: timeStr },
-        ] // TODO: reattach relays?
+        const cmds: HMICommand[] = this.getOfflineCommands(stopped)
+        cmds.push({ cmd: NSPanelConstants.STR_LUI_CMD_NOTIFY, params: timeStr }) // TODO: reattach relays?
         this.sendToPanel(cmds)
     }
 
+    private getOfflineCommands(reason: string): HMICommand[] {
+        const offline = this._i18n('nspanel-controller.panel.offline')
+
+        return [
+            NSPanelHmiCodec.encode({ cmd: 'pageType', pageType: NSPanelConstants.STR_PAGE_TYPE_CARD_SCREENSAVER }),
+            NSPanelHmiCodec.encode({ cmd: 'statusUpdate', icons: [null, null] }),
+            NSPanelHmiCodec.encode({ cmd: 'time', time: offline }),
+            NSPanelHmiCodec.encode({ cmd: 'date', date: reason }),
+        ]
+    }
+
     private sendCommandToPanel(cmd: TasmotaCommand) {
         this._panelMqttHandler?.sendCommandToPanel(cmd)
     }
@@ -739,10 +1181,7 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
             }
         }
 
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_TIME,
-            params: timeStr,
-        }
+        const hmiCmd: HMICommand = NSPanelHmiCodec.encode({ cmd: 'time', time: timeStr })
         this.sendToPanel(hmiCmd)
     }
 
@@ -773,36 +1212,34 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
             }
         }
 
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_DATE,
-            params: dateStr,
-        }
+        const hmiCmd: HMICommand = NSPanelHmiCodec.encode({ cmd: 'date', date: dateStr })
         this.sendToPanel(hmiCmd)
     }
 
+    private updateDimMode(forceUpdate: boolean = false) {
+        const { latitude, longitude } = this._panelConfig.panel
+        const dimStep = NSPanelDimSchedule.getActiveStep(this._dimSchedule, new Date(), latitude, longitude)
+
+        if (forceUpdate || dimStep !== this._activeDimStep) {
+            this._activeDimStep = dimStep
+            this.sendDimModeToPanel()
+        }
+    }
+
     private sendDimModeToPanel() {
         // TODO: could panelDimLow/high be empty
-        const dimLow = this._panelDimModes.isNight
-            ? this._panelConfig.panel.panelDimLowNight
-            : this._panelConfig.panel.panelDimLow
-        const dimHigh = this._panelDimModes.isNight
-            ? this._panelConfig.panel.panelDimHighNight
-            : this._panelConfig.panel.panelDimHigh
+        const dimLow = this._dimOverride?.dimLow ?? this._activeDimStep?.dimLow ?? this._panelConfig.panel.panelDimLow
+        const dimHigh =
+            this._dimOverride?.dimHigh ?? this._activeDimStep?.dimHigh ?? this._panelConfig.panel.panelDimHigh
 
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_DIMMODE,
-            params: [dimLow, dimHigh],
-        }
+        const hmiCmd: HMICommand = NSPanelHmiCodec.encode({ cmd: 'dimmode', dimLow, dimHigh })
 
         this.sendToPanel(hmiCmd)
     }
 
     private sendTimeoutToPanel(timeout: number | null = null) {
         const tempTimeout = timeout === null ? this._panelConfig.panel.panelTimeout : timeout
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_TIMEOUT,
-            params: tempTimeout,
-        }
+        const hmiCmd: HMICommand = NSPanelHmiCodec.encode({ cmd: 'timeout', timeout: tempTimeout })
         this.sendToPanel(hmiCmd)
     }
     // #endregion basic panel commands
@@ -812,15 +1249,13 @@ export class NSPanelController extends nEvents.EventEmitter implements IPanelCon
 
     private cronTaskHourly: CronosTask = null
 
-    private cronTaskDimModeDay: CronosTask = null
-
-    private cronTaskDimModeNight: CronosTask = null
-
     private cronTaskCheckForUpdates: CronosTask = null
 
     private onCronEveryMinute() {
         try {
             this.sendTimeToPanel()
+            this.updateDimMode()
+            this.checkNotificationExpiry()
         } catch (err: unknown) {
             if (err instanceof Error) {
                 log.error(`Error executing minutely cron: ${err.message}`)
@@ -0,0 +1,74 @@
+import { NSPanelSunCalc } from './nspanel-sun-calc'
+import { DimScheduleStep, SunTimes } from '../types/types'
+
+export class NSPanelDimSchedule {
+    /**
+     * Returns the start of a schedule step on the day of `date`, or `null` if the step does not
+     * occur on that day (e.g. sunrise during polar night or missing location).
+     */
+    public static getStepStart(
+        step: DimScheduleStep,
+        date: Date,
+        latitude: number | null,
+        longitude: number | null
+    ): Date | null {
+        let start: Date | null = null
+
+        switch (step.start) {
+            case 'time': {
+                if (step.time == null || step.time.hours < 0 || step.time.minutes < 0) return null
+
+                start = new Date(date)
+                start.setHours(step.time.hours, step.time.minutes, 0, 0)
+                break
+            }
+
+            case 'sunrise':
+            case 'sunset': {
+                if (latitude == null || longitude == null) return null
+
+                const sunTimes: SunTimes = NSPanelSunCalc.getSunTimes(date, latitude, longitude)
+                const sunTime = step.start === 'sunrise' ? sunTimes.sunrise : sunTimes.sunset
+                if (sunTime == null) return null
+
+                start = new Date(sunTime.getTime() + (Number(step.offset) || 0) * 60 * 1000)
+                break
+            }
+
+            default:
+                return null
+        }
+
+        return start
+    }
+
+    /**
+     * Returns the step active at `now`, which is the step started most recently. Before the first
+     * step of the day, the last step of the previous day is still active.
+     */
+    public static getActiveStep(
+        schedule: DimScheduleStep[],
+        now: Date,
+        latitude: number | null,
+        longitude: number | null
+    ): DimScheduleStep | null {
+        if (schedule == null || schedule.length === 0) return null
+
+        const yesterday = new Date(now)
+        yesterday.setDate(now.getDate() - 1)
+
+        let activeStep: DimScheduleStep | null = null
+        let activeStart: number = -Infinity
+        ;[yesterday, now].forEach((day) => {
+            schedule.forEach((step) => {
+                const start = NSPanelDimSchedule.getStepStart(step, day, latitude, longitude)?.getTime()
+                if (start != null && start <= now.getTime() && start >= activeStart) {
+                    activeStep = step
+                    activeStart = start
+                }
+            })
+        })
+
+        return activeStep
+    }
+}
@@ -0,0 +1,276 @@
+import * as nEvents from 'events'
+
+import { Logger } from './logger'
+import { MqttUtils } from './mqtt-utils'
+import { NSPanelMessageParser } from './nspanel-message-parser'
+import { NSPanelScreenModel } from './nspanel-screen-model'
+import * as NSPanelConstants from './nspanel-constants'
+import {
+    EmulateCommandParams,
+    EmulatorOptions,
+    PanelEvent,
+    IPanelMqttClient,
+    OnMqttMessageCallback,
+    PanelConfig,
+    PanelParameters,
+    PanelScreen,
+} from '../types/types'
+
+const log = Logger('NSPanelEmulator')
+
+const DEFAULT_HMI_VERSION = '54'
+const DEFAULT_MODEL = 'eu'
+const DEFAULT_RELAYS = 2
+const TASMOTA_BACKLOG_DELIMITER = ';'
+const TASMOTA_POWER_ON = 'ON'
+const TASMOTA_POWER_OFF = 'OFF'
+
+/**
+ * Virtual panel acting like a NSPanel running the Lovelace UI berry driver, for running and testing flows
+ * without hardware. Commands sent via `CustomSend` update a model of the screen, events of the display are
+ * injected as `CustomRecv` in the format parsed by `NSPanelMessageParser`.
+ */
+export class NSPanelEmulator extends nEvents.EventEmitter implements IPanelMqttClient {
+    private panel: PanelParameters
+
+    private options: EmulatorOptions
+
+    private connected: boolean = false
+
+    private connectTimer: ReturnType<typeof setImmediate> | null = null
+
+    private refCount: number = 0
+
+    private subscriptions: Map<string, Set<OnMqttMessageCallback>> = new Map()
+
+    private screenModel: NSPanelScreenModel = new NSPanelScreenModel()
+
+    private relays: boolean[]
+
+    constructor(panelConfig: PanelConfig, options: EmulatorOptions = {}) {
+        super()
+
+        this.panel = panelConfig.panel
+        this.options = options
+        this.relays = new Array(options.relays ?? DEFAULT_RELAYS).fill(false)
+    }
+
+    public dispose() {
+        if (this.connectTimer != null) {
+            clearImmediate(this.connectTimer)
+            this.connectTimer = null
+        }
+        this.subscriptions.clear()
+        this.refCount = 0
+        this.connected = false
+    }
+
+    public isConnected(): boolean {
+        return this.connected
+    }
+
+    public getStatusTopic(): string | null {
+        // no broker to register a last will with
+        return null
+    }
+
+    public acquire() {
+        this.refCount += 1
+
+        // starting deferred like a mqtt connection, so that the handler has subscribed its topics
+        if (!this.connected && this.connectTimer == null) {
+            this.connectTimer = setImmediate(() => this.connect())
+        }
+    }
+
+    public release() {
+        this.refCount = Math.max(0, this.refCount - 1)
+        if (this.refCount === 0) {
+            this.dispose()
+        }
+    }
+
+    public subscribe(topic: string, listener: OnMqttMessageCallback) {
+        let listeners = this.subscriptions.get(topic)
+        if (listeners == null) {
+            listeners = new Set()
+            this.subscriptions.set(topic, listeners)
+        }
+        listeners.add(listener)
+    }
+
+    public unsubscribe(topic: string, listener: OnMqttMessageCallback) {
+        const listeners = this.subscriptions.get(topic)
+        if (listeners == null) return
+
+        listeners.delete(listener)
+        if (listeners.size === 0) {
+            this.subscriptions.delete(topic)
+        }
+    }
+
+    public publish(topic: string, payload: string) {
+        const cmd = topic.substring(topic.lastIndexOf('/') + 1)
+        this.processCommand(cmd, payload ?? NSPanelConstants.STR_EMPTY)
+    }
+
+    public getScreen(): PanelScreen {
+        return this.screenModel.getScreen()
+    }
+
+    public getRelayState(relay: number): boolean {
+        return this.relays[relay - 1] ?? false
+    }
+
+    public startup(): PanelEvent {
+        this.screenModel.reset()
+        return this.sendEvent([
+            NSPanelConstants.STR_LUI_EVENT_STARTUP,
+            this.options.hmiVersion ?? DEFAULT_HMI_VERSION,
+            this.options.model ?? DEFAULT_MODEL,
+        ])
+    }
+
+    public buttonPress(entityId: string, action: string, value?: string | number): PanelEvent {
+        const params = [NSPanelConstants.STR_LUI_EVENT_BUTTONPRESS2, entityId, action]
+        if (value !== undefined) {
+            params.push(String(value))
+        }
+
+        return this.sendEvent(params)
+    }
+
+    public openDetail(popupType: string, entityId: string): PanelEvent {
+        return this.sendEvent([NSPanelConstants.STR_LUI_EVENT_PAGEOPENDETAIL, popupType, entityId])
+    }
+
+    public sleepReached(): PanelEvent {
+        return this.sendEvent([
+            NSPanelConstants.STR_LUI_EVENT_SLEEPREACHED,
+            this.screenModel.getScreen().pageType ?? '',
+        ])
+    }
+
+    /**
+     * Injects an event of the display, e.g. `['buttonPress2', 'light.0', 'OnOff', '1']`. Returns the event as
+     * parsed by the controller.
+     */
+    public sendEvent(params: string[]): PanelEvent {
+        const parts = ['event', ...params]
+        this.deliverResult('tele', { CustomRecv: parts.join(',') })
+
+        return NSPanelMessageParser.parseCustomMessage(parts)
+    }
+
+    /**
+     * Injects an event received with the `emulate` command of a flow
+     */
+    public emulate(params: EmulateCommandParams): PanelEvent {
+        switch (params.event) {
+            case 'startup':
+                return this.startup()
+
+            case 'buttonPress':
+                return this.buttonPress(params.entityId ?? '', params.action ?? '', params.value)
+
+            case 'openDetail':
+                return this.openDetail(params.popupType ?? '', params.entityId ?? '')
+
+            case 'sleepReached':
+                return this.sleepReached()
+
+            default:
+                return this.sendEvent(params.params ?? [])
+        }
+    }
+
+    private connect() {
+        this.connectTimer = null
+        if (this.refCount === 0) return
+
+        this.connected = true
+        this.deliver(MqttUtils.buildPanelTopic(this.panel, 'tele', 'LWT'), NSPanelConstants.STR_TASMOTA_LWT_ONLINE)
+        this.emit('mqtt:connect')
+
+        // the display reports its startup once the driver is running
+        this.startup()
+    }
+
+    private processCommand(cmd: string, payload: string) {
+        const cmdUpper = cmd.toUpperCase()
+
+        if (cmdUpper === NSPanelConstants.STR_TASMOTA_CMD_CUSTOMSEND.toUpperCase()) {
+            if (this.screenModel.process(payload)) {
+                this.emit('screen', this.screenModel.getScreen())
+            }
+            this.deliverResult('stat', {
+                [NSPanelConstants.STR_TASMOTA_CMD_CUSTOMSEND]: NSPanelConstants.STR_LUI_CMD_SUCCESS,
+            })
+        } else if (cmdUpper === NSPanelConstants.STR_TASMOTA_CMD_BACKLOG.toUpperCase()) {
+            payload.split(TASMOTA_BACKLOG_DELIMITER).forEach((backlogCmd) => {
+                const trimmedCmd = backlogCmd.trim()
+                const delimiterIdx = trimmedCmd.indexOf(' ')
+                if (delimiterIdx > -1) {
+                    this.processCommand(trimmedCmd.substring(0, delimiterIdx), trimmedCmd.substring(delimiterIdx + 1))
+                } else if (trimmedCmd.length > 0) {
+                    this.processCommand(trimmedCmd, NSPanelConstants.STR_EMPTY)
+                }
+            })
+        } else if (cmdUpper.startsWith(NSPanelConstants.STR_TASMOTA_CMD_RELAY.toUpperCase())) {
+            this.processPowerCommand(cmdUpper, payload)
+        } else if (cmdUpper === NSPanelConstants.STR_TASMOTA_CMD_STATUS.toUpperCase()) {
+            this.deliver(MqttUtils.buildPanelTopic(this.panel, 'stat', `STATUS${payload.trim()}`), '{}')
+        } else {
+            this.deliverResult('stat', { [cmd]: payload.length > 0 ? payload : NSPanelConstants.STR_LUI_CMD_SUCCESS })
+        }
+    }
+
+    private processPowerCommand(cmdUpper: string, payload: string) {
+        const relayNumber = Number(cmdUpper.substring(NSPanelConstants.STR_TASMOTA_CMD_RELAY.length) || '1')
+        const relayIdx = relayNumber - 1
+        if (Number.isNaN(relayNumber) || relayIdx < 0 || relayIdx >= this.relays.length) {
+            log.warn(`Unknown relay ${cmdUpper}`)
+            return
+        }
+
+        switch (payload.trim().toUpperCase()) {
+            case TASMOTA_POWER_ON:
+            case '1':
+                this.relays[relayIdx] = true
+                break
+
+            case TASMOTA_POWER_OFF:
+            case '0':
+                this.relays[relayIdx] = false
+                break
+
+            case NSPanelConstants.STR_TASMOTA_PARAM_RELAY_TOGGLE:
+            case '2':
+                this.relays[relayIdx] = !this.relays[relayIdx]
+                break
+
+            default:
+                break
+        }
+
+        this.deliverResult('stat', {
+            [`POWER${relayNumber}`]: this.relays[relayIdx] ? TASMOTA_POWER_ON : TASMOTA_POWER_OFF,
+        })
+    }
+
+    private deliverResult(prefix: 'stat' | 'tele', result: object) {
+        this.deliver(MqttUtils.buildPanelTopic(this.panel, prefix, 'RESULT'), JSON.stringify(result))
+    }
+
+    private deliver(topic: string, payload: string) {
+        const listeners: Set<OnMqttMessageCallback> = new Set()
+        this.subscriptions.forEach((topicListeners, subscribedTopic) => {
+            if (MqttUtils.matchesMqttTopic(topic, subscribedTopic)) {
+                topicListeners.forEach((listener) => listeners.add(listener))
+            }
+        })
+
+        const data = Buffer.from(payload)
+        listeners.forEach((listener) => listener(topic, data))
+    }
+}
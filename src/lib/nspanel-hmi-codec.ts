@@ -0,0 +1,801 @@
+import { Logger } from './logger'
+import * as NSPanelConstants from './nspanel-constants'
+import { NSPanelHmiSanitizer } from './nspanel-hmi-sanitizer'
+import {
+    HMICommand,
+    LuiAlarmAction,
+    LuiCardUpdate,
+    LuiChartValue,
+    LuiCommand,
+    LuiDecodeContext,
+    LuiEntity,
+    LuiInputSelectPopupUpdate,
+    LuiNavigation,
+    LuiNavigationButton,
+    LuiPopupUpdate,
+    LuiPowerEntity,
+    LuiScreenSaverColors,
+    LuiShutterTilt,
+    LuiStatusIcon,
+    LuiThermoAction,
+    LuiThermoPopupMode,
+    LuiValue,
+} from '../types/types'
+
+const log = Logger('NSPanelHmiCodec')
+
+const ENTITY_FIELDS = 6
+const POWER_ENTITY_FIELDS = 7
+const THERMO_ACTION_FIELDS = 4
+const ALARM_ACTION_FIELDS = 2
+const THERMO_CARD_TRAILING_FIELDS = 6
+const ALARM_CARD_TRAILING_FIELDS = 7
+const CHART_TICK_DELIMITER = ':'
+const CHART_LABEL_DELIMITER = '^'
+// index of the notification text, the only field the HMI shows on multiple lines
+const POPUP_NOTIFY_TEXT_FIELD = 7
+
+const SCREENSAVER_COLOR_KEYS: (keyof LuiScreenSaverColors)[] = [
+    'background',
+    'time',
+    'timeAmPm',
+    'date',
+    'mainText',
+    'forecast1',
+    'forecast2',
+    'forecast3',
+    'forecast4',
+    'forecastVal1',
+    'forecastVal2',
+    'forecastVal3',
+    'forecastVal4',
+    'bar',
+    'mainTextAlt2',
+    'timeAdd',
+]
+
+const flatMap = <T>(items: T[], fn: (item: T) => LuiValue[]): LuiValue[] =>
+    items.reduce((result: LuiValue[], item) => result.concat(fn(item)), [])
+
+type FieldReader = {
+    next: () => string
+    take: (count: number) => string[]
+    remaining: () => number
+    chunks: (size: number, trailing?: number) => string[][]
+}
+
+/**
+ * Sequential access to the fields of a command, missing fields are read as empty strings.
+ */
+const createFieldReader = (fields: string[]): FieldReader => {
+    let pos = 0
+
+    const next = (): string => {
+        const field = fields[pos] ?? NSPanelConstants.STR_EMPTY
+        pos += 1
+        return field
+    }
+    const take = (count: number): string[] => Array.from({ length: count }, () => next())
+    const remaining = (): number => Math.max(0, fields.length - pos)
+    const chunks = (size: number, trailing: number = 0): string[][] =>
+        Array.from({ length: Math.floor(Math.max(0, remaining() - trailing) / size) }, () => take(size))
+
+    return { next, take, remaining, chunks }
+}
+
+/**
+ * Encodes the LUI commands sent to the HMI via `CustomSend` from typed data and decodes them back, so the field
+ * order of each command is defined in one place.
+ */
+export class NSPanelHmiCodec {
+    /**
+     * Encodes a command, all texts are sanitized on the way. The returned command is flagged as `sanitized`, if
+     * a text had to be changed.
+     */
+    public static encode(luiCmd: LuiCommand): HMICommand {
+        const sanitizer = new NSPanelHmiSanitizer()
+        let params: LuiValue[]
+
+        switch (luiCmd.cmd) {
+            case 'pageType':
+                params = [luiCmd.pageType]
+                break
+
+            case 'entityUpd':
+                params = NSPanelHmiCodec.encodeCard(luiCmd)
+                break
+
+            case 'entityUpdateDetail':
+                params = NSPanelHmiCodec.encodePopup(luiCmd, sanitizer)
+                break
+
+            case 'entityUpdateDetail2':
+                params = NSPanelHmiCodec.encodeInputSelectPopup(luiCmd, sanitizer)
+                break
+
+            case 'weatherUpdate':
+                params = flatMap(luiCmd.entities, (entity) => NSPanelHmiCodec.encodeEntity(entity))
+                break
+
+            case 'statusUpdate':
+                params = flatMap(luiCmd.icons, (icon) => NSPanelHmiCodec.encodeStatusIcon(icon))
+                break
+
+            case 'color':
+                params = SCREENSAVER_COLOR_KEYS.map((key) => luiCmd.colors[key])
+                break
+
+            case 'notify':
+                params = [luiCmd.heading, luiCmd.text, luiCmd.headingColor, luiCmd.textColor]
+                break
+
+            case 'dimmode':
+                params = [luiCmd.dimLow, luiCmd.dimHigh]
+                break
+
+            case 'timeout':
+                params = [luiCmd.timeout]
+                break
+
+            case 'time':
+                params = [luiCmd.time]
+                break
+
+            case 'date':
+                params = [luiCmd.date]
+                break
+        }
+
+        const multilineField =
+            luiCmd.cmd === 'entityUpdateDetail' && luiCmd.popup === 'popupNotify' ? POPUP_NOTIFY_TEXT_FIELD : -1
+        const hmiCmd: HMICommand = {
+            cmd: luiCmd.cmd,
+            params: params.map((param, idx) => sanitizer.field(param, idx === multilineField)),
+        }
+        if (sanitizer.changed) {
+            hmiCmd.sanitized = true
+        }
+        return hmiCmd
+    }
+
+    /**
+     * Decodes a command payload, e.g. `pageType~cardEntities`. `entityUpd` and `entityUpdateDetail` commands can
+     * only be decoded with the page type or popup type shown on the panel. Returns `null` for unknown commands.
+     */
+    public static decode(payload: string, context: LuiDecodeContext = {}): LuiCommand | null {
+        const [cmd, ...fields] = payload.split(NSPanelConstants.STR_LUI_DELIMITER)
+        const reader = createFieldReader(fields)
+
+        switch (cmd) {
+            case NSPanelConstants.STR_LUI_CMD_PAGETYPE:
+                return { cmd: 'pageType', pageType: reader.next() }
+
+            case NSPanelConstants.STR_LUI_CMD_ENTITYUPDATE: {
+                const cardUpdate = NSPanelHmiCodec.decodeCard(context.pageType, reader)
+                return cardUpdate != null ? { cmd: 'entityUpd', ...cardUpdate } : null
+            }
+
+            case NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL: {
+                const popupType =
+                    context.popupType ??
+                    (context.pageType === NSPanelConstants.STR_PAGE_TYPE_POPUP_NOTIFY ? context.pageType : null)
+                const popupUpdate = NSPanelHmiCodec.decodePopup(popupType, reader)
+                return popupUpdate != null ? { cmd: 'entityUpdateDetail', ...popupUpdate } : null
+            }
+
+            case NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL2:
+                return { cmd: 'entityUpdateDetail2', ...NSPanelHmiCodec.decodeInputSelectPopup(reader) }
+
+            case 'weatherUpdate':
+                return {
+                    cmd: 'weatherUpdate',
+                    entities: reader.chunks(ENTITY_FIELDS).map((entity) => NSPanelHmiCodec.decodeEntity(entity)),
+                }
+
+            case 'statusUpdate':
+                return {
+                    cmd: 'statusUpdate',
+                    icons: [NSPanelHmiCodec.decodeStatusIcon(reader), NSPanelHmiCodec.decodeStatusIcon(reader)],
+                }
+
+            case 'color': {
+                const colors = {} as LuiScreenSaverColors
+                SCREENSAVER_COLOR_KEYS.forEach((key) => {
+                    colors[key] = reader.next()
+                })
+                return { cmd: 'color', colors }
+            }
+
+            case NSPanelConstants.STR_LUI_CMD_NOTIFY:
+                return {
+                    cmd: 'notify',
+                    heading: reader.next(),
+                    text: reader.next(),
+                    headingColor: reader.next(),
+                    textColor: reader.next(),
+                }
+
+            case NSPanelConstants.STR_LUI_CMD_DIMMODE:
+                return { cmd: 'dimmode', dimLow: reader.next(), dimHigh: reader.next() }
+
+            case NSPanelConstants.STR_LUI_CMD_TIMEOUT:
+                return { cmd: 'timeout', timeout: reader.next() }
+
+            case NSPanelConstants.STR_LUI_CMD_TIME:
+                return { cmd: 'time', time: reader.next() }
+
+            case NSPanelConstants.STR_LUI_CMD_DATE:
+                return { cmd: 'date', date: reader.next() }
+        }
+
+        log.debug(`Cannot decode command: ${cmd}`)
+        return null
+    }
+
+    // #region encoding
+    private static encodeEntity(entity: LuiEntity): LuiValue[] {
+        if (entity.type === NSPanelConstants.STR_LUI_ENTITY_NONE) {
+            return NSPanelHmiCodec.encodeEmptyEntity()
+        }
+
+        return [entity.type, entity.entityId, entity.icon, entity.iconColor, entity.text, entity.value]
+    }
+
+    private static encodeEmptyEntity(): LuiValue[] {
+        return [NSPanelConstants.STR_LUI_ENTITY_NONE, ...Array(ENTITY_FIELDS - 1).fill(NSPanelConstants.STR_EMPTY)]
+    }
+
+    private static encodePowerEntity(entity: LuiPowerEntity): LuiValue[] {
+        return [...NSPanelHmiCodec.encodeEntity(entity), entity.speed]
+    }
+
+    private static encodeNavigation(navigation: LuiNavigation): LuiValue[] {
+        return [
+            ...NSPanelHmiCodec.encodeNavigationButton(NSPanelConstants.STR_NAV_ID_PREVIOUS, navigation.prev),
+            ...NSPanelHmiCodec.encodeNavigationButton(NSPanelConstants.STR_NAV_ID_NEXT, navigation.next),
+        ]
+    }
+
+    private static encodeNavigationButton(navId: string, button: LuiNavigationButton | null): LuiValue[] {
+        if (button == null) {
+            return NSPanelHmiCodec.encodeEmptyEntity()
+        }
+
+        return [
+            NSPanelConstants.STR_LUI_ENTITY_BUTTON,
+            navId,
+            button.icon,
+            button.iconColor,
+            NSPanelConstants.STR_EMPTY,
+            NSPanelConstants.STR_EMPTY,
+        ]
+    }
+
+    private static encodeStatusIcon(icon: LuiStatusIcon | null): LuiValue[] {
+        return [icon?.icon ?? NSPanelConstants.STR_EMPTY, icon?.iconColor ?? NSPanelConstants.STR_EMPTY]
+    }
+
+    private static encodeList(list: LuiValue[], sanitizer: NSPanelHmiSanitizer): string {
+        return sanitizer.list(list)
+    }
+
+    private static encodeCard(card: LuiCardUpdate): LuiValue[] {
+        const params: LuiValue[] = [card.title, ...NSPanelHmiCodec.encodeNavigation(card.navigation)]
+
+        switch (card.card) {
+            case 'cardEntities':
+            case 'cardGrid':
+            case 'cardGrid2':
+                params.push(...flatMap(card.entities, (entity) => NSPanelHmiCodec.encodeEntity(entity)))
+                break
+
+            case 'cardPower':
+                params.push(...flatMap(card.entities, (entity) => NSPanelHmiCodec.encodePowerEntity(entity)))
+                break
+
+            case 'cardQR':
+                params.push(card.qrText)
+                params.push(...flatMap(card.entities, (entity) => NSPanelHmiCodec.encodeEntity(entity)))
+                break
+
+            case 'cardThermo':
+                params.push(
+                    card.entityId,
+                    card.currentTemperature,
+                    card.targetTemperature,
+                    card.status,
+                    card.minTemperature,
+                    card.maxTemperature,
+                    card.temperatureStep
+                )
+                card.actions.forEach((action) =>
+                    params.push(action.icon, action.iconColor, action.state, action.entityId)
+                )
+                params.push(
+                    card.currentTemperatureLabel,
+                    card.statusLabel,
+                    card.detailsLabel,
+                    card.unit,
+                    card.targetTemperature2,
+                    card.detailsDisabled
+                )
+                break
+
+            case 'cardMedia':
+                params.push(
+                    card.entityId,
+                    card.mediaTitle,
+                    card.mediaTitleColor,
+                    card.artist,
+                    card.artistColor,
+                    card.volume,
+                    card.iconPlayPause,
+                    card.onOffButton,
+                    card.iconShuffle
+                )
+                params.push(...flatMap(card.entities, (entity) => NSPanelHmiCodec.encodeEntity(entity)))
+                break
+
+            case 'cardAlarm':
+                params.push(card.entityId)
+                card.actions.forEach((action) => params.push(action.text, action.action))
+                params.push(
+                    card.statusIcon,
+                    card.statusIconColor,
+                    card.numpadStatus,
+                    card.flashingStatus,
+                    card.extraButtonIcon,
+                    card.extraButtonIconColor,
+                    card.extraButtonId
+                )
+                break
+
+            case 'cardChart':
+            case 'cardLChart':
+                params.push(card.color, card.yAxisLabel, card.yAxisTicks.join(CHART_TICK_DELIMITER))
+                params.push(
+                    ...card.values.map((chartValue) =>
+                        chartValue.label != null
+                            ? `${chartValue.value}${CHART_LABEL_DELIMITER}${chartValue.label}`
+                            : `${chartValue.value}`
+                    )
+                )
+                break
+        }
+
+        return params
+    }
+
+    private static encodePopup(popup: LuiPopupUpdate, sanitizer: NSPanelHmiSanitizer): LuiValue[] {
+        switch (popup.popup) {
+            case 'popupLight':
+                return [
+                    popup.entityId,
+                    popup.icon,
+                    popup.iconColor,
+                    popup.state,
+                    popup.brightness,
+                    popup.colorTemperature,
+                    popup.colorMode,
+                    popup.colorLabel,
+                    popup.colorTemperatureLabel,
+                    popup.brightnessLabel,
+                ]
+
+            case 'popupShutter': {
+                const params: LuiValue[] = [
+                    popup.entityId,
+                    popup.position,
+                    popup.text,
+                    popup.positionLabel,
+                    popup.icon,
+                    popup.iconUp,
+                    popup.iconStop,
+                    popup.iconDown,
+                    popup.iconUpStatus,
+                    popup.iconStopStatus,
+                    popup.iconDownStatus,
+                ]
+                const { tilt } = popup
+                if (tilt != null) {
+                    params.push(
+                        tilt.label,
+                        tilt.iconLeft,
+                        tilt.iconStop,
+                        tilt.iconRight,
+                        tilt.iconLeftStatus,
+                        tilt.iconStopStatus,
+                        tilt.iconRightStatus,
+                        tilt.value
+                    )
+                } else {
+                    params.push(...Array(7).fill(NSPanelConstants.STR_EMPTY), NSPanelConstants.STR_DISABLE)
+                }
+                return params
+            }
+
+            case 'popupFan':
+                return [
+                    popup.entityId,
+                    popup.icon,
+                    popup.iconColor,
+                    popup.state,
+                    popup.speed,
+                    popup.speedMax,
+                    popup.text,
+                    popup.mode,
+                    NSPanelHmiCodec.encodeList(popup.modes, sanitizer),
+                ]
+
+            case 'popupThermo':
+                return [
+                    popup.entityId,
+                    popup.icon,
+                    popup.iconColor,
+                    ...flatMap(popup.modes, (mode) => [
+                        mode.heading,
+                        mode.mode,
+                        mode.selectedMode,
+                        NSPanelHmiCodec.encodeList(mode.modes, sanitizer),
+                    ]),
+                ]
+
+            case 'popupTimer':
+                return [
+                    popup.entityId,
+                    popup.icon,
+                    popup.iconColor,
+                    popup.timerId,
+                    popup.minutes,
+                    popup.seconds,
+                    popup.adjustable,
+                    ...popup.actions,
+                    ...popup.labels,
+                ]
+
+            case 'popupNotify':
+                return [
+                    popup.notifyId,
+                    popup.heading,
+                    popup.headingColor,
+                    popup.cancelText,
+                    popup.cancelColor,
+                    popup.okText,
+                    popup.okColor,
+                    popup.text,
+                    popup.textColor,
+                    popup.timeout,
+                    popup.fontSize,
+                    popup.icon,
+                    popup.iconColor,
+                ]
+        }
+
+        return []
+    }
+
+    private static encodeInputSelectPopup(
+        popup: LuiInputSelectPopupUpdate,
+        sanitizer: NSPanelHmiSanitizer
+    ): LuiValue[] {
+        const params: LuiValue[] = [popup.entityId, popup.icon, popup.iconColor]
+        if (popup.selection != null) {
+            params.push(
+                popup.selection.mode,
+                popup.selection.selectedOption,
+                NSPanelHmiCodec.encodeList(popup.selection.options, sanitizer)
+            )
+        }
+        return params
+    }
+    // #endregion encoding
+
+    // #region decoding
+    private static decodeEntity(fields: string[]): LuiEntity {
+        const [type, entityId, icon, iconColor, text, value] = fields
+        return { type, entityId, icon, iconColor, text, value }
+    }
+
+    private static decodePowerEntity(fields: string[]): LuiPowerEntity {
+        return { ...NSPanelHmiCodec.decodeEntity(fields), speed: fields[ENTITY_FIELDS] }
+    }
+
+    private static decodeNavigationButton(fields: string[]): LuiNavigationButton | null {
+        const [type, , icon, iconColor] = fields
+        return type === NSPanelConstants.STR_LUI_ENTITY_NONE || type === NSPanelConstants.STR_EMPTY
+            ? null
+            : { icon, iconColor }
+    }
+
+    private static decodeStatusIcon(reader: FieldReader): LuiStatusIcon | null {
+        const icon = reader.next()
+        const iconColor = reader.next()
+        return icon === NSPanelConstants.STR_EMPTY && iconColor === NSPanelConstants.STR_EMPTY
+            ? null
+            : { icon, iconColor }
+    }
+
+    private static decodeList(field: string): string[] {
+        return field === NSPanelConstants.STR_EMPTY ? [] : field.split(NSPanelConstants.STR_LUI_LIST_DELIMITER)
+    }
+
+    private static decodeCard(pageType: string | null | undefined, reader: FieldReader): LuiCardUpdate | null {
+        const title = reader.next()
+        const navigation: LuiNavigation = {
+            prev: NSPanelHmiCodec.decodeNavigationButton(reader.take(ENTITY_FIELDS)),
+            next: NSPanelHmiCodec.decodeNavigationButton(reader.take(ENTITY_FIELDS)),
+        }
+        const decodeEntities = () => reader.chunks(ENTITY_FIELDS).map((entity) => NSPanelHmiCodec.decodeEntity(entity))
+
+        switch (pageType) {
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_ENTITIES:
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_GRID:
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_GRID2:
+                return {
+                    card: pageType as 'cardEntities' | 'cardGrid' | 'cardGrid2',
+                    title,
+                    navigation,
+                    entities: decodeEntities(),
+                }
+
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_POWER:
+                return {
+                    card: 'cardPower',
+                    title,
+                    navigation,
+                    entities: reader
+                        .chunks(POWER_ENTITY_FIELDS)
+                        .map((entity) => NSPanelHmiCodec.decodePowerEntity(entity)),
+                }
+
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_QR:
+                return { card: 'cardQR', title, navigation, qrText: reader.next(), entities: decodeEntities() }
+
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_THERMO: {
+                const [entityId, currentTemperature, targetTemperature, status, minTemp, maxTemp, step] = reader.take(7)
+                const actions: LuiThermoAction[] = reader
+                    .chunks(THERMO_ACTION_FIELDS, THERMO_CARD_TRAILING_FIELDS)
+                    .map(([icon, iconColor, state, actionEntityId]) => ({
+                        icon,
+                        iconColor,
+                        state,
+                        entityId: actionEntityId,
+                    }))
+                const [currentTemperatureLabel, statusLabel, detailsLabel, unit, targetTemperature2, detailsDisabled] =
+                    reader.take(THERMO_CARD_TRAILING_FIELDS)
+
+                return {
+                    card: 'cardThermo',
+                    title,
+                    navigation,
+                    entityId,
+                    currentTemperature,
+                    targetTemperature,
+                    status,
+                    minTemperature: minTemp,
+                    maxTemperature: maxTemp,
+                    temperatureStep: step,
+                    actions,
+                    currentTemperatureLabel,
+                    statusLabel,
+                    detailsLabel,
+                    unit,
+                    targetTemperature2,
+                    detailsDisabled,
+                }
+            }
+
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_MEDIA: {
+                const [entityId, mediaTitle, mediaTitleColor, artist, artistColor, volume, iconPlayPause] =
+                    reader.take(7)
+                const [onOffButton, iconShuffle] = reader.take(2)
+
+                return {
+                    card: 'cardMedia',
+                    title,
+                    navigation,
+                    entityId,
+                    mediaTitle,
+                    mediaTitleColor,
+                    artist,
+                    artistColor,
+                    volume,
+                    iconPlayPause,
+                    onOffButton,
+                    iconShuffle,
+                    entities: decodeEntities(),
+                }
+            }
+
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_ALARM: {
+                const entityId = reader.next()
+                const actions: LuiAlarmAction[] = reader
+                    .chunks(ALARM_ACTION_FIELDS, ALARM_CARD_TRAILING_FIELDS)
+                    .map(([text, action]) => ({ text, action }))
+                const [statusIcon, statusIconColor, numpadStatus, flashingStatus] = reader.take(4)
+                const [extraButtonIcon, extraButtonIconColor, extraButtonId] = reader.take(3)
+
+                return {
+                    card: 'cardAlarm',
+                    title,
+                    navigation,
+                    entityId,
+                    actions,
+                    statusIcon,
+                    statusIconColor,
+                    numpadStatus,
+                    flashingStatus,
+                    extraButtonIcon,
+                    extraButtonIconColor,
+                    extraButtonId,
+                }
+            }
+
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_CHART:
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_LCHART: {
+                const [color, yAxisLabel, yAxisTicks] = reader.take(3)
+                const values: LuiChartValue[] = reader.chunks(1).map(([field]) => {
+                    const [value, label] = field.split(CHART_LABEL_DELIMITER)
+                    return label != null ? { value, label } : { value }
+                })
+
+                return {
+                    card: pageType as 'cardChart' | 'cardLChart',
+                    title,
+                    navigation,
+                    color,
+                    yAxisLabel,
+                    yAxisTicks: yAxisTicks === NSPanelConstants.STR_EMPTY ? [] : yAxisTicks.split(CHART_TICK_DELIMITER),
+                    values,
+                }
+            }
+        }
+
+        return null
+    }
+
+    private static decodePopup(popupType: string | null | undefined, reader: FieldReader): LuiPopupUpdate | null {
+        switch (popupType) {
+            case 'popupLight': {
+                const [entityId, icon, iconColor, state, brightness, colorTemperature, colorMode] = reader.take(7)
+                const [colorLabel, colorTemperatureLabel, brightnessLabel] = reader.take(3)
+                return {
+                    popup: 'popupLight',
+                    entityId,
+                    icon,
+                    iconColor,
+                    state,
+                    brightness,
+                    colorTemperature,
+                    colorMode,
+                    colorLabel,
+                    colorTemperatureLabel,
+                    brightnessLabel,
+                }
+            }
+
+            case 'popupShutter': {
+                const [entityId, position, text, positionLabel, icon, iconUp, iconStop, iconDown] = reader.take(8)
+                const [iconUpStatus, iconStopStatus, iconDownStatus] = reader.take(3)
+                const [label, iconLeft, iconTiltStop, iconRight, iconLeftStatus, iconTiltStopStatus, iconRightStatus] =
+                    reader.take(7)
+                const value = reader.next()
+                const tilt: LuiShutterTilt | null =
+                    label === NSPanelConstants.STR_EMPTY && value === NSPanelConstants.STR_DISABLE
+                        ? null
+                        : {
+                              label,
+                              iconLeft,
+                              iconStop: iconTiltStop,
+                              iconRight,
+                              iconLeftStatus,
+                              iconStopStatus: iconTiltStopStatus,
+                              iconRightStatus,
+                              value,
+                          }
+
+                return {
+                    popup: 'popupShutter',
+                    entityId,
+                    position,
+                    text,
+                    positionLabel,
+                    icon,
+                    iconUp,
+                    iconStop,
+                    iconDown,
+                    iconUpStatus,
+                    iconStopStatus,
+                    iconDownStatus,
+                    tilt,
+                }
+            }
+
+            case 'popupFan': {
+                const [entityId, icon, iconColor, state, speed, speedMax, text, mode, modes] = reader.take(9)
+                return {
+                    popup: 'popupFan',
+                    entityId,
+                    icon,
+                    iconColor,
+                    state,
+                    speed,
+                    speedMax,
+                    text,
+                    mode,
+                    modes: NSPanelHmiCodec.decodeList(modes),
+                }
+            }
+
+            case 'popupThermo': {
+                const [entityId, icon, iconColor] = reader.take(3)
+                const decodeMode = (): LuiThermoPopupMode => {
+                    const [heading, mode, selectedMode, modes] = reader.take(4)
+                    return { heading, mode, selectedMode, modes: NSPanelHmiCodec.decodeList(modes) }
+                }
+                return {
+                    popup: 'popupThermo',
+                    entityId,
+                    icon,
+                    iconColor,
+                    modes: [decodeMode(), decodeMode(), decodeMode()],
+                }
+            }
+
+            case 'popupTimer': {
+                const [entityId, icon, iconColor, timerId, minutes, seconds, adjustable] = reader.take(7)
+                const [action1, action2, action3, label1, label2, label3] = reader.take(6)
+                return {
+                    popup: 'popupTimer',
+                    entityId,
+                    icon,
+                    iconColor,
+                    timerId,
+                    minutes,
+                    seconds,
+                    adjustable,
+                    actions: [action1, action2, action3],
+                    labels: [label1, label2, label3],
+                }
+            }
+
+            case NSPanelConstants.STR_PAGE_TYPE_POPUP_NOTIFY: {
+                const [notifyId, heading, headingColor, cancelText, cancelColor, okText, okColor] = reader.take(7)
+                const [text, textColor, timeout, fontSize, icon, iconColor] = reader.take(6)
+                return {
+                    popup: 'popupNotify',
+                    notifyId,
+                    heading,
+                    headingColor,
+                    cancelText,
+                    cancelColor,
+                    okText,
+                    okColor,
+                    text,
+                    textColor,
+                    timeout,
+                    fontSize,
+                    icon,
+                    iconColor,
+                }
+            }
+        }
+
+        return null
+    }
+
+    private static decodeInputSelectPopup(reader: FieldReader): LuiInputSelectPopupUpdate {
+        const [entityId, icon, iconColor] = reader.take(3)
+        const selection =
+            reader.remaining() > 0
+                ? {
+                      mode: reader.next(),
+                      selectedOption: reader.next(),
+                      options: NSPanelHmiCodec.decodeList(reader.next()),
+                  }
+                : null
+
+        return { popup: 'popupInSel', entityId, icon, iconColor, selection }
+    }
+    // #endregion decoding
+}
@@ -0,0 +1,81 @@
+import * as NSPanelConstants from './nspanel-constants'
+import { LuiValue } from '../types/types'
+
+const LINEBREAK_REGEX = /\r?\n|\r/g
+
+/**
+ * Makes texts safe to be sent as fields of a LUI command. The protocol has no escaping, so the field delimiter `~`
+ * and, within lists, the list delimiter `?` are replaced, line breaks are replaced by a blank (unless the field is
+ * shown on multiple lines) and fields are cut to the length the HMI accepts. Lists are cut item by item, so every
+ * item keeps its delimiter. `changed` tells, whether any text had to be modified.
+ */
+export class NSPanelHmiSanitizer {
+    private _changed = false
+
+    public get changed(): boolean {
+        return this._changed
+    }
+
+    public field(value: LuiValue | null | undefined, multiline: boolean = false): LuiValue {
+        if (value == null) return NSPanelConstants.STR_EMPTY
+        if (typeof value === 'number') return value
+
+        const text = `${value}`
+        return this.track(
+            text,
+            text
+                .replace(LINEBREAK_REGEX, multiline ? NSPanelConstants.STR_LUI_LINEBREAK : ' ')
+                .split(NSPanelConstants.STR_LUI_DELIMITER)
+                .join(NSPanelConstants.STR_LUI_DELIMITER_REPLACEMENT)
+                .substring(0, NSPanelConstants.LUI_MAX_FIELD_LENGTH)
+        )
+    }
+
+    public listItem(value: LuiValue | null | undefined): LuiValue {
+        if (value == null) return NSPanelConstants.STR_EMPTY
+        if (typeof value === 'number') return value
+
+        const text = `${value}`
+        return this.track(
+            text,
+            text
+                .split(NSPanelConstants.STR_LUI_LIST_DELIMITER)
+                .join(NSPanelConstants.STR_LUI_LIST_DELIMITER_REPLACEMENT)
+        )
+    }
+
+    /**
+     * Joins the items of a list field. If the list exceeds the field length, the longest items are cut, so all
+     * items and their delimiters fit into the field.
+     */
+    public list(values: LuiValue[]): string {
+        const items = values.map((value) => `${this.listItem(value)}`)
+        const maxLength = NSPanelHmiSanitizer.getMaxListItemLength(
+            items.map((item) => item.length),
+            NSPanelConstants.LUI_MAX_FIELD_LENGTH - Math.max(0, items.length - 1)
+        )
+
+        return items
+            .map((item) => this.track(item, item.substring(0, maxLength)))
+            .join(NSPanelConstants.STR_LUI_LIST_DELIMITER)
+    }
+
+    private static getMaxListItemLength(lengths: number[], available: number): number {
+        // short items keep their length, the remaining space is shared by the longer ones
+        const sorted = [...lengths].sort((a, b) => a - b)
+        let remaining = Math.max(0, available)
+        for (let i = 0; i < sorted.length; i += 1) {
+            const share = Math.floor(remaining / (sorted.length - i))
+            if (sorted[i] > share) return share
+            remaining -= sorted[i]
+        }
+        return NSPanelConstants.LUI_MAX_FIELD_LENGTH
+    }
+
+    private track(value: string, sanitizedValue: string): string {
+        if (sanitizedValue !== value) {
+            this._changed = true
+        }
+        return sanitizedValue
+    }
+}
@@ -0,0 +1,237 @@
+import * as nEvents from 'events'
+import axios from 'axios'
+
+import { Logger } from './logger'
+import { MqttUtils } from './mqtt-utils'
+import { NSPanelUtils } from './nspanel-utils'
+import * as NSPanelConstants from './nspanel-constants'
+import { IPanelMqttClient, OnMqttMessageCallback, PanelConfig, PanelParameters } from '../types/types'
+
+const log = Logger('NSPanelHttpClient')
+
+const HTTP_REQUEST_TIMEOUT = 5000
+const TASMOTA_WEB_USER = 'admin'
+const TASMOTA_STATUS_STATE = '11'
+const TASMOTA_STATUS_SENSOR = '10'
+const TASMOTA_STATUS_STATE_KEY = 'StatusSTS'
+const TASMOTA_STATUS_SENSOR_KEY = 'StatusSNS'
+// delay of the first retry after a failed poll, doubled with every further failure
+const HTTP_RETRY_DELAY_MIN = 1000
+const HTTP_RETRY_DELAY_MAX = 60000
+
+/**
+ * Transport using the Tasmota HTTP API instead of a mqtt broker. Commands are sent to `/cm?cmnd=`, responses,
+ * webhook calls and polled state are delivered as messages on the topics Tasmota would publish them on, so
+ * the panel is handled the same way as via mqtt.
+ */
+export class NSPanelHttpClient extends nEvents.EventEmitter implements IPanelMqttClient {
+    private panel: PanelParameters
+
+    private baseUrl: string
+
+    private connected: boolean = false
+
+    private refCount: number = 0
+
+    private pollTimer: ReturnType<typeof setTimeout> | null = null
+
+    private retryDelay: number = HTTP_RETRY_DELAY_MIN
+
+    private requestChain: Promise<void> = Promise.resolve()
+
+    private subscriptions: Map<string, Set<OnMqttMessageCallback>> = new Map()
+
+    constructor(panelConfig: PanelConfig) {
+        super()
+
+        this.panel = panelConfig.panel
+        const address = panelConfig.panel.httpAddress ?? ''
+        this.baseUrl = address.indexOf('://') > -1 ? address : `http://${address}`
+        this.baseUrl = this.baseUrl.replace(/\/+$/, '')
+    }
+
+    public dispose() {
+        this.stopPolling()
+        this.subscriptions.clear()
+        this.refCount = 0
+        this.connected = false
+    }
+
+    public isConnected(): boolean {
+        return this.connected
+    }
+
+    public getStatusTopic(): string | null {
+        // no broker to register a last will with
+        return null
+    }
+
+    public acquire() {
+        this.refCount += 1
+        if (this.refCount > 1) return
+
+        // initial poll to get the state of the panel, as there is no connect like with mqtt
+        this.retryDelay = HTTP_RETRY_DELAY_MIN
+        setImmediate(() => this.poll())
+    }
+
+    public release() {
+        this.refCount = Math.max(0, this.refCount - 1)
+        if (this.refCount === 0) {
+            this.stopPolling()
+        }
+    }
+
+    public subscribe(topic: string, listener: OnMqttMessageCallback) {
+        let listeners = this.subscriptions.get(topic)
+        if (listeners == null) {
+            listeners = new Set()
+            this.subscriptions.set(topic, listeners)
+        }
+        listeners.add(listener)
+    }
+
+    public unsubscribe(topic: string, listener: OnMqttMessageCallback) {
+        const listeners = this.subscriptions.get(topic)
+        if (listeners == null) return
+
+        listeners.delete(listener)
+        if (listeners.size === 0) {
+            this.subscriptions.delete(topic)
+        }
+    }
+
+    public publish(topic: string, payload: string) {
+        const cmd = topic.substring(topic.lastIndexOf('/') + 1)
+
+        this.sendCommand(cmd, payload).then((result) => {
+            if (result == null) return
+
+            // Status <n> replies on stat/STATUS<n>, all other commands on stat/RESULT
+            const isStatusCmd = cmd.toUpperCase() === NSPanelConstants.STR_TASMOTA_CMD_STATUS.toUpperCase()
+            const resultCmd = isStatusCmd ? `STATUS${payload?.trim() ?? ''}` : 'RESULT'
+            this.deliver(MqttUtils.buildPanelTopic(this.panel, 'stat', resultCmd), result)
+        })
+    }
+
+    /**
+     * Receives a result posted by the panel to the webhook, e.g. by a Tasmota rule forwarding `CustomRecv`.
+     */
+    public receive(payload: string) {
+        this.deliver(MqttUtils.buildPanelTopic(this.panel, 'tele', 'RESULT'), payload)
+    }
+
+    private poll() {
+        this.pollTimer = null
+        if (this.refCount === 0) return
+
+        this.sendCommand(NSPanelConstants.STR_TASMOTA_CMD_STATUS, TASMOTA_STATUS_STATE).then((result) => {
+            this.updateConnected(result != null)
+            this.schedulePoll(result != null)
+            if (result == null) return
+
+            const state = this.getStatusData(result, TASMOTA_STATUS_STATE_KEY)
+            if (state != null) {
+                this.deliver(MqttUtils.buildPanelTopic(this.panel, 'tele', 'STATE'), state)
+            }
+
+            this.sendCommand(NSPanelConstants.STR_TASMOTA_CMD_STATUS, TASMOTA_STATUS_SENSOR).then((sensorResult) => {
+                const sensor = this.getStatusData(sensorResult, TASMOTA_STATUS_SENSOR_KEY)
+                if (sensor != null) {
+                    this.deliver(MqttUtils.buildPanelTopic(this.panel, 'tele', 'SENSOR'), sensor)
+                }
+            })
+        })
+    }
+
+    private sendCommand(cmd: string, data: string): Promise<string | null> {
+        const params = new URLSearchParams({ cmnd: `${cmd} ${data ?? ''}`.trim() })
+        if (!NSPanelUtils.stringIsNullOrEmpty(this.panel.httpPassword)) {
+            params.append('user', TASMOTA_WEB_USER)
+            params.append('password', this.panel.httpPassword)
+        }
+
+        // the web server of Tasmota handles one request at a time, thus requests are sent one after another
+        return new Promise((resolve) => {
+            this.requestChain = this.requestChain.then(() =>
+                axios
+                    .get<string>(`${this.baseUrl}/cm?${params.toString()}`, {
+                        responseType: 'text',
+                        timeout: HTTP_REQUEST_TIMEOUT,
+                    })
+                    .then((response) => resolve(response.data))
+                    .catch((err: unknown) => {
+                        if (err instanceof Error) {
+                            log.error(`Could not send command ${cmd} to panel. Error: ${err.message}`)
+                        }
+                        resolve(null)
+                    })
+            )
+        })
+    }
+
+    private getStatusData(result: string | null, key: string): string | null {
+        if (result == null) return null
+
+        try {
+            const data = JSON.parse(result)
+            return data?.[key] != null ? JSON.stringify(data[key]) : null
+        } catch (err: unknown) {
+            if (err instanceof Error) {
+                log.error(`Error processing status data (data=${result}): ${err.message}`)
+            }
+        }
+
+        return null
+    }
+
+    private updateConnected(connected: boolean) {
+        if (connected === this.connected) return
+
+        this.connected = connected
+        this.deliver(
+            MqttUtils.buildPanelTopic(this.panel, 'tele', 'LWT'),
+            connected ? NSPanelConstants.STR_TASMOTA_LWT_ONLINE : NSPanelConstants.STR_TASMOTA_LWT_OFFLINE
+        )
+        this.emit(connected ? 'mqtt:connect' : 'mqtt:close')
+    }
+
+    private deliver(topic: string, payload: string) {
+        const listeners: Set<OnMqttMessageCallback> = new Set()
+        this.subscriptions.forEach((topicListeners, subscribedTopic) => {
+            if (MqttUtils.matchesMqttTopic(topic, subscribedTopic)) {
+                topicListeners.forEach((listener) => listeners.add(listener))
+            }
+        })
+
+        const data = Buffer.from(payload)
+        listeners.forEach((listener) => listener(topic, data))
+    }
+
+    /**
+     * Schedules the next poll, after the poll interval if the panel answered. Otherwise the panel is polled again
+     * with backoff until it answers, even without a poll interval, as the panel is not able to report coming back.
+     */
+    private schedulePoll(success: boolean) {
+        if (this.refCount === 0 || this.pollTimer != null) return
+
+        let delay: number
+        if (success) {
+            this.retryDelay = HTTP_RETRY_DELAY_MIN
+            delay = Number(this.panel.httpPollInterval) * 1000
+            if (!(delay > 0)) return
+        } else {
+            delay = this.retryDelay
+            this.retryDelay = Math.min(this.retryDelay * 2, HTTP_RETRY_DELAY_MAX)
+        }
+
+        this.pollTimer = setTimeout(() => this.poll(), delay)
+    }
+
+    private stopPolling() {
+        if (this.pollTimer != null) {
+            clearTimeout(this.pollTimer)
+            this.pollTimer = null
+        }
+    }
+}
@@ -6,129 +6,441 @@ import {
     EventArgs,
     StartupEventArgs,
     HardwareEventArgs,
-    SensorEventArgs,
     LightEventArgs,
-    FirmwareEventArgs,
     FirmwareType,
-    TasmotaEventArgs,
+    PanelMessageSource,
+    PanelEvent,
+    PanelEventKind,
+    ButtonActionEvent,
+    RelayStateEvent,
+    FirmwareEvent,
+    TasmotaCommandResultEvent,
+    SensorEvent,
+    SensorEventArgs,
+    SensorMeasurement,
+    SensorMeasurementType,
+    PanelStatusUpdateEvent,
+    UnknownEvent,
 } from '../types/types'
 import * as NSPanelConstants from './nspanel-constants'
 
 const log = Logger('NSPanelMessageParser')
 
+const SENSOR_ESP32 = 'ESP32'
+const DEFAULT_TEMPERATURE_UNIT = 'C'
+const DEFAULT_PRESSURE_UNIT = 'hPa'
+const UNIT_HUMIDITY = '%'
+const UNIT_ILLUMINANCE = 'lx'
+// properties of Tasmota sensor data, e.g. `Temperature` of `BME280` or `Temperature1` of `ANALOG`
+const SENSOR_PROPERTIES: { pattern: RegExp; type: SensorMeasurementType }[] = [
+    { pattern: /^Temperature\d*$/, type: 'temperature' },
+    { pattern: /^Humidity$/, type: 'humidity' },
+    { pattern: /^Pressure$/, type: 'pressure' },
+    { pattern: /^Illuminance$/, type: 'illuminance' },
+]
+
 export class NSPanelMessageParser {
-    public static parse(payloadStr: string): EventArgs {
-        let result: EventArgs = null
+    /**
+     * Parses a message received from the panel into events, one for most messages, several for e.g. relay states
+     * reported in one message. The `kind` of an event tells its type. Messages without relevant data result in
+     * an empty list.
+     */
+    public static parse(payloadStr: string, source: PanelMessageSource = 'result'): PanelEvent[] {
+        if (source === 'lwt') {
+            const lwtEvent = NSPanelMessageParser.parseTasmotaLwtEvent(payloadStr)
+            return lwtEvent != null ? [lwtEvent] : []
+        }
 
+        let input: any
         try {
-            const temp = JSON.parse(payloadStr)
-
-            if ('CustomRecv' in temp) {
-                result = NSPanelMessageParser.parseCustomMessage(temp.CustomRecv.split(','))
-            } else if ('nlui_driver_version' in temp) {
-                result = NSPanelMessageParser.parseNluiDriverEvent(temp)
-            } else {
-                result = {
-                    type: 'unknown',
-                    source: '',
-                    event: '',
-                    data: temp,
-                }
-            }
+            input = JSON.parse(payloadStr)
         } catch (err: unknown) {
-            result.data = payloadStr
+            if (err instanceof Error) {
+                log.error(`Error parsing ${source} message (data=${payloadStr}): ${err.message}`)
+            }
+            return []
         }
+        if (input == null || typeof input !== 'object') return []
 
-        return result
-    }
+        let result: PanelEvent | PanelEvent[] | null = null
+        switch (source) {
+            case 'result':
+                result = NSPanelMessageParser.parseResult(input)
+                break
 
-    public static parseCustomMessage(parts: Array<string>): EventArgs {
-        let result: EventArgs = {
-            type: 'event',
-            event: '',
-            event2: '',
-            source: '',
+            case 'statResult':
+                result = NSPanelMessageParser.parseStatResult(input)
+                break
+
+            case 'sensor':
+                result = NSPanelMessageParser.parseSensorEvent(input)
+                break
+
+            case 'status2':
+                result = NSPanelMessageParser.parseTasmotaStatus2Event(input)
+                break
+
+            case 'upgrade':
+                result = NSPanelMessageParser.parseTasmotaUpgradeEvent(input)
+                break
+
+            case 'state':
+                result = NSPanelMessageParser.parseTasmotaStateEvent(input)
+                break
         }
 
+        if (result == null) return []
+        return Array.isArray(result) ? result : [result]
+    }
+
+    public static parseCustomMessage(parts: Array<string>): PanelEvent {
         switch (parts[0]) {
             case 'event':
-                result = NSPanelMessageParser.parseEvent(parts)
-                break
+                return NSPanelMessageParser.parseEvent(parts)
         }
 
-        return result
+        return NSPanelMessageParser.toUnknownEvent({ type: 'event', event: '', event2: '', source: '' }, parts)
     }
 
-    public static parseSensorEvent(input: any): SensorEventArgs | null {
-        let result: SensorEventArgs | null = null
+    public static parseEvent(parts: Array<string>): PanelEvent {
+        let kind: PanelEventKind = 'unknown'
+        let eventArgs: EventArgs = {
+            type: 'event',
+            date: new Date(),
+            event: parts[1],
+            source: parts[2],
+        }
 
-        if (NSPanelMessageUtils.hasProperty(input, 'ANALOG')) {
-            const analogSensorData = input['ANALOG']
-            const temp = analogSensorData['Temperature1']
-            const tempUnit = input['TempUnit']
-            if (temp != null) {
-                result = {
-                    type: 'sensor',
-                    source: 'temperature1',
-                    event: 'measurement',
-                    temp: Number(temp) ?? null,
-                    tempUnit: tempUnit ?? null,
+        switch (parts[1]) {
+            case NSPanelConstants.STR_LUI_EVENT_STARTUP: {
+                kind = 'startup'
+                const startupEventArgs = eventArgs as StartupEventArgs
+                startupEventArgs.source = 'hmi'
+                startupEventArgs.hmiVersion = {
+                    version: null,
+                    internalVersion: parts[2],
+                    model: parts[3],
                 }
-                if (NSPanelMessageUtils.hasProperty(input, 'Time')) {
-                    const date = NSPanelMessageUtils.toDate(input['Time'])
-                    if (date !== null) {
-                        result.date = date
+                eventArgs = startupEventArgs
+                break
+            }
+
+            case NSPanelConstants.STR_LUI_EVENT_SLEEPREACHED: {
+                kind = 'sleepReached'
+                break
+            }
+
+            case NSPanelConstants.STR_LUI_EVENT_BUTTONPRESS2: {
+                kind = 'buttonPress'
+                eventArgs.event2 = parts[3]
+                // normalize eventArgs
+                switch (parts[3]) {
+                    case 'button': {
+                        eventArgs.source = parts[3]
+                        eventArgs.event2 = parts[2]
+                        eventArgs.entityId = parts[2]
+                        break
                     }
+
+                    case 'OnOff': {
+                        eventArgs.source = parts[2]
+                        eventArgs.entityId = parts[2]
+                        eventArgs.active = NSPanelMessageUtils.toBoolean(parts[4]) || undefined
+                        break
+                    }
+
+                    case 'number-set': {
+                        // "event,buttonPress2,fan.0,number-set,3"
+                        kind = 'numberSet'
+                        eventArgs.entityId = parts[2]
+                        eventArgs.source = parts[2]
+                        break
+                    }
+
+                    case 'colorWheel': {
+                        kind = 'colorWheel'
+                        const lightEventArgs = eventArgs as LightEventArgs
+                        lightEventArgs.event2 = 'color'
+                        lightEventArgs.entityId = parts[2]
+
+                        const colorDataStr = parts[4]
+                        const colorDataArr = NSPanelUtils.stringIsNullOrEmpty(colorDataStr)
+                            ? []
+                            : colorDataStr.split('|')
+                        if (colorDataArr.length === 3) {
+                            const colorData = colorDataArr.map((v) => Number(v))
+                            const colorTuple = NSPanelColorUtils.hmiPosToColor(colorData[0], colorData[1])
+                            lightEventArgs.rgb = colorTuple[0]
+                            lightEventArgs.hsv = colorTuple[1]
+                        }
+
+                        eventArgs = lightEventArgs
+                        break
+                    }
+                    case 'positionSlider': {
+                        kind = 'positionSlider'
+                        eventArgs.event2 = 'position'
+                        eventArgs.entityId = parts[2]
+                        break
+                    }
+
+                    case 'tiltSlider': {
+                        kind = 'positionSlider'
+                        eventArgs.event2 = 'tilt'
+                        eventArgs.entityId = parts[2]
+                        break
+                    }
+
+                    case NSPanelConstants.STR_LUI_EVENT_NOTIFY_ACTION: {
+                        // "event,buttonPress2,<notifyId>,notifyAction,yes"
+                        kind = 'notifyAction'
+                        eventArgs = { ...eventArgs, notifyId: parts[2], action: parts[4] ?? '' } as EventArgs
+                        break
+                    }
+
+                    default:
+                        break
+                }
+
+                if (parts.length === 5) {
+                    const n = Number(parts[4])
+
+                    if (Number.isNaN(n)) {
+                        eventArgs.data = parts[4]
+                    } else {
+                        eventArgs.value = n
+                    }
+                }
+                break
+            }
+
+            case NSPanelConstants.STR_LUI_EVENT_PAGEOPENDETAIL: {
+                kind = 'popupOpen'
+                eventArgs.entityId = parts[3]
+                break
+            }
+        }
+
+        if (kind === 'unknown') {
+            return NSPanelMessageParser.toUnknownEvent(eventArgs, parts)
+        }
+
+        const panelEvent = { ...eventArgs, kind } as PanelEvent
+        log.debug(`parseEvent ${JSON.stringify(panelEvent)}`)
+        return panelEvent
+    }
+
+    public static actionStringToNumber(actionString: string): number | undefined {
+        let result: number
+        switch (actionString.toLowerCase()) {
+            case 'single':
+                result = 1
+                break
+            case 'double':
+                result = 2
+                break
+            case 'triple':
+                result = 3
+                break
+            case 'quad':
+                result = 4
+                break
+            case 'penta':
+                result = 5
+                break
+        }
+
+        return result
+    }
+
+    private static toUnknownEvent(eventArgs: EventArgs, parts: Array<string>): UnknownEvent {
+        const unknownEvent: UnknownEvent = { ...eventArgs, kind: 'unknown', data: { raw: parts.slice(2) } }
+        log.debug(`Unknown event ${parts.join(',')}`)
+        return unknownEvent
+    }
+
+    private static parseResult(input: any): PanelEvent | null {
+        if ('CustomRecv' in input) {
+            return NSPanelMessageParser.parseCustomMessage(`${input.CustomRecv}`.split(','))
+        }
+        if ('nlui_driver_version' in input) {
+            return NSPanelMessageParser.parseNluiDriverEvent(input)
+        }
+
+        return { kind: 'unknown', type: 'unknown', source: '', event: '', data: input }
+    }
+
+    private static parseStatResult(input: any): PanelEvent[] {
+        const keys = Object.keys(input)
+
+        if (
+            keys.includes(NSPanelConstants.STR_BERRYDRIVER_CMD_UPDATEDRIVER) ||
+            keys.includes(NSPanelConstants.STR_BERRYDRIVER_CMD_FLASHNEXTION)
+        ) {
+            const fwEvent = NSPanelMessageParser.parseBerryDriverUpdateEvent(input)
+            return fwEvent != null ? [fwEvent] : []
+        }
+        if (keys.includes(NSPanelConstants.STR_TASMOTA_CMD_OTAURL)) {
+            const cmdResultEvent = NSPanelMessageParser.parseTasmotaCommandResult(input)
+            return cmdResultEvent != null ? [cmdResultEvent] : []
+        }
+        if (keys.includes('CustomSend')) {
+            // drop for now... since no relevant/relatable data from HMI
+            return []
+        }
+
+        return NSPanelMessageParser.parseHardwareEvent(input)
+    }
+
+    private static parseSensorEvent(input: any): SensorEvent | null {
+        const tempUnit = input['TempUnit'] ?? DEFAULT_TEMPERATURE_UNIT
+        const units: Record<SensorMeasurementType, string> = {
+            temperature: tempUnit,
+            humidity: UNIT_HUMIDITY,
+            pressure: input['PressureUnit'] ?? DEFAULT_PRESSURE_UNIT,
+            illuminance: UNIT_ILLUMINANCE,
+        }
+
+        const measurements: SensorMeasurement[] = []
+        Object.keys(input).forEach((sensor) => {
+            const sensorData = input[sensor]
+            if (sensorData == null || typeof sensorData !== 'object') return
+
+            Object.keys(sensorData).forEach((property) => {
+                const measurementType = SENSOR_PROPERTIES.find((sensorProperty) =>
+                    sensorProperty.pattern.test(property)
+                )?.type
+                const value = NSPanelUtils.toNumberOrNull(sensorData[property])
+                if (measurementType != null && value != null) {
+                    measurements.push({ type: measurementType, value, unit: units[measurementType], source: sensor })
                 }
+            })
+        })
+        if (measurements.length === 0) return null
+
+        const result: SensorEvent = {
+            kind: 'sensor',
+            type: 'sensor',
+            source: measurements[0].source.toLowerCase(),
+            event: 'measurement',
+            measurements,
+        }
+
+        // the panel sensor is preferred, the chip temperature of the ESP32 is the last resort
+        const temperatures = measurements.filter((measurement) => measurement.type === 'temperature')
+        const temperature =
+            temperatures.find((measurement) => measurement.source === NSPanelConstants.STR_TASMOTA_SENSOR_PANEL) ??
+            temperatures.find((measurement) => measurement.source !== SENSOR_ESP32) ??
+            temperatures[0]
+        if (temperature != null) {
+            // the panel sensor keeps its former source name
+            result.source =
+                temperature.source === NSPanelConstants.STR_TASMOTA_SENSOR_PANEL
+                    ? NSPanelConstants.STR_SENSOR_SOURCE_PANEL
+                    : temperature.source.toLowerCase()
+            result.temp = temperature.value
+            result.tempUnit = temperature.unit as SensorEventArgs['tempUnit']
+        }
+
+        if (NSPanelMessageUtils.hasProperty(input, 'Time')) {
+            const date = NSPanelMessageUtils.toDate(input['Time'])
+            if (date !== null) {
+                result.date = date
             }
         }
 
         return result
     }
 
-    public static parseHardwareEvent(input: any): HardwareEventArgs[] {
-        const result: HardwareEventArgs[] = []
-        let eventArgs: HardwareEventArgs
+    private static parseTasmotaLwtEvent(payloadStr: string): PanelStatusUpdateEvent | null {
+        let online: boolean
+        switch (payloadStr?.trim()) {
+            case NSPanelConstants.STR_TASMOTA_LWT_ONLINE:
+                online = true
+                break
+
+            case NSPanelConstants.STR_TASMOTA_LWT_OFFLINE:
+                online = false
+                break
+
+            default:
+                return null
+        }
+
+        return {
+            kind: 'panelStatus',
+            type: 'status',
+            date: new Date(),
+            source: 'lwt',
+            event: online ? 'online' : 'offline',
+            online,
+        }
+    }
+
+    private static parseTasmotaStateEvent(input: any): PanelStatusUpdateEvent {
+        const result: PanelStatusUpdateEvent = {
+            kind: 'panelStatus',
+            type: 'status',
+            date: NSPanelMessageUtils.toDate(input['Time']) ?? new Date(),
+            source: 'state',
+            event: 'telemetry',
+            online: true,
+        }
+
+        const wifi = NSPanelMessageUtils.getPropertyOrNull(input, 'Wifi')
+        const rssi = NSPanelUtils.toNumberOrNull(NSPanelMessageUtils.getPropertyOrNull(wifi, 'RSSI'))
+        const signal = NSPanelUtils.toNumberOrNull(NSPanelMessageUtils.getPropertyOrNull(wifi, 'Signal'))
+        const uptimeSec = NSPanelUtils.toNumberOrNull(input['UptimeSec'])
+        const heap = NSPanelUtils.toNumberOrNull(input['Heap'])
+
+        if (rssi != null) result.rssi = rssi
+        if (signal != null) result.signal = signal
+        if (NSPanelUtils.isString(input['Uptime'])) result.uptime = input['Uptime']
+        if (uptimeSec != null) result.uptimeSec = uptimeSec
+        if (heap != null) result.heap = heap
+
+        return result
+    }
+
+    private static parseHardwareEvent(input: any): PanelEvent[] {
+        const result: PanelEvent[] = []
 
         if (NSPanelMessageUtils.hasProperty(input, 'POWER1')) {
-            eventArgs = NSPanelMessageParser.convertToRelayEvent(input, 'POWER1')
-            result.push(eventArgs)
+            result.push(NSPanelMessageParser.convertToRelayEvent(input, 'POWER1'))
         }
         if (NSPanelMessageUtils.hasProperty(input, 'POWER2')) {
-            eventArgs = NSPanelMessageParser.convertToRelayEvent(input, 'POWER2')
-            result.push(eventArgs)
+            result.push(NSPanelMessageParser.convertToRelayEvent(input, 'POWER2'))
         }
 
         if (NSPanelMessageUtils.hasProperty(input, 'Button1')) {
-            eventArgs = NSPanelMessageParser.convertToButtonEvent(input, 'Button1')
-            result.push(eventArgs)
+            result.push(NSPanelMessageParser.convertToButtonEvent(input, 'Button1'))
         }
         if (NSPanelMessageUtils.hasProperty(input, 'Button2')) {
-            eventArgs = NSPanelMessageParser.convertToButtonEvent(input, 'Button2')
-            result.push(eventArgs)
+            result.push(NSPanelMessageParser.convertToButtonEvent(input, 'Button2'))
         }
 
         if (result.length === 0) {
-            eventArgs = {
+            const eventArgs: HardwareEventArgs = {
                 type: 'hw',
                 date: new Date(),
                 event: '',
                 source: '',
                 data: input,
             }
-            result.push(eventArgs)
+            result.push({ ...eventArgs, kind: 'unknown' })
         }
 
         return result
     }
 
-    public static parseTasmotaCommandResult(input: any): TasmotaEventArgs {
-        let tasmotaEvent: TasmotaEventArgs | null = null
+    private static parseTasmotaCommandResult(input: any): TasmotaCommandResultEvent | null {
+        let tasmotaEvent: TasmotaCommandResultEvent | null = null
 
         if (NSPanelMessageUtils.hasProperty(input, NSPanelConstants.STR_TASMOTA_CMD_OTAURL)) {
             const cmdResult = input[NSPanelConstants.STR_TASMOTA_CMD_OTAURL]
 
             tasmotaEvent = {
+                kind: 'commandResult',
                 type: 'fw',
                 source: NSPanelConstants.FIRMWARE_TASMOTA,
                 event: NSPanelConstants.STR_TASMOTA_CMD_OTAURL,
@@ -139,9 +451,8 @@ export class NSPanelMessageParser {
         return tasmotaEvent
     }
 
-    public static parseTasmotaStatus2Event(input: any): FirmwareEventArgs {
-        // TODO: consolidate parsing into parse()
-        let result: FirmwareEventArgs | null = null
+    private static parseTasmotaStatus2Event(input: any): FirmwareEvent | null {
+        let result: FirmwareEvent | null = null
 
         if (NSPanelMessageUtils.hasProperty(input, 'StatusFWR')) {
             const statusFwr = input['StatusFWR']
@@ -149,6 +460,7 @@ export class NSPanelMessageParser {
 
             if (version != null) {
                 result = {
+                    kind: 'firmware',
                     type: 'fw',
                     source: NSPanelConstants.FIRMWARE_TASMOTA,
                     event: 'version',
@@ -160,9 +472,8 @@ export class NSPanelMessageParser {
         return result
     }
 
-    public static parseTasmotaUpgradeEvent(input: any): FirmwareEventArgs {
-        // TODO: consolidate parsing into parse()
-        let result: FirmwareEventArgs | null = null
+    private static parseTasmotaUpgradeEvent(input: any): FirmwareEvent | null {
+        let result: FirmwareEvent | null = null
 
         if (NSPanelMessageUtils.hasProperty(input, NSPanelConstants.STR_TASMOTA_MSG_UPGRADE)) {
             const statusValue = input[NSPanelConstants.STR_TASMOTA_MSG_UPGRADE]
@@ -175,6 +486,7 @@ export class NSPanelMessageParser {
                     : 'failed'
 
                 result = {
+                    kind: 'firmware',
                     type: 'fw',
                     source: NSPanelConstants.FIRMWARE_TASMOTA,
                     event: 'update',
@@ -193,9 +505,8 @@ export class NSPanelMessageParser {
         return result
     }
 
-    public static parseBerryDriverUpdateEvent(input: any): FirmwareEventArgs {
-        // TODO: consolidate parsing into parse()
-        let result: FirmwareEventArgs | null = null
+    private static parseBerryDriverUpdateEvent(input: any): FirmwareEvent | null {
+        let result: FirmwareEvent | null = null
         let key: string = null
         let source: FirmwareType | null = null
 
@@ -210,6 +521,7 @@ export class NSPanelMessageParser {
         if (key != null && source != null) {
             const cmdResult: string = input[key] as string
             result = {
+                kind: 'firmware',
                 type: 'fw',
                 source,
                 event: 'update',
@@ -220,15 +532,15 @@ export class NSPanelMessageParser {
         return result
     }
 
-    public static parseNluiDriverEvent(input: any): FirmwareEventArgs {
-        // TODO: consolidate parsing into parse()
-        let result: FirmwareEventArgs | null = null
+    private static parseNluiDriverEvent(input: any): FirmwareEvent | null {
+        let result: FirmwareEvent | null = null
 
         if (NSPanelMessageUtils.hasProperty(input, 'nlui_driver_version')) {
             const version = input['nlui_driver_version']
 
             if (version != null) {
                 result = {
+                    kind: 'firmware',
                     type: 'fw',
                     source: NSPanelConstants.FIRMWARE_BERRYDRIVER,
                     event: 'version',
@@ -240,8 +552,9 @@ export class NSPanelMessageParser {
         return result
     }
 
-    private static convertToRelayEvent(input: any, property: string): HardwareEventArgs {
-        const eventArgs: HardwareEventArgs = {
+    private static convertToRelayEvent(input: any, property: string): RelayStateEvent {
+        return {
+            kind: 'relayState',
             type: 'hw',
             date: new Date(),
             event: 'relay',
@@ -249,157 +562,34 @@ export class NSPanelMessageParser {
             source: property.toLowerCase(),
             active: input[property] === 'ON',
         }
-        return eventArgs
     }
 
-    private static convertToButtonEvent(input: any, property: string): HardwareEventArgs {
-        const eventArgs: HardwareEventArgs = {
+    private static convertToButtonEvent(input: any, property: string): ButtonActionEvent {
+        const action = `${input[property]?.['Action'] ?? ''}`.toLowerCase()
+        const eventArgs: ButtonActionEvent = {
+            kind: 'buttonAction',
             type: 'hw',
             date: new Date(),
             event: 'button',
             event2: 'press',
             source: property.toLowerCase(),
-            value: NSPanelMessageParser.actionStringToNumber(input[property]['Action']),
+            action,
         }
-        return eventArgs
-    }
 
-    public static parseEvent(parts: Array<string>): EventArgs {
-        let eventArgs: EventArgs = {
-            type: 'event',
-            date: new Date(),
-            event: parts[1],
-            source: parts[2],
-        }
-
-        switch (parts[1]) {
-            case NSPanelConstants.STR_LUI_EVENT_STARTUP: {
-                const startupEventArgs = eventArgs as StartupEventArgs
-                startupEventArgs.source = 'hmi'
-                startupEventArgs.hmiVersion = {
-                    version: null,
-                    internalVersion: parts[2],
-                    model: parts[3],
-                }
-                eventArgs = startupEventArgs
+        switch (action) {
+            case NSPanelConstants.STR_TASMOTA_BUTTON_ACTION_HOLD:
+                eventArgs.event2 = 'hold'
                 break
-            }
 
-            case NSPanelConstants.STR_LUI_EVENT_SLEEPREACHED: {
+            case NSPanelConstants.STR_TASMOTA_BUTTON_ACTION_CLEAR:
+                eventArgs.event2 = 'release'
                 break
-            }
 
-            case NSPanelConstants.STR_LUI_EVENT_BUTTONPRESS2: {
-                eventArgs.event2 = parts[3]
-                // normalize eventArgs
-                switch (parts[3]) {
-                    case 'button': {
-                        eventArgs.source = parts[3]
-                        eventArgs.event2 = parts[2]
-                        eventArgs.entityId = parts[2]
-                        break
-                    }
-
-                    case 'OnOff': {
-                        eventArgs.source = parts[2]
-                        eventArgs.entityId = parts[2]
-                        eventArgs.active = NSPanelMessageUtils.toBoolean(parts[4]) || undefined
-                        break
-                    }
-
-                    case 'number-set': {
-                        // "event,buttonPress2,fan.0,number-set,3"
-                        eventArgs.entityId = parts[2]
-                        eventArgs.source = parts[2]
-
-                        const n = Number(parts[4])
-                        if (Number.isNaN(n)) {
-                            eventArgs.data = parts[4]
-                        } else {
-                            eventArgs.value = n
-                        }
-                        break
-                    }
-
-                    case 'colorWheel': {
-                        const lightEventArgs = eventArgs as LightEventArgs
-                        lightEventArgs.event2 = 'color'
-
-                        const colorDataStr = parts[4]
-                        const colorDataArr = NSPanelUtils.stringIsNullOrEmpty(colorDataStr)
-                            ? []
-                            : colorDataStr.split('|')
-                        if (colorDataArr.length === 3) {
-                            const colorData = colorDataArr.map((v) => Number(v))
-                            const colorTuple = NSPanelColorUtils.hmiPosToColor(colorData[0], colorData[1])
-                            lightEventArgs.rgb = colorTuple[0]
-                            lightEventArgs.hsv = colorTuple[1]
-                        }
-
-                        eventArgs = lightEventArgs
-                        break
-                    }
-                    case 'positionSlider': {
-                        eventArgs.event2 = 'position'
-                        break
-                    }
-
-                    case 'tiltSlider': {
-                        eventArgs.event2 = 'tilt'
-                        break
-                    }
-
-                    default:
-                        break
-                }
-
-                if (parts.length === 5) {
-                    const n = Number(parts[4])
-
-                    if (Number.isNaN(n)) {
-                        eventArgs.data = parts[4]
-                    } else {
-                        eventArgs.value = n
-                    }
-                }
-                break
-            }
-
-            case NSPanelConstants.STR_LUI_EVENT_PAGEOPENDETAIL: {
-                eventArgs.entityId = parts[3]
+            default:
+                eventArgs.value = NSPanelMessageParser.actionStringToNumber(action)
                 break
-            }
-            default: {
-                eventArgs.data = {
-                    raw: parts.slice(2),
-                }
-            }
         }
 
-        log.debug(`parseEvent ${JSON.stringify(eventArgs)}`)
         return eventArgs
     }
-
-    public static actionStringToNumber(actionString: string): number | undefined {
-        let result: number
-        switch (actionString.toLowerCase()) {
-            case 'single':
-                result = 1
-                break
-            case 'double':
-                result = 2
-                break
-            case 'triple':
-                result = 3
-                break
-            case 'quad':
-                result = 4
-                break
-            case 'penta':
-                result = 5
-                break
-        }
-
-        return result
-    }
 }
@@ -1,11 +1,42 @@
 import { DEFAULT_LUI_COLOR } from './nspanel-constants'
 import { NSPanelColorUtils } from './nspanel-colorutils'
-import { BuzzerCommandParams, CommandData, PageEntityData, StatusItemData, SwitchCommandParams } from '../types/types'
+import {
+    BuzzerCommandParams,
+    CommandData,
+    DateFormatCommandParams,
+    DimCommandParams,
+    EmulateCommandParams,
+    EmulatorEvent,
+    HMICommand,
+    ReplayCommandParams,
+    TasmotaCommandParams,
+    PageEntityData,
+    StatusItemData,
+    SwitchCommandParams,
+} from '../types/types'
 import { NSPanelUtils } from './nspanel-utils'
 
 const DEFAULT_STATUS: StatusItemData = { icon: undefined, iconColor: DEFAULT_LUI_COLOR, text: undefined }
 const DEFAULT_DATA: PageEntityData = { icon: undefined, iconColor: DEFAULT_LUI_COLOR, text: undefined }
 
+const PANEL_DIMVALUE_MIN = 0
+const PANEL_DIMVALUE_MAX = 100
+const PANEL_TIMEOUT_MIN = 0
+const PANEL_TIMEOUT_MAX = 65
+const PANEL_TELEPERIOD_MIN = 10
+const PANEL_TELEPERIOD_MAX = 3600
+
+const EMULATOR_EVENTS: EmulatorEvent[] = ['startup', 'buttonPress', 'openDetail', 'sleepReached', 'event']
+
+const DATE_FORMAT_OPTIONS: Record<string, string[]> = {
+    dateFormatWeekday: ['short', 'long'],
+    dateFormatDay: ['numeric', '2-digit'],
+    dateFormatMonth: ['numeric', '2-digit', 'short', 'long'],
+    dateFormatYear: ['numeric', '2-digit'],
+    timeFormatHour: ['numeric', '2-digit'],
+    timeFormatMinute: ['numeric', '2-digit'],
+}
+
 export class NSPanelMessageUtils {
     public static convertToStatusItemData(
         input: unknown,
@@ -111,6 +142,208 @@ export class NSPanelMessageUtils {
                     commandResult = { cmd: 'checkForUpdates' }
                     break
                 }
+
+                case 'setDim': {
+                    // without any dim value the dim schedule is restored
+                    const dimCmdParams: DimCommandParams = {}
+                    const dimLow = NSPanelMessageUtils.getPropertyOrNull(inputParams, 'dimLow')
+                    const dimHigh = NSPanelMessageUtils.getPropertyOrNull(inputParams, 'dimHigh')
+
+                    if (dimLow != null) {
+                        dimCmdParams.dimLow = NSPanelUtils.limitNumberToRange(
+                            dimLow,
+                            PANEL_DIMVALUE_MIN,
+                            PANEL_DIMVALUE_MAX,
+                            PANEL_DIMVALUE_MIN
+                        )
+                    }
+                    if (dimHigh != null) {
+                        dimCmdParams.dimHigh = NSPanelUtils.limitNumberToRange(
+                            dimHigh,
+                            PANEL_DIMVALUE_MIN,
+                            PANEL_DIMVALUE_MAX,
+                            PANEL_DIMVALUE_MAX
+                        )
+                    }
+                    commandResult = { cmd: 'setDim', params: dimCmdParams }
+                    break
+                }
+
+                case 'setTimeout': {
+                    const timeout = Number(NSPanelMessageUtils.getPropertyOrNull(inputParams, 'timeout'))
+                    if (!Number.isNaN(timeout) && timeout >= PANEL_TIMEOUT_MIN && timeout <= PANEL_TIMEOUT_MAX) {
+                        commandResult = { cmd: 'setTimeout', params: { timeout } }
+                    }
+                    break
+                }
+
+                case 'setDateFormat': {
+                    const dateFormatCmdParams: DateFormatCommandParams = {}
+                    Object.keys(DATE_FORMAT_OPTIONS).forEach((key) => {
+                        const value = NSPanelMessageUtils.getPropertyOrNull(inputParams, key)
+                        if (DATE_FORMAT_OPTIONS[key].includes(value)) {
+                            dateFormatCmdParams[key] = value
+                        }
+                    })
+
+                    // missing keys keep the current format
+                    if (NSPanelMessageUtils.hasProperty(inputParams, 'useCustomDateTimeFormat', true)) {
+                        const useCustomDateTimeFormat = NSPanelMessageUtils.toBoolean(
+                            inputParams['useCustomDateTimeFormat']
+                        )
+                        if (useCustomDateTimeFormat !== null) {
+                            dateFormatCmdParams.useCustomDateTimeFormat = useCustomDateTimeFormat
+                        }
+                    }
+                    ;['dateCustomFormat', 'timeCustomFormat'].forEach((key) => {
+                        const value = NSPanelMessageUtils.getPropertyOrNull(inputParams, key)
+                        if (NSPanelUtils.isString(value)) {
+                            dateFormatCmdParams[key] = value
+                        }
+                    })
+
+                    if (Object.keys(dateFormatCmdParams).length > 0) {
+                        commandResult = { cmd: 'setDateFormat', params: dateFormatCmdParams }
+                    }
+                    break
+                }
+
+                case 'detachRelays': {
+                    if (!NSPanelMessageUtils.hasProperty(inputParams, 'detach', true)) break
+
+                    const detach = NSPanelMessageUtils.toBoolean(inputParams['detach'])
+                    if (detach !== null) {
+                        commandResult = { cmd: 'detachRelays', params: { detach } }
+                    }
+                    break
+                }
+
+                case 'setTelePeriod': {
+                    const telePeriod = Number(NSPanelMessageUtils.getPropertyOrNull(inputParams, 'telePeriod'))
+                    if (
+                        telePeriod === 0 || // disable
+                        telePeriod === 1 || // firmware default
+                        (telePeriod >= PANEL_TELEPERIOD_MIN && telePeriod <= PANEL_TELEPERIOD_MAX)
+                    ) {
+                        commandResult = { cmd: 'setTelePeriod', params: { telePeriod } }
+                    }
+                    break
+                }
+
+                case 'navigate': {
+                    // page id or page name
+                    const page = NSPanelMessageUtils.getPropertyOrNull(inputParams, 'page')
+                    if (page != null && !NSPanelUtils.stringIsNullOrEmpty(`${page}`)) {
+                        commandResult = { cmd: 'navigate', params: { page: `${page}` } }
+                    }
+                    break
+                }
+
+                case 'screensaver':
+                case 'wake':
+                case 'restart': {
+                    commandResult = { cmd: input['cmd'] }
+                    break
+                }
+
+                case 'tasmota': {
+                    const tasmotaCmd = NSPanelMessageUtils.getPropertyOrNull(inputParams, 'cmd')
+                    if (NSPanelUtils.isString(tasmotaCmd) && !NSPanelUtils.stringIsNullOrEmpty(tasmotaCmd)) {
+                        const tasmotaCmdParams: TasmotaCommandParams = {
+                            cmd: tasmotaCmd,
+                            data: `${NSPanelMessageUtils.getPropertyOrDefault(inputParams, 'data', '')}`,
+                        }
+
+                        // result of the command is sent to the flow
+                        const awaitResult = NSPanelMessageUtils.getPropertyOrNull(inputParams, 'awaitResult')
+                        if (NSPanelMessageUtils.toBoolean(awaitResult) === true) {
+                            tasmotaCmdParams.awaitResult = true
+
+                            const timeout = Number(NSPanelMessageUtils.getPropertyOrNull(inputParams, 'timeout'))
+                            if (!Number.isNaN(timeout) && timeout > 0) {
+                                tasmotaCmdParams.timeout = timeout
+                            }
+                        }
+                        commandResult = { cmd: 'tasmota', params: tasmotaCmdParams }
+                    }
+                    break
+                }
+
+                case 'hmi': {
+                    const hmiCmd = NSPanelMessageUtils.getPropertyOrNull(inputParams, 'cmd')
+                    if (NSPanelUtils.isString(hmiCmd) && !NSPanelUtils.stringIsNullOrEmpty(hmiCmd)) {
+                        const hmiCmdParams: HMICommand = {
+                            cmd: hmiCmd,
+                            params: NSPanelMessageUtils.getPropertyOrDefault(inputParams, 'params', ''),
+                        }
+                        commandResult = { cmd: 'hmi', params: hmiCmdParams }
+                    }
+                    break
+                }
+
+                case 'getSensorStats': {
+                    const reset = NSPanelMessageUtils.toBoolean(
+                        NSPanelMessageUtils.getPropertyOrNull(inputParams, 'reset')
+                    )
+                    commandResult = { cmd: 'getSensorStats', params: { reset: reset === true } }
+                    break
+                }
+
+                case 'emulate': {
+                    const event = NSPanelMessageUtils.getPropertyOrNull(inputParams, 'event')
+                    if (!EMULATOR_EVENTS.includes(event)) break
+
+                    const getString = (key: string): string | undefined => {
+                        const value = NSPanelMessageUtils.getPropertyOrNull(inputParams, key)
+                        return value != null ? `${value}` : undefined
+                    }
+                    const emulateParams: EmulateCommandParams = {
+                        event,
+                        entityId: getString('entityId'),
+                        action: getString('action'),
+                        value: getString('value'),
+                        popupType: getString('popupType'),
+                    }
+
+                    const params = NSPanelMessageUtils.getPropertyOrNull(inputParams, 'params')
+                    if (Array.isArray(params)) {
+                        emulateParams.params = params.map((param) => `${param}`)
+                    }
+
+                    // drop events missing the parameters the display would send
+                    if (event === 'buttonPress' && (emulateParams.entityId == null || emulateParams.action == null)) {
+                        break
+                    }
+                    if (event === 'openDetail' && (emulateParams.popupType == null || emulateParams.entityId == null)) {
+                        break
+                    }
+                    if (event === 'event' && (emulateParams.params == null || emulateParams.params.length === 0)) {
+                        break
+                    }
+
+                    commandResult = { cmd: 'emulate', params: emulateParams }
+                    break
+                }
+
+                case 'replay': {
+                    // recorded traffic file, defaults to the record file of the panel
+                    const replayParams: ReplayCommandParams = {}
+                    const file = NSPanelMessageUtils.getPropertyOrNull(inputParams, 'file')
+                    if (NSPanelUtils.isString(file) && !NSPanelUtils.stringIsNullOrEmpty(file)) {
+                        replayParams.file = file
+                    }
+
+                    const speed = NSPanelUtils.toNumberOrNull(
+                        NSPanelMessageUtils.getPropertyOrNull(inputParams, 'speed')
+                    )
+                    if (speed != null && speed < 0) break
+                    if (speed != null) {
+                        replayParams.speed = speed
+                    }
+
+                    commandResult = { cmd: 'replay', params: replayParams }
+                    break
+                }
             }
         }
 
@@ -132,7 +365,7 @@ export class NSPanelMessageUtils {
 
     public static getPropertyOrDefault<TResult>(obj: any, propertyName: string, defaultValue: TResult): TResult {
         const val: any =
-            propertyName in obj && obj[propertyName] !== undefined
+            obj != null && typeof obj === 'object' && propertyName in obj && obj[propertyName] !== undefined
                 ? obj[propertyName] // TODO: now eventually breaking out of type contraint TResult
                 : defaultValue
 
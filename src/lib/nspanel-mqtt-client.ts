@@ -0,0 +1,236 @@
+import * as mqtt from 'mqtt'
+import * as nEvents from 'events'
+
+import { Logger } from './logger'
+import { MqttUtils } from './mqtt-utils'
+import { NSPanelUtils } from './nspanel-utils'
+import * as NSPanelConstants from './nspanel-constants'
+import { IPanelMqttClient, OnMqttMessageCallback, PanelMqttConfig } from '../types/types'
+
+const log = Logger('NSPanelMqttClient')
+
+const MQTT_RECONNECT_PERIOD = 5000
+
+/**
+ * MQTT connection of a nspanel-config node, shared by the mqtt handlers of all panels using it.
+ * Incoming messages are routed to the listeners of all matching subscriptions. The availability of the connection
+ * is published on the status topic, with a last will for a connection lost without disconnect.
+ */
+export class NSPanelMqttClient extends nEvents.EventEmitter implements IPanelMqttClient {
+    private mqttConfig: PanelMqttConfig
+
+    private mqttClient: mqtt.MqttClient | null = null
+
+    private connected: boolean = false
+
+    private connectTimer: ReturnType<typeof setImmediate> | null = null
+
+    private refCount: number = 0
+
+    private subscriptions: Map<string, Set<OnMqttMessageCallback>> = new Map()
+
+    private pendingPublish: [string, string][] = []
+
+    constructor(mqttConfig: PanelMqttConfig) {
+        super()
+
+        this.mqttConfig = mqttConfig
+    }
+
+    public dispose() {
+        this.disconnect()
+        this.subscriptions.clear()
+        this.refCount = 0
+    }
+
+    public isConnected(): boolean {
+        return this.connected
+    }
+
+    public getStatusTopic(): string | null {
+        return NSPanelUtils.stringIsNullOrEmpty(this.mqttConfig.statusTopic) ? null : this.mqttConfig.statusTopic
+    }
+
+    public acquire() {
+        this.refCount += 1
+
+        // connecting deferred, so that all panels of a deployment subscribe before connecting
+        if (this.mqttClient == null && this.connectTimer == null) {
+            this.connectTimer = setImmediate(() => this.connect())
+        }
+    }
+
+    public release() {
+        this.refCount = Math.max(0, this.refCount - 1)
+
+        if (this.refCount === 0) {
+            this.disconnect()
+        }
+    }
+
+    public subscribe(topic: string, listener: OnMqttMessageCallback) {
+        let listeners = this.subscriptions.get(topic)
+        if (listeners == null) {
+            listeners = new Set()
+            this.subscriptions.set(topic, listeners)
+            this.mqttClient?.subscribe(topic)
+        }
+        listeners.add(listener)
+    }
+
+    public unsubscribe(topic: string, listener: OnMqttMessageCallback) {
+        const listeners = this.subscriptions.get(topic)
+        if (listeners == null) return
+
+        listeners.delete(listener)
+        if (listeners.size === 0) {
+            this.subscriptions.delete(topic)
+            this.mqttClient?.unsubscribe(topic)
+        }
+    }
+
+    public publish(topic: string, payload: string) {
+        if (this.mqttClient == null) {
+            this.pendingPublish.push([topic, payload])
+            return
+        }
+
+        this.mqttClient.publish(topic, payload)
+    }
+
+    private connect() {
+        this.connectTimer = null
+
+        try {
+            const mqttClient = mqtt.connect(this.getBrokerUrl(), this.getMqttOptionsFromConfig(this.mqttConfig))
+            this.mqttClient = mqttClient
+
+            mqttClient.on('connect', () => this.onMqttConnect())
+            mqttClient.on('reconnect', () => this.onMqttReconnect())
+            mqttClient.on('message', (topic: string, payload: Buffer) => this.onMqttMessage(topic, payload))
+            mqttClient.on('close', () => this.onMqttClose())
+            mqttClient.on('error', (err: Error) => this.onMqttError(err))
+
+            this.subscriptions.forEach((_listeners, topic) => mqttClient.subscribe(topic))
+
+            const pendingPublish = this.pendingPublish
+            this.pendingPublish = []
+            pendingPublish.forEach(([topic, payload]) => mqttClient.publish(topic, payload))
+        } catch (err: unknown) {
+            if (err instanceof Error) {
+                log.error(`Could not connect to mqtt broker. Error: ${err.message}`) // TODO: better logging format
+            }
+        }
+    }
+
+    private disconnect() {
+        if (this.connectTimer != null) {
+            clearImmediate(this.connectTimer)
+            this.connectTimer = null
+        }
+
+        // panels are unsubscribed from the status topic by now, so they keep the screen shown on shutdown
+        if (this.connected) {
+            this.publishStatus(NSPanelConstants.STR_MQTT_STATUS_OFFLINE)
+        }
+        this.mqttClient?.end()
+        this.mqttClient = null
+        this.connected = false
+        this.pendingPublish = []
+    }
+
+    private onMqttMessage(topic: string, payload: Buffer) {
+        // a listener subscribed to several matching topics is called once
+        const listeners: Set<OnMqttMessageCallback> = new Set()
+        this.subscriptions.forEach((topicListeners, subscribedTopic) => {
+            if (MqttUtils.matchesMqttTopic(topic, subscribedTopic)) {
+                topicListeners.forEach((listener) => listeners.add(listener))
+            }
+        })
+
+        listeners.forEach((listener) => listener(topic, payload))
+    }
+
+    private publishStatus(status: string) {
+        const statusTopic = this.getStatusTopic()
+        if (statusTopic != null) {
+            this.mqttClient?.publish(statusTopic, status, { qos: 0, retain: true })
+        }
+    }
+
+    private onMqttConnect(): void {
+        this.connected = true
+        this.publishStatus(NSPanelConstants.STR_MQTT_STATUS_ONLINE)
+        log.info('mqtt broker connected')
+        this.emit('mqtt:connect')
+    }
+
+    private onMqttReconnect(): void {
+        this.connected = false
+        log.info('mqtt broker reconnect')
+        this.emit('mqtt:reconnect')
+    }
+
+    private onMqttClose(): void {
+        if (this.connected) {
+            this.connected = false
+        }
+
+        log.info('mqtt broker disconnected')
+        this.emit('mqtt:close')
+    }
+
+    private onMqttError(error: Error): void {
+        log.error(`mqtt broker error${error.message}`)
+        log.error('mqtt broker error stack:')
+        log.error(error.stack)
+        this.emit('mqtt:error', error)
+    }
+
+    private getBrokerUrl(): string {
+        return MqttUtils.getBrokerUrl(
+            this.mqttConfig.broker,
+            this.mqttConfig.port,
+            this.mqttConfig.useTls,
+            this.mqttConfig.useWebSocket,
+            this.mqttConfig.webSocketPath
+        )
+    }
+
+    private getMqttOptionsFromConfig(mqttConfig: PanelMqttConfig): mqtt.IClientOptions {
+        const mqttOptions: mqtt.IClientOptions = {
+            clientId: mqttConfig.clientId !== '' ? mqttConfig.clientId : undefined,
+            username: mqttConfig.username,
+            password: mqttConfig.password,
+            keepalive: Number(mqttConfig.keepAlive),
+            reconnectPeriod: MQTT_RECONNECT_PERIOD,
+            resubscribe: true,
+            protocolVersion: mqttConfig.protocolVersion === 5 ? 5 : 4,
+            rejectUnauthorized: mqttConfig.rejectUnauthorized !== false,
+        }
+
+        // tls options, e.g. for brokers with self-signed certificates or requiring client certificates
+        if (!NSPanelUtils.stringIsNullOrEmpty(mqttConfig.tlsCa)) {
+            mqttOptions.ca = mqttConfig.tlsCa
+        }
+        if (!NSPanelUtils.stringIsNullOrEmpty(mqttConfig.tlsCert)) {
+            mqttOptions.cert = mqttConfig.tlsCert
+        }
+        if (!NSPanelUtils.stringIsNullOrEmpty(mqttConfig.tlsKey)) {
+            mqttOptions.key = mqttConfig.tlsKey
+        }
+
+        // the broker publishes the will, when the connection is lost without disconnect, the panels subscribe to it
+        const statusTopic = this.getStatusTopic()
+        if (statusTopic != null) {
+            mqttOptions.will = {
+                topic: statusTopic,
+                payload: NSPanelConstants.STR_MQTT_STATUS_OFFLINE,
+                qos: 0,
+                retain: true,
+            }
+        }
+
+        return mqttOptions
+    }
+}
@@ -1,30 +1,48 @@
-import * as mqtt from 'mqtt'
 import * as nEvents from 'events'
 
 import { Logger } from './logger'
 import { MqttUtils } from './mqtt-utils'
 import { NSPanelMessageParser } from './nspanel-message-parser'
+import { NSPanelOutboundQueue, OutboundMessage } from './nspanel-outbound-queue'
+import { NSPanelScreenModel } from './nspanel-screen-model'
+import { NSPanelTrafficRecorder } from './nspanel-traffic-recorder'
 import {
     PanelConfig,
-    EventArgs,
-    HardwareEventArgs,
     IPanelMqttHandler,
-    SensorEventArgs,
-    FirmwareEventArgs,
-    TasmotaEventArgs,
     HMICommand,
     TasmotaCommand,
+    TasmotaCommandResult,
+    TasmotaCommandResultStatus,
+    PanelStatusEventArgs,
+    PanelEvent,
+    PanelMessageSource,
+    IPanelMqttClient,
+    PanelScreen,
 } from '../types/types'
 import * as NSPanelConstants from './nspanel-constants'
 import { NSPanelUtils } from './nspanel-utils'
 
 const log = Logger('NSPanelMqttHandler')
 
+const DEFAULT_COMMAND_RESULT_TIMEOUT = 5
+const DEFAULT_MAX_MESSAGES_PER_SECOND = 10
+
+type PendingCommandRequest = {
+    tCmd: TasmotaCommand
+    resultKey: string
+    resultTopic: string | null
+    sentAt: number
+    timer: ReturnType<typeof setTimeout>
+    resolve: (result: TasmotaCommandResult) => void
+}
+
 export class NSPanelMqttHandler extends nEvents.EventEmitter implements IPanelMqttHandler {
     private panelMqttCustomCommandTopic: string = null
 
     private panelMqttCommandTopic: string = null
 
+    private panelMqttStatTopic: string = null
+
     private panelMqttTeleResultTopic: string = null
 
     private panelMqttStatResultTopic: string = null
@@ -35,27 +53,91 @@ export class NSPanelMqttHandler extends nEvents.EventEmitter implements IPanelMq
 
     private panelMqttStatus2Topic: string = null
 
-    private mqttOptions: mqtt.IClientOptions = {}
+    private panelMqttTeleLwtTopic: string = null
+
+    private panelMqttTeleStateTopic: string = null
 
-    private mqttClient: mqtt.MqttClient | null = null
+    private mqttClient: IPanelMqttClient
+
+    // rule switching the panel to the offline screen, on the last will published on the status topic
+    private lastWillRule: string | null = null
+
+    private subscribedTopics: Set<string> = new Set()
+
+    // topics subscribed only while a command request waits for its result
+    private commandResultTopics: Set<string> = new Set()
 
     private connected: boolean = false
 
-    constructor(panelConfig: PanelConfig) {
+    private outboundQueue: NSPanelOutboundQueue = new NSPanelOutboundQueue()
+
+    private sendInterval: number = 0
+
+    private sendTimer: ReturnType<typeof setTimeout> | null = null
+
+    private lastSentAt: number = 0
+
+    private pendingCommandRequests: PendingCommandRequest[] = []
+
+    private screenModel: NSPanelScreenModel = new NSPanelScreenModel()
+
+    private recorder: NSPanelTrafficRecorder | null = null
+
+    private replayTimer: ReturnType<typeof setTimeout> | null = null
+
+    private resolveReplay: (() => void) | null = null
+
+    private panelStatus: PanelStatusEventArgs | null = null
+
+    private onMqttMessageListener = (topic: string, payload: Buffer) => {
+        this.recorder?.record('in', topic, payload.toString())
+        this.onMqttMessage(topic, payload)
+    }
+
+    private onMqttConnectListener = () => this.onMqttConnect()
+
+    private onMqttReconnectListener = () => this.onMqttReconnect()
+
+    private onMqttCloseListener = () => this.onMqttClose()
+
+    private onMqttErrorListener = (error: Error) => this.onMqttError(error)
+
+    constructor(panelConfig: PanelConfig, mqttClient: IPanelMqttClient, lastWillCmds: HMICommand[] = []) {
         super()
 
-        this.init(panelConfig)
+        this.mqttClient = mqttClient
+        this.init(panelConfig, lastWillCmds)
     }
 
     public dispose() {
-        this.mqttClient?.end()
+        this.pendingCommandRequests.forEach((request) => this.resolveCommandRequest(request, 'timeout', null))
+        if (this.lastWillRule != null) {
+            this.sendCommandToPanel({
+                cmd: NSPanelConstants.STR_TASMOTA_CMD_UNSUBSCRIBE,
+                data: NSPanelConstants.STR_TASMOTA_EVENT_SERVER_STATUS,
+            })
+        }
+        this.stopSendTimer()
+        this.flushQueuedMessages()
+        this.outboundQueue.clear()
+        this.stopReplay()
+        this.recorder?.dispose()
+        this.recorder = null
+
+        this.subscribedTopics.forEach((topic) => this.mqttClient.unsubscribe(topic, this.onMqttMessageListener))
+        this.subscribedTopics.clear()
+        this.mqttClient.removeListener('mqtt:connect', this.onMqttConnectListener)
+        this.mqttClient.removeListener('mqtt:reconnect', this.onMqttReconnectListener)
+        this.mqttClient.removeListener('mqtt:close', this.onMqttCloseListener)
+        this.mqttClient.removeListener('mqtt:error', this.onMqttErrorListener)
+        this.mqttClient.release()
     }
 
     public sendCommandToPanel(tCmd: TasmotaCommand) {
         if (tCmd == null && tCmd.cmd != null && tCmd.data != null) return
 
         try {
-            this.mqttClient?.publish(this.panelMqttCommandTopic + tCmd.cmd, tCmd.data)
+            this.publish({ topic: this.panelMqttCommandTopic + tCmd.cmd, payload: tCmd.data })
         } catch (err: unknown) {
             if (err instanceof Error) {
                 log.error(`Could not publish on command topic. Error: ${err.message}`)
@@ -63,6 +145,38 @@ export class NSPanelMqttHandler extends nEvents.EventEmitter implements IPanelMq
         }
     }
 
+    public requestCommandResult(
+        tCmd: TasmotaCommand,
+        timeout: number = DEFAULT_COMMAND_RESULT_TIMEOUT
+    ): Promise<TasmotaCommandResult> {
+        if (!NSPanelUtils.isString(tCmd?.cmd) || NSPanelUtils.stringIsNullOrEmpty(tCmd.cmd)) {
+            return Promise.reject(new Error('Tasmota command missing'))
+        }
+
+        return new Promise((resolve) => {
+            // Status <n> replies on stat/STATUS<n>, all other commands on stat/RESULT
+            const isStatusCmd = tCmd.cmd.toUpperCase() === NSPanelConstants.STR_TASMOTA_CMD_STATUS.toUpperCase()
+            const resultTopic = isStatusCmd ? `${this.panelMqttStatTopic}STATUS${tCmd.data?.trim() ?? ''}` : null
+            if (resultTopic != null && !this.subscribedTopics.has(resultTopic)) {
+                this.subscribe(resultTopic)
+                this.commandResultTopics.add(resultTopic)
+            }
+
+            const request: PendingCommandRequest = {
+                tCmd,
+                resultKey: tCmd.cmd.toUpperCase(),
+                resultTopic,
+                sentAt: Date.now(),
+                timer: null,
+                resolve,
+            }
+            request.timer = setTimeout(() => this.resolveCommandRequest(request, 'timeout', null), timeout * 1000)
+            this.pendingCommandRequests.push(request)
+
+            this.sendCommandToPanel(tCmd)
+        })
+    }
+
     public sendToPanel(cmds: HMICommand | HMICommand[]) {
         if (cmds == null) return
         // eslint-disable-next-line @typescript-eslint/no-this-alias
@@ -72,12 +186,12 @@ export class NSPanelMqttHandler extends nEvents.EventEmitter implements IPanelMq
                 cmds.forEach((cmd) => {
                     if (cmd != null) {
                         const data: string = NSPanelUtils.transformHmiCommand(cmd)
-                        self.mqttClient?.publish(self.panelMqttCustomCommandTopic, data)
+                        self.publish({ topic: self.panelMqttCustomCommandTopic, payload: data, hmiCmd: cmd.cmd })
                     }
                 })
             } else {
                 const data = NSPanelUtils.transformHmiCommand(cmds)
-                self.mqttClient?.publish(self.panelMqttCustomCommandTopic, data) // TODO: fix issue, when client was disconnecting
+                self.publish({ topic: self.panelMqttCustomCommandTopic, payload: data, hmiCmd: cmds.cmd })
             }
         } catch (err: unknown) {
             if (err instanceof Error) {
@@ -86,250 +200,359 @@ export class NSPanelMqttHandler extends nEvents.EventEmitter implements IPanelMq
         }
     }
 
-    private init(panelConfig: PanelConfig) {
-        // prepare and subscribe to mqtt topics
-        panelConfig.mqtt.reconnectPeriod = 5000
-        panelConfig.mqtt.resubscribe = true
+    public getScreen(): PanelScreen {
+        return this.screenModel.getScreen()
+    }
+
+    /**
+     * Feeds the inbound messages of a traffic record through the message processing, keeping the recorded
+     * intervals scaled by `speed` (`0` replays without delay). Resolves with the number of replayed messages,
+     * also when the replay is cancelled by another replay or on dispose.
+     */
+    public replay(file: string, speed: number = 1): Promise<number> {
+        this.stopReplay()
+
+        return NSPanelTrafficRecorder.readRecords(file).then(
+            (records) =>
+                new Promise((resolve) => {
+                    const inbound = records.filter((trafficRecord) => trafficRecord.direction === 'in')
+                    let replayed = 0
+                    this.resolveReplay = () => resolve(replayed)
+
+                    const replayNext = (idx: number) => {
+                        this.replayTimer = null
+                        if (idx >= inbound.length) {
+                            this.resolveReplay = null
+                            resolve(inbound.length)
+                            return
+                        }
 
-        this.panelMqttCommandTopic = MqttUtils.buildFullTopic(
-            panelConfig.panel.fullTopic,
-            panelConfig.panel.topic,
-            'cmnd'
+                        const trafficRecord = inbound[idx]
+                        this.onMqttMessage(trafficRecord.topic, Buffer.from(trafficRecord.payload))
+                        replayed = idx + 1
+
+                        const nextRecord = inbound[idx + 1]
+                        const interval =
+                            nextRecord != null && speed > 0
+                                ? (Date.parse(nextRecord.time) - Date.parse(trafficRecord.time)) / speed
+                                : 0
+                        this.replayTimer = setTimeout(() => replayNext(idx + 1), Math.max(0, interval || 0))
+                    }
+
+                    replayNext(0)
+                })
         )
+    }
+
+    private init(panelConfig: PanelConfig, lastWillCmds: HMICommand[]) {
+        const maxMessagesPerSecond = panelConfig.panel.maxMessagesPerSecond ?? DEFAULT_MAX_MESSAGES_PER_SECOND
+        this.sendInterval = maxMessagesPerSecond > 0 ? 1000 / maxMessagesPerSecond : 0
 
-        this.panelMqttCustomCommandTopic = MqttUtils.buildFullTopic(
-            panelConfig.panel.fullTopic,
-            panelConfig.panel.topic,
+        // prepare and subscribe to mqtt topics
+        this.connected = this.mqttClient.isConnected()
+        this.panelMqttCommandTopic = MqttUtils.buildPanelTopic(panelConfig.panel, 'cmnd')
+
+        this.panelMqttStatTopic = MqttUtils.buildPanelTopic(panelConfig.panel, 'stat')
+
+        this.panelMqttCustomCommandTopic = MqttUtils.buildPanelTopic(
+            panelConfig.panel,
             'cmnd',
-            'CustomSend'
-        )
-        this.panelMqttTeleResultTopic = MqttUtils.buildFullTopic(
-            panelConfig.panel.fullTopic,
-            panelConfig.panel.topic,
-            'tele',
-            'RESULT'
-        )
-        this.panelMqttStatResultTopic = MqttUtils.buildFullTopic(
-            panelConfig.panel.fullTopic,
-            panelConfig.panel.topic,
-            'stat',
-            'RESULT'
-        )
-        this.panelMqttSensorTopic = MqttUtils.buildFullTopic(
-            panelConfig.panel.fullTopic,
-            panelConfig.panel.topic,
-            'tele',
-            'SENSOR'
+            NSPanelConstants.STR_TASMOTA_CMD_CUSTOMSEND
         )
+        this.panelMqttTeleResultTopic = MqttUtils.buildPanelTopic(panelConfig.panel, 'tele', 'RESULT')
+        this.panelMqttStatResultTopic = MqttUtils.buildPanelTopic(panelConfig.panel, 'stat', 'RESULT')
+        this.panelMqttSensorTopic = MqttUtils.buildPanelTopic(panelConfig.panel, 'tele', 'SENSOR')
 
-        this.panelMqttStatus2Topic = MqttUtils.buildFullTopic(
-            panelConfig.panel.fullTopic,
-            panelConfig.panel.topic,
-            'stat',
-            'STATUS2'
-        )
-        this.panelMqttStatUpgradeTopic = MqttUtils.buildFullTopic(
-            panelConfig.panel.fullTopic,
-            panelConfig.panel.topic,
-            'stat',
-            'UPGRADE'
-        )
+        this.panelMqttTeleLwtTopic = MqttUtils.buildPanelTopic(panelConfig.panel, 'tele', 'LWT')
+        this.panelMqttTeleStateTopic = MqttUtils.buildPanelTopic(panelConfig.panel, 'tele', 'STATE')
 
-        try {
-            const brokerUrl = MqttUtils.getBrokerUrl(
-                panelConfig.mqtt.broker,
-                panelConfig.mqtt.port,
-                panelConfig.mqtt.useTls
-            )
+        this.panelMqttStatus2Topic = MqttUtils.buildPanelTopic(panelConfig.panel, 'stat', 'STATUS2')
+        this.panelMqttStatUpgradeTopic = MqttUtils.buildPanelTopic(panelConfig.panel, 'stat', 'UPGRADE')
 
-            this.mqttOptions = this.getMqttOptionsFromPanelConfig(panelConfig)
+        if (
+            panelConfig.panel.recordTraffic === true &&
+            !NSPanelUtils.stringIsNullOrEmpty(panelConfig.panel.recordFile)
+        ) {
+            this.recorder = new NSPanelTrafficRecorder(panelConfig.panel.recordFile)
+        }
 
-            const mqttClient = mqtt.connect(brokerUrl, this.mqttOptions)
-            this.mqttClient = mqttClient
+        this.lastWillRule = this.getLastWillRule(lastWillCmds)
+        this.mqttClient.acquire()
+
+        this.mqttClient.on('mqtt:connect', this.onMqttConnectListener)
+        this.mqttClient.on('mqtt:reconnect', this.onMqttReconnectListener)
+        this.mqttClient.on('mqtt:close', this.onMqttCloseListener)
+        this.mqttClient.on('mqtt:error', this.onMqttErrorListener)
+
+        this.subscribe(this.panelMqttTeleResultTopic)
+        this.subscribe(this.panelMqttStatResultTopic)
+        this.subscribe(this.panelMqttSensorTopic)
+        this.subscribe(this.panelMqttStatus2Topic)
+        this.subscribe(this.panelMqttStatUpgradeTopic)
+        this.subscribe(this.panelMqttTeleLwtTopic)
+        this.subscribe(this.panelMqttTeleStateTopic)
+    }
 
-            mqttClient.on('connect', () => this.onMqttConnect())
-            mqttClient.on('reconnect', () => this.onMqttReconnect())
-            mqttClient.on('message', (topic: string, payload: Buffer) => this.onMqttMessage(topic, payload))
-            mqttClient.on('close', () => this.onMqttClose())
-            mqttClient.on('error', (err: Error) => this.onMqttError(err))
+    private publish(message: OutboundMessage) {
+        // Tasmota commands are not rate limited, but must not overtake queued messages to the display
+        const sendDirectly = this.sendInterval === 0 || (message.hmiCmd == null && this.outboundQueue.length === 0)
+        if (this.connected && sendDirectly) {
+            this.sendMessage(message)
+            return
+        }
 
-            mqttClient.subscribe(this.panelMqttTeleResultTopic)
-            mqttClient.subscribe(this.panelMqttStatResultTopic)
-            mqttClient.subscribe(this.panelMqttSensorTopic)
-            mqttClient.subscribe(this.panelMqttStatus2Topic)
-            mqttClient.subscribe(this.panelMqttStatUpgradeTopic)
-        } catch (err: unknown) {
-            if (err instanceof Error) {
-                log.error(`Could not connect to mqtt broker. Error: ${err.message}`) // TODO: better logging format
+        // keep messages while disconnected, to bring the panel up to date after reconnecting, and limit the
+        // message rate to the panel, as the serial link of the display cannot keep up with bursts of updates
+        if (!this.outboundQueue.enqueue(message)) {
+            log.warn('Outbound queue full, dropped oldest message')
+        }
+        if (this.sendTimer == null) {
+            this.sendQueuedMessages()
+        }
+    }
+
+    private sendQueuedMessages() {
+        this.sendTimer = null
+        if (!this.connected) return
+
+        while (this.outboundQueue.length > 0) {
+            const delay = this.lastSentAt + this.sendInterval - Date.now()
+            if (delay > 0) {
+                this.sendTimer = setTimeout(() => this.sendQueuedMessages(), delay)
+                return
             }
+
+            const message = this.outboundQueue.dequeue()
+            this.lastSentAt = Date.now()
+            this.sendMessage(message)
+        }
+    }
+
+    /**
+     * Sends all queued messages regardless of the message rate, e.g. the screen shown after shutdown.
+     */
+    private flushQueuedMessages() {
+        if (!this.connected) return
+
+        while (this.outboundQueue.length > 0) {
+            this.sendMessage(this.outboundQueue.dequeue())
+        }
+    }
+
+    private sendMessage(message: OutboundMessage) {
+        this.mqttClient.publish(message.topic, message.payload)
+        this.recorder?.record('out', message.topic, message.payload)
+
+        // track what the panel shows, from the commands actually sent
+        if (message.hmiCmd != null && this.screenModel.process(message.payload)) {
+            this.emit('screen', this.screenModel.getScreen())
         }
     }
 
+    private stopReplay() {
+        if (this.replayTimer != null) {
+            clearTimeout(this.replayTimer)
+            this.replayTimer = null
+        }
+
+        const { resolveReplay } = this
+        this.resolveReplay = null
+        resolveReplay?.()
+    }
+
+    private stopSendTimer() {
+        if (this.sendTimer != null) {
+            clearTimeout(this.sendTimer)
+            this.sendTimer = null
+        }
+    }
+
+    private subscribe(topic: string) {
+        this.subscribedTopics.add(topic)
+        this.mqttClient.subscribe(topic, this.onMqttMessageListener)
+    }
+
+    private unsubscribe(topic: string) {
+        this.subscribedTopics.delete(topic)
+        this.mqttClient.unsubscribe(topic, this.onMqttMessageListener)
+    }
+
     private onMqttMessage(topic: string, payload: Buffer) {
         const payloadStr = payload.toString()
 
+        if (this.pendingCommandRequests.length > 0) {
+            this.processCommandResult(topic, payloadStr)
+        }
+
+        const messageSource = this.getMessageSource(topic)
+        if (messageSource != null) {
+            NSPanelMessageParser.parse(payloadStr, messageSource).forEach((panelEvent) =>
+                this.dispatchPanelEvent(panelEvent)
+            )
+        }
+    }
+
+    private getMessageSource(topic: string): PanelMessageSource | null {
         switch (topic) {
-            case this.panelMqttTeleResultTopic: {
-                const eventArgs: EventArgs = NSPanelMessageParser.parse(payloadStr)
-                if (eventArgs != null) {
-                    if (eventArgs.type === 'event') {
-                        this.emit('event', eventArgs)
-                    } else {
-                        this.emit('msg', eventArgs)
-                    }
-                }
+            case this.panelMqttTeleResultTopic:
+                return 'result'
+            case this.panelMqttStatResultTopic:
+                return 'statResult'
+            case this.panelMqttSensorTopic:
+                return 'sensor'
+            case this.panelMqttTeleLwtTopic:
+                return 'lwt'
+            case this.panelMqttTeleStateTopic:
+                return 'state'
+            case this.panelMqttStatus2Topic:
+                return 'status2'
+            case this.panelMqttStatUpgradeTopic:
+                return 'upgrade'
+        }
+
+        return null
+    }
+
+    private dispatchPanelEvent(panelEvent: PanelEvent): void {
+        switch (panelEvent.kind) {
+            case 'sensor':
+                this.emit('sensor', panelEvent)
                 break
-            }
 
-            case this.panelMqttSensorTopic: {
-                try {
-                    const temp = JSON.parse(payloadStr)
-                    const sensorEvent: SensorEventArgs | null = NSPanelMessageParser.parseSensorEvent(temp)
-                    if (sensorEvent != null) {
-                        this.emit('sensor', sensorEvent)
-                    }
-                } catch (err: unknown) {
-                    if (err instanceof Error) {
-                        log.error(`Error processing sensor data (data=${payloadStr}): ${err.message}`)
-                        log.error('Stack:')
-                        log.error(err.stack)
-                    }
-                }
+            case 'panelStatus':
+                this.updatePanelStatus(panelEvent)
                 break
-            }
 
-            case this.panelMqttStatResultTopic: {
-                try {
-                    // TODO: consolidate into #parseStatResult ? to reduce redundant checks
-                    const temp = JSON.parse(payloadStr)
-                    if (temp != null) {
-                        // eslint-disable-next-line prefer-const
-                        for (let key in temp) {
-                            switch (key) {
-                                case NSPanelConstants.STR_BERRYDRIVER_CMD_UPDATEDRIVER: {
-                                    const bdUpdEvent: FirmwareEventArgs =
-                                        NSPanelMessageParser.parseBerryDriverUpdateEvent(temp)
-                                    this.emit('msg', bdUpdEvent)
-                                    break
-                                }
-
-                                case NSPanelConstants.STR_BERRYDRIVER_CMD_FLASHNEXTION: {
-                                    const fwFlashEvent: FirmwareEventArgs =
-                                        NSPanelMessageParser.parseBerryDriverUpdateEvent(temp)
-                                    this.emit('msg', fwFlashEvent)
-                                    break
-                                }
-
-                                case NSPanelConstants.STR_TASMOTA_CMD_OTAURL: {
-                                    const tEvent: TasmotaEventArgs =
-                                        NSPanelMessageParser.parseTasmotaCommandResult(temp)
-                                    this.emit('msg', tEvent)
-                                    break
-                                }
-                                // TODO: commands like SetOption73 ...
-
-                                case 'CustomSend':
-                                    // drop for now... since no relevant/relatable data from HMI
-                                    break
-
-                                default: {
-                                    const hwEvents: HardwareEventArgs[] = NSPanelMessageParser.parseHardwareEvent(temp)
-                                    hwEvents?.forEach((hwEventArgs) => {
-                                        this.emit('event', hwEventArgs)
-                                    })
-                                    break
-                                }
-                            }
-                        }
-                    }
-                } catch (err: unknown) {
-                    if (err instanceof Error) {
-                        log.error(`Error processing sensor data (data=${payloadStr}): ${err.message}`)
-                        log.error('Stack:')
-                        log.error(err.stack)
-                    }
-                }
+            case 'firmware':
+            case 'commandResult':
+                this.emit('msg', panelEvent)
                 break
-            }
 
-            case this.panelMqttStatus2Topic: {
-                try {
-                    const temp = JSON.parse(payloadStr)
-                    if ('StatusFWR' in temp) {
-                        const parsedEvent: FirmwareEventArgs = NSPanelMessageParser.parseTasmotaStatus2Event(temp)
-                        if (parsedEvent != null) {
-                            this.emit('msg', parsedEvent)
-                        }
-                    }
-                } catch (err: unknown) {
-                    if (err instanceof Error) {
-                        log.error(`Error processing status2 data (data=${payloadStr}): ${err.message}`)
-                        log.error('Stack:')
-                        log.error(err.stack)
-                    }
-                }
+            case 'unknown':
+                // unknown hardware and display events are passed to the active page
+                this.emit(panelEvent.type === 'unknown' ? 'msg' : 'event', panelEvent)
                 break
-            }
 
-            case this.panelMqttStatUpgradeTopic: {
-                try {
-                    const temp = JSON.parse(payloadStr)
-                    if (NSPanelConstants.STR_TASMOTA_MSG_UPGRADE in temp) {
-                        const parsedEvent: FirmwareEventArgs = NSPanelMessageParser.parseTasmotaUpgradeEvent(temp)
-                        if (parsedEvent != null) {
-                            this.emit('msg', parsedEvent)
-                        }
-                    }
-                } catch (err: unknown) {
-                    if (err instanceof Error) {
-                        log.error(`Error processing upgrade message (data=${payloadStr}): ${err.message}`)
-                        log.error('Stack:')
-                        log.error(err.stack)
-                    }
-                }
+            default:
+                this.emit('event', panelEvent)
                 break
-            }
         }
     }
 
+    private updatePanelStatus(statusEvent: PanelStatusEventArgs): void {
+        // telemetry is kept, so online/offline events carry the last known values
+        const wasOnline = this.panelStatus?.online
+        this.panelStatus = { ...this.panelStatus, ...statusEvent }
+
+        if (statusEvent.event === 'telemetry' && wasOnline === false) {
+            this.emit('status', { ...this.panelStatus, event: 'online' })
+        }
+        // subscriptions of Tasmota are not kept on restart
+        if (this.panelStatus.online === true && wasOnline !== true) {
+            this.registerLastWill()
+        }
+        this.emit('status', { ...this.panelStatus })
+    }
+
+    /**
+     * As a mqtt connection has only one last will, the shared connection publishes its status instead. The panel
+     * subscribes to it and switches to the offline screen by a rule.
+     */
+    private registerLastWill(): void {
+        const statusTopic = this.mqttClient.getStatusTopic()
+        if (this.lastWillRule == null || statusTopic == null) return
+
+        this.sendCommandToPanel({
+            cmd: NSPanelConstants.STR_TASMOTA_CMD_SUBSCRIBE,
+            data: `${NSPanelConstants.STR_TASMOTA_EVENT_SERVER_STATUS}, ${statusTopic}`,
+        })
+        this.sendCommandToPanel({ cmd: NSPanelConstants.STR_TASMOTA_CMD_LAST_WILL_RULE, data: this.lastWillRule })
+        this.sendCommandToPanel({ cmd: NSPanelConstants.STR_TASMOTA_CMD_LAST_WILL_RULE, data: '1' })
+    }
+
+    private processCommandResult(topic: string, payloadStr: string): void {
+        let result: object | null = null
+        try {
+            result = JSON.parse(payloadStr)
+        } catch {
+            return
+        }
+        if (result == null || typeof result !== 'object') return
+
+        const resultKeys: string[] = Object.keys(result).map((key) => key.toUpperCase())
+        const isStatResult = topic === this.panelMqttStatResultTopic
+
+        // oldest request first, as Tasmota processes commands in order
+        const request = this.pendingCommandRequests.find((pendingRequest) =>
+            pendingRequest.resultTopic != null
+                ? pendingRequest.resultTopic === topic
+                : isStatResult && resultKeys.includes(pendingRequest.resultKey)
+        )
+        if (request != null) {
+            this.resolveCommandRequest(request, 'success', result)
+        }
+    }
+
+    private resolveCommandRequest(
+        request: PendingCommandRequest,
+        status: TasmotaCommandResultStatus,
+        result: object | null
+    ): void {
+        clearTimeout(request.timer)
+        this.pendingCommandRequests = this.pendingCommandRequests.filter((pending) => pending !== request)
+
+        // result topic is not needed anymore, once no other request waits for it
+        const resultTopic = request.resultTopic
+        if (
+            this.commandResultTopics.has(resultTopic) &&
+            !this.pendingCommandRequests.some((pending) => pending.resultTopic === resultTopic)
+        ) {
+            this.commandResultTopics.delete(resultTopic)
+            this.unsubscribe(resultTopic)
+        }
+
+        request.resolve({
+            cmd: request.tCmd.cmd,
+            data: request.tCmd.data,
+            status,
+            result,
+            responseTime: Date.now() - request.sentAt,
+        })
+    }
+
     private onMqttConnect(): void {
         this.connected = true
-        log.info('mqtt broker connected')
+        if (this.outboundQueue.length > 0) {
+            log.info(`Sending ${this.outboundQueue.length} queued messages`)
+            this.stopSendTimer()
+            this.sendQueuedMessages()
+        }
         this.emit('mqtt:connect')
     }
 
     private onMqttReconnect(): void {
         this.connected = false
-        log.info('mqtt broker reconnect')
+        this.stopSendTimer()
         this.emit('mqtt:reconnect')
     }
 
     private onMqttClose(): void {
-        if (this.connected) {
-            this.connected = false
-        }
-
-        log.info('mqtt broker disconnected')
+        this.connected = false
+        this.stopSendTimer()
         this.emit('mqtt:close')
     }
 
     private onMqttError(error: Error): void {
-        log.error(`mqtt broker error${error.message}`)
-        log.error('mqtt broker error stack:')
-        log.error(error.stack)
         this.emit('mqtt:error', error)
     }
 
-    private getMqttOptionsFromPanelConfig(panelConfig: PanelConfig): mqtt.IClientOptions {
-        const mqttOptions = {
-            clientId: panelConfig.mqtt.clientId !== '' ? panelConfig.mqtt.clientId : undefined,
-            username: panelConfig.mqtt.username,
-            password: panelConfig.mqtt.password,
-            keepalive: Number(panelConfig.mqtt.keepAlive),
-            reconnectPeriod: panelConfig.mqtt.reconnectPeriod,
-            resubscribe: panelConfig.mqtt.resubscribe,
-        }
+    private getLastWillRule(lastWillCmds: HMICommand[]): string | null {
+        if (!(lastWillCmds?.length > 0) || this.mqttClient.getStatusTopic() == null) return null
 
-        return mqttOptions
+        const backlog = lastWillCmds
+            .map((cmd) => `${NSPanelConstants.STR_TASMOTA_CMD_CUSTOMSEND} ${NSPanelUtils.transformHmiCommand(cmd)}`)
+            .join('; ')
+        const trigger = `Event#${NSPanelConstants.STR_TASMOTA_EVENT_SERVER_STATUS}=${NSPanelConstants.STR_MQTT_STATUS_OFFLINE}`
+        return `ON ${trigger} DO ${NSPanelConstants.STR_TASMOTA_CMD_BACKLOG} ${backlog} ENDON`
     }
 }
@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from 'uuid'
+
+import { INotificationQueue, NotifyData, NotifyPriority, QueuedNotification } from '../types/types'
+
+const PRIORITY_RANK: Record<NotifyPriority, number> = {
+    low: 0,
+    normal: 1,
+    high: 2,
+    critical: 3,
+}
+
+const DEFAULT_PRIORITY: NotifyPriority = 'normal'
+
+export class SimpleNotificationQueue implements INotificationQueue {
+    private queue: QueuedNotification[] = []
+
+    private sequence: number = 0
+
+    public static getPriorityRank(priority: NotifyPriority | undefined | null): number {
+        return PRIORITY_RANK[priority ?? DEFAULT_PRIORITY] ?? PRIORITY_RANK[DEFAULT_PRIORITY]
+    }
+
+    public enqueue(notifyData: NotifyData): QueuedNotification {
+        const now = Date.now()
+        const notifyId = notifyData.notifyId ?? `notify.${uuidv4()}`
+        const expireAfter = Number(notifyData.expireAfter)
+
+        const notification: QueuedNotification = {
+            notifyId,
+            notifyData: { ...notifyData, notifyId },
+            priority: SimpleNotificationQueue.getPriorityRank(notifyData.priority),
+            sequence: this.sequence,
+            enqueuedAt: now,
+            expiresAt: !Number.isNaN(expireAfter) && expireAfter > 0 ? now + expireAfter * 1000 : null,
+        }
+
+        // same notifyId replaces the queued notification, but keeps its position within the same priority
+        const existing = this.queue.find((entry) => entry.notifyId === notifyId)
+        if (existing != null) {
+            notification.sequence = existing.sequence
+            notification.enqueuedAt = existing.enqueuedAt
+            this.remove(notifyId)
+        } else {
+            this.sequence += 1
+        }
+
+        this.insert(notification)
+        return notification
+    }
+
+    public requeue(notification: QueuedNotification): void {
+        if (notification == null) return
+
+        this.remove(notification.notifyId)
+        this.insert(notification)
+    }
+
+    public dequeue(): QueuedNotification | null {
+        this.purgeExpired()
+        return this.queue.shift() ?? null
+    }
+
+    public peek(): QueuedNotification | null {
+        this.purgeExpired()
+        return this.queue[0] ?? null
+    }
+
+    public remove(notifyId: string): boolean {
+        const idx = this.queue.findIndex((entry) => entry.notifyId === notifyId)
+        if (idx === -1) return false
+
+        this.queue.splice(idx, 1)
+        return true
+    }
+
+    public has(notifyId: string): boolean {
+        return this.queue.some((entry) => entry.notifyId === notifyId)
+    }
+
+    public purgeExpired(): QueuedNotification[] {
+        const now = Date.now()
+        const expired = this.queue.filter((entry) => SimpleNotificationQueue.isExpired(entry, now))
+
+        if (expired.length > 0) {
+            this.queue = this.queue.filter((entry) => !SimpleNotificationQueue.isExpired(entry, now))
+        }
+
+        return expired
+    }
+
+    public isEmpty(): boolean {
+        return this.peek() == null
+    }
+
+    public clear(): void {
+        this.queue = []
+    }
+
+    public static isExpired(notification: QueuedNotification, now: number = Date.now()): boolean {
+        return notification.expiresAt != null && notification.expiresAt <= now
+    }
+
+    private insert(notification: QueuedNotification): void {
+        // ordered by priority (highest first), FIFO within the same priority
+        let idx = this.queue.findIndex(
+            (entry) =>
+                entry.priority < notification.priority ||
+                (entry.priority === notification.priority && entry.sequence > notification.sequence)
+        )
+        if (idx === -1) idx = this.queue.length
+
+        this.queue.splice(idx, 0, notification)
+    }
+}
@@ -0,0 +1,77 @@
+import * as NSPanelConstants from './nspanel-constants'
+
+export type OutboundMessage = {
+    topic: string
+    payload: string
+    hmiCmd?: string
+}
+
+const DEFAULT_MAX_SIZE = 100
+
+// commands describing the current state of the panel, only the latest of each is relevant
+const STATE_CMDS: string[] = [
+    NSPanelConstants.STR_LUI_CMD_ENTITYUPDATE,
+    NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL,
+    NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL2,
+    NSPanelConstants.STR_LUI_CMD_PAGETYPE,
+    NSPanelConstants.STR_LUI_CMD_TIME,
+    NSPanelConstants.STR_LUI_CMD_DATE,
+    NSPanelConstants.STR_LUI_CMD_DIMMODE,
+    NSPanelConstants.STR_LUI_CMD_TIMEOUT,
+]
+
+// commands rendering a page, superseded when another page is shown
+const RENDER_CMDS: string[] = [
+    NSPanelConstants.STR_LUI_CMD_ENTITYUPDATE,
+    NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL,
+    NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL2,
+    NSPanelConstants.STR_LUI_CMD_PAGETYPE,
+]
+
+/**
+ * Bounded queue for messages to the panel, while the mqtt client is disconnected or the message rate is
+ * limited. Superseded state commands are dropped, so that the panel is brought to the latest state.
+ */
+export class NSPanelOutboundQueue {
+    private queue: OutboundMessage[] = []
+
+    private maxSize: number
+
+    constructor(maxSize: number = DEFAULT_MAX_SIZE) {
+        this.maxSize = maxSize
+    }
+
+    public get length(): number {
+        return this.queue.length
+    }
+
+    /**
+     * Adds a message to the queue. Returns `false`, if the queue was full and the oldest message was dropped.
+     */
+    public enqueue(message: OutboundMessage): boolean {
+        const { hmiCmd } = message
+
+        if (hmiCmd === NSPanelConstants.STR_LUI_CMD_PAGETYPE) {
+            this.queue = this.queue.filter((entry) => !RENDER_CMDS.includes(entry.hmiCmd))
+        } else if (STATE_CMDS.includes(hmiCmd)) {
+            this.queue = this.queue.filter((entry) => entry.hmiCmd !== hmiCmd)
+        }
+
+        this.queue.push(message)
+
+        if (this.queue.length > this.maxSize) {
+            this.queue.shift()
+            return false
+        }
+
+        return true
+    }
+
+    public dequeue(): OutboundMessage | null {
+        return this.queue.shift() ?? null
+    }
+
+    public clear(): void {
+        this.queue = []
+    }
+}
@@ -1,11 +1,11 @@
 import { NodeBase } from './node-base'
 import { NSPanelColorUtils } from './nspanel-colorutils'
+import { NSPanelHmiCodec } from './nspanel-hmi-codec'
 import { NSPanelUtils } from './nspanel-utils'
 import { Logger } from './logger'
 import {
     FanEntityData,
     HMICommand,
-    HMICommandParameters,
     INodeConfig,
     InputSelectEntityData,
     LightEntityData,
@@ -68,27 +68,23 @@ export class NSPanelPopupHelpers {
             return null
         }
 
-        const result: (string | number)[] = []
-
-        result.push(notifyData.notifyId ?? NSPanelConstants.STR_EMPTY)
-        result.push(notifyData.heading ?? NSPanelConstants.STR_EMPTY)
-        result.push(NSPanelColorUtils.toHmiColor(notifyData.headingColor ?? NSPanelConstants.DEFAULT_LUI_COLOR))
-        result.push(notifyData.cancelText ?? NSPanelConstants.STR_EMPTY)
-        result.push(NSPanelColorUtils.toHmiColor(notifyData.cancelColor ?? NSPanelConstants.DEFAULT_LUI_COLOR))
-        result.push(notifyData.okText ?? NSPanelConstants.STR_EMPTY)
-        result.push(NSPanelColorUtils.toHmiColor(notifyData.okColor ?? NSPanelConstants.DEFAULT_LUI_COLOR))
-        result.push(notifyData.text ?? NSPanelConstants.STR_EMPTY)
-        result.push(NSPanelColorUtils.toHmiColor(notifyData.textColor ?? NSPanelConstants.DEFAULT_LUI_COLOR))
-        result.push(notifyData.timeout ?? NSPanelConstants.STR_EMPTY)
-        result.push(notifyData.fontSize ?? NSPanelConstants.DEFAULT_FONTSIZE)
-        result.push(NSPanelUtils.getIcon(notifyData.icon ?? NSPanelConstants.STR_EMPTY))
-        result.push(NSPanelColorUtils.toHmiColor(notifyData.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR))
-
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL,
-            params: result,
-        }
-        return hmiCmd
+        return NSPanelHmiCodec.encode({
+            cmd: 'entityUpdateDetail',
+            popup: 'popupNotify',
+            notifyId: notifyData.notifyId ?? NSPanelConstants.STR_EMPTY,
+            heading: notifyData.heading ?? NSPanelConstants.STR_EMPTY,
+            headingColor: NSPanelColorUtils.toHmiColor(notifyData.headingColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
+            cancelText: notifyData.cancelText ?? NSPanelConstants.STR_EMPTY,
+            cancelColor: NSPanelColorUtils.toHmiColor(notifyData.cancelColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
+            okText: notifyData.okText ?? NSPanelConstants.STR_EMPTY,
+            okColor: NSPanelColorUtils.toHmiColor(notifyData.okColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
+            text: notifyData.text ?? NSPanelConstants.STR_EMPTY,
+            textColor: NSPanelColorUtils.toHmiColor(notifyData.textColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
+            timeout: notifyData.timeout ?? NSPanelConstants.STR_EMPTY,
+            fontSize: notifyData.fontSize ?? NSPanelConstants.DEFAULT_FONTSIZE,
+            icon: NSPanelUtils.getIcon(notifyData.icon ?? NSPanelConstants.STR_EMPTY),
+            iconColor: NSPanelColorUtils.toHmiColor(notifyData.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
+        })
     }
 
     private static generatePopupFan(
@@ -97,23 +93,20 @@ export class NSPanelPopupHelpers {
         entityData: PageEntityData | null
     ): HMICommand | null {
         const fanEntityData: FanEntityData = <FanEntityData>entityData
-        const result: HMICommandParameters = []
-
-        result.push(entity.entityId)
-        result.push(NSPanelUtils.getIcon(entity.icon ?? NSPanelConstants.STR_EMPTY))
-        result.push(NSPanelColorUtils.toHmiColor(entity.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR))
-        result.push(NSPanelUtils.toHmiState(fanEntityData?.active ?? 0))
-        result.push(fanEntityData?.speed ?? NSPanelConstants.STR_EMPTY)
-        result.push(entity.max ?? NSPanelConstants.STR_EMPTY)
-        result.push(fanEntityData?.text ?? NSPanelConstants.STR_EMPTY)
-        result.push(fanEntityData?.mode ?? NSPanelConstants.STR_EMPTY) // current mode value
-        result.push(`${entity.fanMode1}?${entity.fanMode2}?${entity.fanMode3}`)
 
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL,
-            params: result,
-        }
-        return hmiCmd
+        return NSPanelHmiCodec.encode({
+            cmd: 'entityUpdateDetail',
+            popup: 'popupFan',
+            entityId: entity.entityId,
+            icon: NSPanelUtils.getIcon(entity.icon ?? NSPanelConstants.STR_EMPTY),
+            iconColor: NSPanelColorUtils.toHmiColor(entity.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
+            state: NSPanelUtils.toHmiState(fanEntityData?.active ?? 0),
+            speed: fanEntityData?.speed ?? NSPanelConstants.STR_EMPTY,
+            speedMax: entity.max ?? NSPanelConstants.STR_EMPTY,
+            text: fanEntityData?.text ?? NSPanelConstants.STR_EMPTY,
+            mode: fanEntityData?.mode ?? NSPanelConstants.STR_EMPTY, // current mode value
+            modes: [entity.fanMode1, entity.fanMode2, entity.fanMode3],
+        })
     }
 
     private static generatePopupLight(
@@ -125,7 +118,6 @@ export class NSPanelPopupHelpers {
         // if (entityData == null) return null
 
         const lightEntityData: LightEntityData = <LightEntityData>entityData
-        const result: HMICommandParameters = []
 
         const brightness = entity.dimmable ? lightEntityData?.brightness : NSPanelConstants.STR_DISABLE
         const colorTemp = entity.hasColorTemperature ? lightEntityData?.colorTemperature : NSPanelConstants.STR_DISABLE
@@ -134,22 +126,20 @@ export class NSPanelPopupHelpers {
         const strColorTemp = NSPanelUtils.i18n(node, 'light.temperature', 'nspanel-panel', 'common')
         const strBrightness = NSPanelUtils.i18n(node, 'light.brightness', 'nspanel-panel', 'common')
 
-        result.push(entity.entityId)
-        result.push(NSPanelUtils.getIcon(entity.icon ?? NSPanelConstants.STR_EMPTY))
-        result.push(`${NSPanelColorUtils.toHmiColor(entity.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR)}`)
-        result.push(NSPanelUtils.toHmiState(lightEntityData?.active ?? 0))
-        result.push(brightness ?? NSPanelConstants.STR_EMPTY)
-        result.push(colorTemp ?? NSPanelConstants.STR_EMPTY)
-        result.push(colorMode)
-        result.push(entity.hasColor ? strColor : NSPanelConstants.STR_EMPTY)
-        result.push(entity.hasColorTemperature ? strColorTemp : NSPanelConstants.STR_EMPTY)
-        result.push(entity.dimmable ? strBrightness : NSPanelConstants.STR_EMPTY)
-
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL,
-            params: result,
-        }
-        return hmiCmd
+        return NSPanelHmiCodec.encode({
+            cmd: 'entityUpdateDetail',
+            popup: 'popupLight',
+            entityId: entity.entityId,
+            icon: NSPanelUtils.getIcon(entity.icon ?? NSPanelConstants.STR_EMPTY),
+            iconColor: NSPanelColorUtils.toHmiColor(entity.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
+            state: NSPanelUtils.toHmiState(lightEntityData?.active ?? 0),
+            brightness: brightness ?? NSPanelConstants.STR_EMPTY,
+            colorTemperature: colorTemp ?? NSPanelConstants.STR_EMPTY,
+            colorMode,
+            colorLabel: entity.hasColor ? strColor : NSPanelConstants.STR_EMPTY,
+            colorTemperatureLabel: entity.hasColorTemperature ? strColorTemp : NSPanelConstants.STR_EMPTY,
+            brightnessLabel: entity.dimmable ? strBrightness : NSPanelConstants.STR_EMPTY,
+        })
     }
 
     private static generatePopupShutter(
@@ -159,42 +149,38 @@ export class NSPanelPopupHelpers {
     ): HMICommand | null {
         // entity data might be undefined, if nothing received yet
         const shutterEntityData: ShutterEntityData = entityData as ShutterEntityData // TODO: type guard
-        const hmiCmdParams: HMICommandParameters = []
 
         const hasTilt: boolean = entity.hasTilt ?? false
         const posValue: number = Number(shutterEntityData?.value ?? 0)
         const tiltValue: number = Number(shutterEntityData?.tilt ?? 0)
 
-        hmiCmdParams.push(entity.entityId)
-        hmiCmdParams.push(posValue ?? NSPanelConstants.STR_EMPTY)
-        hmiCmdParams.push(shutterEntityData?.text ?? NSPanelConstants.STR_EMPTY)
-        hmiCmdParams.push(NSPanelUtils.i18n(node, 'shutter.position', 'nspanel-panel', 'common'))
-        hmiCmdParams.push(NSPanelUtils.getIcon(entity.icon ?? NSPanelConstants.STR_EMPTY))
-        hmiCmdParams.push(NSPanelUtils.getIcon(entity.iconUp ?? NSPanelConstants.STR_EMPTY))
-        hmiCmdParams.push(NSPanelUtils.getIcon(entity.iconStop ?? NSPanelConstants.STR_EMPTY))
-        hmiCmdParams.push(NSPanelUtils.getIcon(entity.iconDown ?? NSPanelConstants.STR_EMPTY))
-        hmiCmdParams.push(posValue < 100 ? NSPanelConstants.STR_ENABLE : NSPanelConstants.STR_DISABLE)
-        hmiCmdParams.push(NSPanelConstants.STR_ENABLE) // icon_stop_status
-        hmiCmdParams.push(posValue > 0 ? NSPanelConstants.STR_ENABLE : NSPanelConstants.STR_DISABLE)
-
-        if (hasTilt) {
-            hmiCmdParams.push(NSPanelUtils.i18n(node, 'shutter.tilt', 'nspanel-panel', 'common'))
-            hmiCmdParams.push(NSPanelUtils.getIcon(entity.iconTiltLeft ?? NSPanelConstants.STR_EMPTY))
-            hmiCmdParams.push(NSPanelUtils.getIcon(entity.iconTiltStop ?? NSPanelConstants.STR_EMPTY))
-            hmiCmdParams.push(NSPanelUtils.getIcon(entity.iconTiltRight ?? NSPanelConstants.STR_EMPTY))
-            hmiCmdParams.push(tiltValue < 100 ? NSPanelConstants.STR_ENABLE : NSPanelConstants.STR_DISABLE) // iconTiltLeftStatus
-            hmiCmdParams.push(NSPanelConstants.STR_ENABLE) // iconTiltStopStatus
-            hmiCmdParams.push(tiltValue > 0 ? NSPanelConstants.STR_ENABLE : NSPanelConstants.STR_DISABLE) // iconTiltRightStatus
-            hmiCmdParams.push(shutterEntityData?.tilt ?? 0)
-        } else {
-            hmiCmdParams.push(NSPanelConstants.STR_LUI_DELIMITER.repeat(7) + NSPanelConstants.STR_DISABLE)
-        }
-
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL,
-            params: hmiCmdParams,
-        }
-        return hmiCmd
+        return NSPanelHmiCodec.encode({
+            cmd: 'entityUpdateDetail',
+            popup: 'popupShutter',
+            entityId: entity.entityId,
+            position: posValue ?? NSPanelConstants.STR_EMPTY,
+            text: shutterEntityData?.text ?? NSPanelConstants.STR_EMPTY,
+            positionLabel: NSPanelUtils.i18n(node, 'shutter.position', 'nspanel-panel', 'common'),
+            icon: NSPanelUtils.getIcon(entity.icon ?? NSPanelConstants.STR_EMPTY),
+            iconUp: NSPanelUtils.getIcon(entity.iconUp ?? NSPanelConstants.STR_EMPTY),
+            iconStop: NSPanelUtils.getIcon(entity.iconStop ?? NSPanelConstants.STR_EMPTY),
+            iconDown: NSPanelUtils.getIcon(entity.iconDown ?? NSPanelConstants.STR_EMPTY),
+            iconUpStatus: posValue < 100 ? NSPanelConstants.STR_ENABLE : NSPanelConstants.STR_DISABLE,
+            iconStopStatus: NSPanelConstants.STR_ENABLE,
+            iconDownStatus: posValue > 0 ? NSPanelConstants.STR_ENABLE : NSPanelConstants.STR_DISABLE,
+            tilt: hasTilt
+                ? {
+                      label: NSPanelUtils.i18n(node, 'shutter.tilt', 'nspanel-panel', 'common'),
+                      iconLeft: NSPanelUtils.getIcon(entity.iconTiltLeft ?? NSPanelConstants.STR_EMPTY),
+                      iconStop: NSPanelUtils.getIcon(entity.iconTiltStop ?? NSPanelConstants.STR_EMPTY),
+                      iconRight: NSPanelUtils.getIcon(entity.iconTiltRight ?? NSPanelConstants.STR_EMPTY),
+                      iconLeftStatus: tiltValue < 100 ? NSPanelConstants.STR_ENABLE : NSPanelConstants.STR_DISABLE,
+                      iconStopStatus: NSPanelConstants.STR_ENABLE,
+                      iconRightStatus: tiltValue > 0 ? NSPanelConstants.STR_ENABLE : NSPanelConstants.STR_DISABLE,
+                      value: shutterEntityData?.tilt ?? 0,
+                  }
+                : null,
+        })
     }
 
     private static generatePopupInputSelect(
@@ -203,27 +189,22 @@ export class NSPanelPopupHelpers {
         entityData: PageEntityData | null
     ): HMICommand | null {
         const inputSelectEntityData: InputSelectEntityData = entityData as InputSelectEntityData // TODO: type guard
-        const hmiCmdParams: HMICommandParameters = []
-
-        hmiCmdParams.push(entity.entityId)
-        hmiCmdParams.push(NSPanelConstants.STR_EMPTY) // icon ignored
-        hmiCmdParams.push(`${NSPanelColorUtils.toHmiColor(entity.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR)}`)
-
-        if (inputSelectEntityData != null) {
-            const optionsString: string = Array.isArray(inputSelectEntityData?.options)
-                ? inputSelectEntityData?.options?.join(NSPanelConstants.STR_LUI_LIST_DELIMITER)
-                : inputSelectEntityData?.options
-
-            hmiCmdParams.push(inputSelectEntityData?.mode ?? NSPanelConstants.STR_EMPTY)
-            hmiCmdParams.push(inputSelectEntityData?.selectedOption ?? NSPanelConstants.STR_EMPTY) // TODO: text like 'no data'??
-            hmiCmdParams.push(optionsString ?? NSPanelConstants.STR_EMPTY)
-        }
 
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL2,
-            params: hmiCmdParams,
-        }
-        return hmiCmd
+        return NSPanelHmiCodec.encode({
+            cmd: 'entityUpdateDetail2',
+            popup: 'popupInSel',
+            entityId: entity.entityId,
+            icon: NSPanelConstants.STR_EMPTY, // icon ignored
+            iconColor: NSPanelColorUtils.toHmiColor(entity.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
+            selection:
+                inputSelectEntityData != null
+                    ? {
+                          mode: inputSelectEntityData.mode ?? NSPanelConstants.STR_EMPTY,
+                          selectedOption: inputSelectEntityData.selectedOption ?? NSPanelConstants.STR_EMPTY, // TODO: text like 'no data'??
+                          options: NSPanelPopupHelpers.toOptionList(inputSelectEntityData.options),
+                      }
+                    : null,
+        })
     }
 
     private static generatePopupThermo(
@@ -232,56 +213,35 @@ export class NSPanelPopupHelpers {
         entityData: PageEntityData | null
     ): HMICommand | null {
         const thermoEntityData: ThermoEntityData = entityData as ThermoEntityData // TODO: type guard
-        const hmiCmdParams: HMICommandParameters = []
-
-        const heading: string = thermoEntityData?.heading ?? NSPanelConstants.STR_EMPTY
-        const mode: string = thermoEntityData?.mode ?? NSPanelConstants.STR_EMPTY
         const selectedMode: string = thermoEntityData?.selectedOption ?? NSPanelConstants.STR_EMPTY
-        const modeList: string =
-            (Array.isArray(thermoEntityData?.options)
-                ? thermoEntityData?.options?.join(NSPanelConstants.STR_LUI_LIST_DELIMITER)
-                : thermoEntityData?.options) ?? NSPanelConstants.STR_EMPTY
-
-        const heading1: string = thermoEntityData?.heading1 ?? NSPanelConstants.STR_EMPTY
-        const mode1: string = thermoEntityData?.mode1 ?? NSPanelConstants.STR_EMPTY
-        const selectedMode1: string = thermoEntityData?.selectedOption ?? NSPanelConstants.STR_EMPTY
-        const modeList1: string =
-            (Array.isArray(thermoEntityData?.options1)
-                ? thermoEntityData?.options1?.join(NSPanelConstants.STR_LUI_LIST_DELIMITER)
-                : thermoEntityData?.options1) ?? NSPanelConstants.STR_EMPTY
-
-        const heading2: string = thermoEntityData?.heading2 ?? NSPanelConstants.STR_EMPTY
-        const mode2: string = thermoEntityData?.mode2 ?? NSPanelConstants.STR_EMPTY
-        const selectedMode2: string = thermoEntityData?.selectedOption ?? NSPanelConstants.STR_EMPTY
-        const modeList2: string =
-            (Array.isArray(thermoEntityData?.options2)
-                ? thermoEntityData?.options2?.join(NSPanelConstants.STR_LUI_LIST_DELIMITER)
-                : thermoEntityData?.options2) ?? NSPanelConstants.STR_EMPTY
-
-        hmiCmdParams.push(entity.entityId)
-        hmiCmdParams.push(NSPanelUtils.getIcon(entity.icon ?? NSPanelConstants.STR_EMPTY))
-        hmiCmdParams.push(`${NSPanelColorUtils.toHmiColor(entity.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR)}`)
-
-        hmiCmdParams.push(heading)
-        hmiCmdParams.push(mode)
-        hmiCmdParams.push(selectedMode)
-        hmiCmdParams.push(modeList)
 
-        hmiCmdParams.push(heading1)
-        hmiCmdParams.push(mode1)
-        hmiCmdParams.push(selectedMode1)
-        hmiCmdParams.push(modeList1)
-
-        hmiCmdParams.push(heading2)
-        hmiCmdParams.push(mode2)
-        hmiCmdParams.push(selectedMode2)
-        hmiCmdParams.push(modeList2)
-
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL,
-            params: hmiCmdParams,
-        }
-        return hmiCmd
+        return NSPanelHmiCodec.encode({
+            cmd: 'entityUpdateDetail',
+            popup: 'popupThermo',
+            entityId: entity.entityId,
+            icon: NSPanelUtils.getIcon(entity.icon ?? NSPanelConstants.STR_EMPTY),
+            iconColor: NSPanelColorUtils.toHmiColor(entity.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
+            modes: [
+                {
+                    heading: thermoEntityData?.heading ?? NSPanelConstants.STR_EMPTY,
+                    mode: thermoEntityData?.mode ?? NSPanelConstants.STR_EMPTY,
+                    selectedMode,
+                    modes: NSPanelPopupHelpers.toOptionList(thermoEntityData?.options),
+                },
+                {
+                    heading: thermoEntityData?.heading1 ?? NSPanelConstants.STR_EMPTY,
+                    mode: thermoEntityData?.mode1 ?? NSPanelConstants.STR_EMPTY,
+                    selectedMode,
+                    modes: NSPanelPopupHelpers.toOptionList(thermoEntityData?.options1),
+                },
+                {
+                    heading: thermoEntityData?.heading2 ?? NSPanelConstants.STR_EMPTY,
+                    mode: thermoEntityData?.mode2 ?? NSPanelConstants.STR_EMPTY,
+                    selectedMode,
+                    modes: NSPanelPopupHelpers.toOptionList(thermoEntityData?.options2),
+                },
+            ],
+        })
     }
 
     private static generatePopupTimer(
@@ -301,28 +261,32 @@ export class NSPanelPopupHelpers {
         const dTimerMins: number = Number.isNaN(dTimer) ? 0 : Math.floor(dTimer / 60)
         const dTimerSecs: number = Number.isNaN(dTimer) ? 0 : dTimer % 60
 
-        const hmiCmdParams: HMICommandParameters = []
-        hmiCmdParams.push(entity.entityId)
-        hmiCmdParams.push(NSPanelUtils.getIcon(entity.icon ?? NSPanelConstants.STR_EMPTY))
-        hmiCmdParams.push(`${NSPanelColorUtils.toHmiColor(entity.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR)}`)
-        hmiCmdParams.push(entity.entityId)
-
-        hmiCmdParams.push(dTimerMins)
-        hmiCmdParams.push(dTimerSecs)
-
-        hmiCmdParams.push(dAdjustable)
+        return NSPanelHmiCodec.encode({
+            cmd: 'entityUpdateDetail',
+            popup: 'popupTimer',
+            entityId: entity.entityId,
+            icon: NSPanelUtils.getIcon(entity.icon ?? NSPanelConstants.STR_EMPTY),
+            iconColor: NSPanelColorUtils.toHmiColor(entity.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR),
+            timerId: entity.entityId,
+            minutes: dTimerMins,
+            seconds: dTimerSecs,
+            adjustable: dAdjustable,
+            actions: [
+                dAction1 ?? NSPanelConstants.STR_EMPTY,
+                dAction2 ?? NSPanelConstants.STR_EMPTY,
+                dAction3 ?? NSPanelConstants.STR_EMPTY,
+            ],
+            labels: [
+                dLabel1 ?? NSPanelConstants.STR_EMPTY,
+                dLabel2 ?? NSPanelConstants.STR_EMPTY,
+                dLabel3 ?? NSPanelConstants.STR_EMPTY,
+            ],
+        })
+    }
 
-        hmiCmdParams.push(dAction1 ?? NSPanelConstants.STR_EMPTY)
-        hmiCmdParams.push(dAction2 ?? NSPanelConstants.STR_EMPTY)
-        hmiCmdParams.push(dAction3 ?? NSPanelConstants.STR_EMPTY)
-        hmiCmdParams.push(dLabel1 ?? NSPanelConstants.STR_EMPTY)
-        hmiCmdParams.push(dLabel2 ?? NSPanelConstants.STR_EMPTY)
-        hmiCmdParams.push(dLabel3 ?? NSPanelConstants.STR_EMPTY)
+    private static toOptionList(options: string | string[] | undefined | null): string[] {
+        if (options == null) return []
 
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL,
-            params: hmiCmdParams,
-        }
-        return hmiCmd
+        return Array.isArray(options) ? options : [options]
     }
 }
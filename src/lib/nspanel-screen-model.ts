@@ -0,0 +1,139 @@
+import { Logger } from './logger'
+import { NSPanelUtils } from './nspanel-utils'
+import * as NSPanelConstants from './nspanel-constants'
+import { PanelScreen, PanelScreenEntity } from '../types/types'
+
+const log = Logger('NSPanelScreenModel')
+
+const ENTITY_FIELDS = 6
+
+// page types showing a title, navigation and a list of entities
+const ENTITY_PAGE_TYPES: string[] = [
+    NSPanelConstants.STR_PAGE_TYPE_CARD_ENTITIES,
+    NSPanelConstants.STR_PAGE_TYPE_CARD_GRID,
+    NSPanelConstants.STR_PAGE_TYPE_CARD_GRID2,
+]
+
+/**
+ * Model of what the screen of the panel shows, built from the HMI commands sent via `CustomSend`.
+ */
+export class NSPanelScreenModel {
+    private screen: PanelScreen = NSPanelScreenModel.createScreen()
+
+    public getScreen(): PanelScreen {
+        return structuredClone(this.screen)
+    }
+
+    public reset(): void {
+        this.screen = NSPanelScreenModel.createScreen()
+    }
+
+    /**
+     * Applies a HMI command, e.g. `pageType~cardEntities`. Returns `true`, if the command changed the screen.
+     */
+    public process(payload: string): boolean {
+        const [hmiCmd, ...params] = payload.split(NSPanelConstants.STR_LUI_DELIMITER)
+
+        switch (hmiCmd) {
+            case NSPanelConstants.STR_LUI_CMD_PAGETYPE:
+                this.screen.pageType = params[0] ?? null
+                this.screen.pageParams = params.slice(1)
+                this.screen.title = null
+                this.screen.navigation = { prev: null, next: null }
+                this.screen.entities = []
+                this.screen.entityUpdate = null
+                this.screen.entityUpdateDetail = null
+                this.screen.entityUpdateDetail2 = null
+                break
+
+            case NSPanelConstants.STR_LUI_CMD_ENTITYUPDATE:
+                this.screen.entityUpdate = params
+                if (ENTITY_PAGE_TYPES.includes(this.screen.pageType)) {
+                    this.updateEntities(params)
+                }
+                break
+
+            case NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL:
+                this.screen.entityUpdateDetail = params
+                break
+
+            case NSPanelConstants.STR_LUI_CMD_ENTITYUPDATEDETAIL2:
+                this.screen.entityUpdateDetail2 = params
+                break
+
+            case NSPanelConstants.STR_LUI_CMD_TIME:
+                this.screen.time = params[0] ?? null
+                break
+
+            case NSPanelConstants.STR_LUI_CMD_DATE:
+                this.screen.date = params[0] ?? null
+                break
+
+            case NSPanelConstants.STR_LUI_CMD_DIMMODE:
+                this.screen.dimLow = NSPanelUtils.toNumberOrNull(params[0])
+                this.screen.dimHigh = NSPanelUtils.toNumberOrNull(params[1])
+                break
+
+            case NSPanelConstants.STR_LUI_CMD_TIMEOUT:
+                this.screen.timeout = NSPanelUtils.toNumberOrNull(params[0])
+                break
+
+            default:
+                log.debug(`Command not modeled: ${hmiCmd}`)
+                return false
+        }
+
+        return true
+    }
+
+    private updateEntities(params: string[]) {
+        // title, navigation previous and next, followed by the entities
+        const [title, ...fields] = params
+        const entities: PanelScreenEntity[] = []
+        for (let i = 2 * ENTITY_FIELDS; i + ENTITY_FIELDS <= fields.length; i += ENTITY_FIELDS) {
+            const entity = NSPanelScreenModel.toEntity(fields.slice(i, i + ENTITY_FIELDS))
+            if (entity != null) {
+                entities.push(entity)
+            }
+        }
+
+        this.screen.title = title ?? null
+        this.screen.navigation = {
+            prev: NSPanelScreenModel.toEntity(fields.slice(0, ENTITY_FIELDS)),
+            next: NSPanelScreenModel.toEntity(fields.slice(ENTITY_FIELDS, 2 * ENTITY_FIELDS)),
+        }
+        this.screen.entities = entities
+    }
+
+    private static toEntity(fields: string[]): PanelScreenEntity | null {
+        const [type, entityId, icon, iconColor, text, value] = fields
+        if (type == null || type === NSPanelConstants.STR_LUI_ENTITY_NONE) return null
+
+        return {
+            type,
+            entityId: entityId ?? NSPanelConstants.STR_EMPTY,
+            icon: icon ?? NSPanelConstants.STR_EMPTY,
+            iconColor: NSPanelUtils.toNumberOrNull(iconColor),
+            text: text ?? NSPanelConstants.STR_EMPTY,
+            value: value ?? NSPanelConstants.STR_EMPTY,
+        }
+    }
+
+    private static createScreen(): PanelScreen {
+        return {
+            pageType: null,
+            pageParams: [],
+            title: null,
+            navigation: { prev: null, next: null },
+            entities: [],
+            entityUpdate: null,
+            entityUpdateDetail: null,
+            entityUpdateDetail2: null,
+            time: null,
+            date: null,
+            dimLow: null,
+            dimHigh: null,
+            timeout: null,
+        }
+    }
+}
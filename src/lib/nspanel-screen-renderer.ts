@@ -0,0 +1,133 @@
+import { IconProvider } from './icon-provider'
+import { NSPanelColorUtils } from './nspanel-colorutils'
+import * as NSPanelConstants from './nspanel-constants'
+import { PanelScreen, PanelScreenEntity } from '../types/types'
+
+const SCREEN_WIDTH = 480
+const SCREEN_HEIGHT = 320
+const SCREEN_STYLE = `position:relative;width:${SCREEN_WIDTH}px;height:${SCREEN_HEIGHT}px;overflow:hidden;box-sizing:border-box;padding:8px;background:#000;color:#fff;font-family:sans-serif;font-size:18px`
+const HEADER_STYLE = 'display:flex;justify-content:space-between;align-items:center;height:40px;font-size:22px'
+const ENTITY_ROW_STYLE = 'display:flex;align-items:center;height:52px;gap:12px'
+const GRID_STYLE = 'display:grid;grid-template-columns:repeat(3,1fr);grid-auto-rows:120px;gap:8px;text-align:center'
+const ICON_STYLE = 'display:inline-block;min-width:28px;font-size:26px;text-align:center'
+const MUTED_STYLE = 'color:#888;font-size:14px'
+const CLOCK_STYLE = 'font-size:64px;text-align:center;margin-top:60px'
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+}
+
+const TOGGLE_ENTITY_TYPES: string[] = [
+    NSPanelConstants.STR_LUI_ENTITY_LIGHT,
+    NSPanelConstants.STR_LUI_ENTITY_SWITCH,
+    NSPanelConstants.STR_LUI_ENTITY_FAN,
+]
+
+/**
+ * Renders the screen model of a panel as HTML, as approximate picture of the screen for the editor preview.
+ * Icons are shown as glyphs of the panel font, with the icon name as tooltip.
+ */
+export class NSPanelScreenRenderer {
+    public static render(screen: PanelScreen | null): string {
+        let content: string
+
+        switch (screen?.pageType) {
+            case null:
+            case undefined:
+                content = `<div style="${MUTED_STYLE}">-</div>`
+                break
+
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_ENTITIES: {
+                const rows = screen.entities.map((entity) => NSPanelScreenRenderer.renderEntityRow(entity))
+                content = NSPanelScreenRenderer.renderHeader(screen) + rows.join('')
+                break
+            }
+
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_GRID:
+            case NSPanelConstants.STR_PAGE_TYPE_CARD_GRID2: {
+                const tiles = screen.entities.map((entity) => NSPanelScreenRenderer.renderEntityTile(entity))
+                const grid = `<div style="${GRID_STYLE}">${tiles.join('')}</div>`
+                content = NSPanelScreenRenderer.renderHeader(screen) + grid
+                break
+            }
+
+            case 'screensaver':
+            case 'screensaver2':
+                content = NSPanelScreenRenderer.renderScreensaver(screen)
+                break
+
+            default:
+                content = NSPanelScreenRenderer.renderGeneric(screen)
+                break
+        }
+
+        return `<div class="nspanel-screen" style="${SCREEN_STYLE}">${content}</div>`
+    }
+
+    private static renderHeader(screen: PanelScreen): string {
+        const prev = NSPanelScreenRenderer.renderIcon(screen.navigation.prev)
+        const next = NSPanelScreenRenderer.renderIcon(screen.navigation.next)
+        const title = NSPanelScreenRenderer.escape(screen.title ?? '')
+
+        return `<div style="${HEADER_STYLE}">${prev}<span>${title}</span>${next}</div>`
+    }
+
+    private static renderEntityRow(entity: PanelScreenEntity): string {
+        const icon = NSPanelScreenRenderer.renderIcon(entity)
+        const text = NSPanelScreenRenderer.escape(entity.text)
+        const value = NSPanelScreenRenderer.escape(NSPanelScreenRenderer.formatValue(entity))
+
+        return `<div style="${ENTITY_ROW_STYLE}">${icon}<span style="flex:1">${text}</span><span>${value}</span></div>`
+    }
+
+    private static renderEntityTile(entity: PanelScreenEntity): string {
+        const icon = NSPanelScreenRenderer.renderIcon(entity)
+        const text = NSPanelScreenRenderer.escape(entity.text)
+
+        return `<div>${icon}<div>${text}</div></div>`
+    }
+
+    private static renderScreensaver(screen: PanelScreen): string {
+        const time = NSPanelScreenRenderer.escape(screen.time ?? '')
+        const date = NSPanelScreenRenderer.escape(screen.date ?? '')
+
+        return `<div style="${CLOCK_STYLE}">${time}</div><div style="text-align:center">${date}</div>`
+    }
+
+    private static renderGeneric(screen: PanelScreen): string {
+        const pageType = NSPanelScreenRenderer.escape(screen.pageType)
+        const fields = [...screen.pageParams, ...(screen.entityUpdate ?? []), ...(screen.entityUpdateDetail ?? [])]
+            .filter((field) => field !== '')
+            .map((field) => NSPanelScreenRenderer.escape(field))
+
+        return `<div style="${MUTED_STYLE}">${pageType}</div><div>${fields.join(' &middot; ')}</div>`
+    }
+
+    private static renderIcon(entity: PanelScreenEntity | null): string {
+        if (entity == null) return `<span style="${ICON_STYLE}"></span>`
+
+        const rgb = NSPanelColorUtils.dec565ToRgb(entity.iconColor ?? NSPanelConstants.DEFAULT_LUI_COLOR)
+        const color = NSPanelColorUtils.rgbToHex(rgb)
+        const iconName = NSPanelScreenRenderer.escape(IconProvider.GetIconName(entity.icon) ?? entity.icon)
+        const icon = NSPanelScreenRenderer.escape(entity.icon)
+
+        return `<span style="${ICON_STYLE};color:${color}" title="${iconName}">${icon}</span>`
+    }
+
+    private static formatValue(entity: PanelScreenEntity): string {
+        if (TOGGLE_ENTITY_TYPES.includes(entity.type)) {
+            return entity.value === '1' ? 'ON' : 'OFF'
+        }
+
+        // number entities send value|min|max
+        return entity.value.split('|')[0]
+    }
+
+    private static escape(str: string): string {
+        return String(str).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+    }
+}
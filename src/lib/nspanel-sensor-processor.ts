@@ -0,0 +1,207 @@
+import { Logger } from './logger'
+import { SensorEventArgs, SensorMeasurement, SensorProcessingOptions, SensorStatistics } from '../types/types'
+import * as NSPanelConstants from './nspanel-constants'
+
+const log = Logger('NSPanelSensorProcessor')
+
+// min. number of readings before outliers are rejected
+const OUTLIER_MIN_READINGS = 3
+const MS_PER_HOUR = 60 * 60 * 1000
+const VALUE_PRECISION = 100
+
+export const DEFAULT_SENSOR_PROCESSING_OPTIONS: SensorProcessingOptions = {
+    offset: 0,
+    scale: 1,
+    filter: 'none',
+    filterSize: 5,
+    outlierThreshold: 0,
+    statsPeriod: 24,
+}
+
+type SensorReading = {
+    time: number
+    value: number
+}
+
+type SensorState = {
+    unit: string
+    // last accepted readings, base of the filter and the outlier rejection
+    readings: number[]
+    // number of consecutive rejected readings
+    rejected: number
+    // filtered readings within the statistics period
+    history: SensorReading[]
+}
+
+export class NSPanelSensorProcessor {
+    private options: SensorProcessingOptions
+
+    private sensors: Map<string, SensorState> = new Map()
+
+    constructor(options?: Partial<SensorProcessingOptions>) {
+        const defaults = DEFAULT_SENSOR_PROCESSING_OPTIONS
+        this.options = {
+            offset: options?.offset ?? defaults.offset,
+            scale: options?.scale ?? defaults.scale,
+            filter: options?.filter ?? defaults.filter,
+            filterSize: Math.max(1, Math.round(options?.filterSize ?? defaults.filterSize)),
+            outlierThreshold: Math.max(0, options?.outlierThreshold ?? defaults.outlierThreshold),
+            statsPeriod: options?.statsPeriod > 0 ? options.statsPeriod : defaults.statsPeriod,
+        }
+    }
+
+    public static median(values: number[]): number {
+        const sorted = [...values].sort((a, b) => a - b)
+        const mid = Math.floor(sorted.length / 2)
+        return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+    }
+
+    public static average(values: number[]): number {
+        return values.reduce((sum, value) => sum + value, 0) / values.length
+    }
+
+    /**
+     * Calibrates and filters the temperatures of a sensor event. Rejected outliers are removed from the
+     * measurements, returns `null` if no measurement is left.
+     */
+    public process(sensorEventArgs: SensorEventArgs, now: number = Date.now()): SensorEventArgs | null {
+        if (sensorEventArgs.measurements == null) return sensorEventArgs
+
+        const result: SensorEventArgs = { ...sensorEventArgs, measurements: [] }
+        delete result.temp
+
+        let primaryFound = false
+        sensorEventArgs.measurements.forEach((measurement) => {
+            const processed =
+                measurement.type === 'temperature' ? this.processTemperature(measurement, now) : measurement
+
+            // `temp` follows the measurement it was taken from, see NSPanelMessageParser
+            const isPrimary =
+                !primaryFound &&
+                sensorEventArgs.temp != null &&
+                measurement.type === 'temperature' &&
+                NSPanelSensorProcessor.getEventSource(measurement) === sensorEventArgs.source
+            if (isPrimary) {
+                primaryFound = true
+                if (processed != null) {
+                    result.temp = processed.value
+                }
+            }
+
+            if (processed != null) {
+                result.measurements.push(processed)
+            }
+        })
+
+        return result.measurements.length > 0 ? result : null
+    }
+
+    public getStatistics(now: number = Date.now()): SensorStatistics[] {
+        const statistics: SensorStatistics[] = []
+
+        this.sensors.forEach((sensor, source) => {
+            this.pruneHistory(sensor, now)
+            if (sensor.history.length === 0) return
+
+            const values = sensor.history.map((reading) => reading.value)
+            statistics.push({
+                source,
+                unit: sensor.unit,
+                min: Math.min(...values),
+                max: Math.max(...values),
+                avg: NSPanelSensorProcessor.round(NSPanelSensorProcessor.average(values)),
+                count: values.length,
+                since: new Date(sensor.history[0].time),
+            })
+        })
+
+        return statistics
+    }
+
+    public resetStatistics(): void {
+        this.sensors.forEach((sensor) => {
+            sensor.history = []
+        })
+    }
+
+    private processTemperature(measurement: SensorMeasurement, now: number): SensorMeasurement | null {
+        const { offset, scale, filter, filterSize, outlierThreshold } = this.options
+        const sensor = this.getSensorState(measurement)
+
+        // only the panel sensor is calibrated, connected sensors are accurate enough
+        const value =
+            measurement.source === NSPanelConstants.STR_TASMOTA_SENSOR_PANEL
+                ? measurement.value * scale + offset
+                : measurement.value
+
+        if (
+            outlierThreshold > 0 &&
+            sensor.readings.length >= OUTLIER_MIN_READINGS &&
+            Math.abs(value - NSPanelSensorProcessor.median(sensor.readings)) > outlierThreshold
+        ) {
+            sensor.rejected += 1
+            if (sensor.rejected < sensor.readings.length) {
+                log.debug(`Rejected outlier ${measurement.value} of ${measurement.source}`)
+                return null
+            }
+
+            // temperature changed permanently, restarting with the current reading
+            sensor.readings = []
+        }
+        sensor.rejected = 0
+
+        sensor.readings.push(value)
+        if (sensor.readings.length > Math.max(filterSize, OUTLIER_MIN_READINGS)) {
+            sensor.readings.shift()
+        }
+
+        const filterReadings = sensor.readings.slice(-filterSize)
+        let filteredValue: number
+        switch (filter) {
+            case 'average':
+                filteredValue = NSPanelSensorProcessor.average(filterReadings)
+                break
+
+            case 'median':
+                filteredValue = NSPanelSensorProcessor.median(filterReadings)
+                break
+
+            default:
+                filteredValue = value
+        }
+        filteredValue = NSPanelSensorProcessor.round(filteredValue)
+
+        sensor.history.push({ time: now, value: filteredValue })
+        this.pruneHistory(sensor, now)
+
+        return { ...measurement, value: filteredValue, raw: measurement.value }
+    }
+
+    private getSensorState(measurement: SensorMeasurement): SensorState {
+        let sensor = this.sensors.get(measurement.source)
+
+        // readings of another unit are not comparable
+        if (sensor == null || sensor.unit !== measurement.unit) {
+            sensor = { unit: measurement.unit, readings: [], rejected: 0, history: [] }
+            this.sensors.set(measurement.source, sensor)
+        }
+
+        return sensor
+    }
+
+    private pruneHistory(sensor: SensorState, now: number): void {
+        const start = now - this.options.statsPeriod * MS_PER_HOUR
+        const firstInPeriod = sensor.history.findIndex((reading) => reading.time >= start)
+        sensor.history = firstInPeriod === -1 ? [] : sensor.history.slice(firstInPeriod)
+    }
+
+    private static getEventSource(measurement: SensorMeasurement): string {
+        return measurement.source === NSPanelConstants.STR_TASMOTA_SENSOR_PANEL
+            ? NSPanelConstants.STR_SENSOR_SOURCE_PANEL
+            : measurement.source.toLowerCase()
+    }
+
+    private static round(value: number): number {
+        return Math.round(value * VALUE_PRECISION) / VALUE_PRECISION
+    }
+}
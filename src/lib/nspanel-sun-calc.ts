@@ -0,0 +1,66 @@
+import { SunTimes } from '../types/types'
+
+// sun position calculation based on the formulas of https://aa.quae.nl/en/reken/zonpositie.html
+const RAD = Math.PI / 180
+const DAY_MS = 1000 * 60 * 60 * 24
+const J1970 = 2440588
+const J2000 = 2451545
+const J0 = 0.0009
+const EARTH_OBLIQUITY = RAD * 23.4397
+// sun altitude at sunrise/sunset, accounting for refraction and the sun disc
+const SUNRISE_ALTITUDE = RAD * -0.833
+
+export class NSPanelSunCalc {
+    /**
+     * Calculates sunrise and sunset for the day of `date` at the given location.
+     * Returns `null` for sunrise and sunset during polar day or polar night.
+     */
+    public static getSunTimes(date: Date, latitude: number, longitude: number): SunTimes {
+        // calculate from noon to get the times of the requested (local) day
+        const noon = new Date(date)
+        noon.setHours(12, 0, 0, 0)
+
+        const lw = RAD * -longitude
+        const phi = RAD * latitude
+        const d = NSPanelSunCalc.toDays(noon)
+
+        const n = Math.round(d - J0 - lw / (2 * Math.PI))
+        const ds = NSPanelSunCalc.approxTransit(0, lw, n)
+        const M = RAD * (357.5291 + 0.98560028 * ds)
+        const C = RAD * (1.9148 * Math.sin(M) + 0.02 * Math.sin(2 * M) + 0.0003 * Math.sin(3 * M))
+        const L = M + C + RAD * 102.9372 + Math.PI
+        const dec = Math.asin(Math.sin(EARTH_OBLIQUITY) * Math.sin(L))
+        const jNoon = NSPanelSunCalc.solarTransitJ(ds, M, L)
+
+        const w = Math.acos(
+            (Math.sin(SUNRISE_ALTITUDE) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec))
+        )
+        if (Number.isNaN(w)) {
+            return { sunrise: null, sunset: null }
+        }
+
+        const jSet = NSPanelSunCalc.solarTransitJ(NSPanelSunCalc.approxTransit(w, lw, n), M, L)
+        const jRise = jNoon - (jSet - jNoon)
+
+        return {
+            sunrise: NSPanelSunCalc.fromJulian(jRise),
+            sunset: NSPanelSunCalc.fromJulian(jSet),
+        }
+    }
+
+    private static toDays(date: Date): number {
+        return date.valueOf() / DAY_MS - 0.5 + J1970 - J2000
+    }
+
+    private static fromJulian(j: number): Date {
+        return new Date((j + 0.5 - J1970) * DAY_MS)
+    }
+
+    private static approxTransit(ht: number, lw: number, n: number): number {
+        return J0 + (ht + lw) / (2 * Math.PI) + n
+    }
+
+    private static solarTransitJ(ds: number, M: number, L: number): number {
+        return J2000 + ds + 0.0053 * Math.sin(M) - 0.0069 * Math.sin(2 * L)
+    }
+}
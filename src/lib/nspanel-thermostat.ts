@@ -0,0 +1,73 @@
+import { ThermostatDecision, ThermostatOptions } from '../types/types'
+
+const MS_PER_MINUTE = 60 * 1000
+
+const DEFAULT_THERMOSTAT_OPTIONS: ThermostatOptions = {
+    hysteresis: 0,
+    minOnTime: 0,
+    minOffTime: 0,
+}
+
+/**
+ * Two-point control of a heating relay. The relay is switched on below `target - hysteresis / 2` and off above
+ * `target + hysteresis / 2`, keeping the min. on and off times. Until the state of the relay is known, i.e. switched
+ * or reported, a temperature within the hysteresis band does not switch the relay.
+ */
+export class NSPanelThermostat {
+    private options: ThermostatOptions
+
+    private heating: boolean | null = null
+
+    private lastSwitchTime: number | null = null
+
+    constructor(options?: Partial<ThermostatOptions>) {
+        const defaults = DEFAULT_THERMOSTAT_OPTIONS
+        this.options = {
+            hysteresis: Math.max(0, Number(options?.hysteresis) || defaults.hysteresis),
+            minOnTime: Math.max(0, Number(options?.minOnTime) || defaults.minOnTime),
+            minOffTime: Math.max(0, Number(options?.minOffTime) || defaults.minOffTime),
+        }
+    }
+
+    public isHeating(): boolean | null {
+        return this.heating
+    }
+
+    /**
+     * Sets the state of the relay, switched by the control or reported by the panel, e.g. when switched manually.
+     * The min. on and off times start over.
+     */
+    public setHeating(heating: boolean, now: number = Date.now()): void {
+        this.heating = heating
+        this.lastSwitchTime = now
+    }
+
+    /**
+     * Decides whether the relay has to be switched. The caller switches the relay and reports it by `setHeating`.
+     */
+    public control(currentTemp: number, targetTemp: number, now: number = Date.now()): ThermostatDecision {
+        const noChange: ThermostatDecision = { heating: null, retryIn: 0 }
+        if (Number.isNaN(currentTemp) || Number.isNaN(targetTemp)) return noChange
+
+        const halfHysteresis = this.options.hysteresis / 2
+        let heatingDemand: boolean
+        if (currentTemp < targetTemp - halfHysteresis) {
+            heatingDemand = true
+        } else if (currentTemp >= targetTemp + halfHysteresis) {
+            heatingDemand = false
+        } else {
+            return noChange
+        }
+        if (heatingDemand === this.heating) return noChange
+
+        if (this.heating !== null && this.lastSwitchTime !== null) {
+            const minTime = this.heating ? this.options.minOnTime : this.options.minOffTime
+            const remaining = this.lastSwitchTime + minTime * MS_PER_MINUTE - now
+            if (remaining > 0) {
+                return { heating: null, retryIn: remaining }
+            }
+        }
+
+        return { heating: heatingDemand, retryIn: 0 }
+    }
+}
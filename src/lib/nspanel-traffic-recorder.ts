@@ -0,0 +1,112 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { Logger } from './logger'
+import { IDisposable, TrafficDirection, TrafficRecord } from '../types/types'
+
+const log = Logger('NSPanelTrafficRecorder')
+
+const RECORD_DELIMITER = '\n'
+const ROTATED_FILE_SUFFIX = '.1'
+const DEFAULT_MAX_RECORD_FILE_SIZE = 10 * 1024 * 1024
+
+/**
+ * Writes the mqtt traffic of a panel to a JSONL file, one message with timestamp per line, to trace issues
+ * reported by users and to reproduce them by replaying the file. Once the file exceeds the max. size, it is
+ * moved to `<file>.1`, replacing the previous one, and recording continues in a new file.
+ */
+export class NSPanelTrafficRecorder implements IDisposable {
+    private file: string
+
+    private maxFileSize: number
+
+    private fileSize: number = 0
+
+    private stream: fs.WriteStream | null = null
+
+    constructor(file: string, maxFileSize: number = DEFAULT_MAX_RECORD_FILE_SIZE) {
+        this.file = file
+        this.maxFileSize = maxFileSize
+
+        try {
+            fs.mkdirSync(path.dirname(file), { recursive: true })
+            this.fileSize = fs.existsSync(file) ? fs.statSync(file).size : 0
+            this.openStream()
+            log.info(`Recording traffic to ${file}`)
+        } catch (err: unknown) {
+            if (err instanceof Error) {
+                log.error(`Could not open traffic record ${file}. Error: ${err.message}`)
+            }
+        }
+    }
+
+    public dispose() {
+        this.stream?.end()
+        this.stream = null
+    }
+
+    public record(direction: TrafficDirection, topic: string, payload: string) {
+        if (this.stream == null) return
+
+        const trafficRecord: TrafficRecord = { time: new Date().toISOString(), direction, topic, payload }
+        const line = JSON.stringify(trafficRecord) + RECORD_DELIMITER
+        const lineSize = Buffer.byteLength(line)
+        if (this.fileSize > 0 && this.fileSize + lineSize > this.maxFileSize) {
+            this.rotate()
+            if (this.stream == null) return
+        }
+
+        this.stream.write(line)
+        this.fileSize += lineSize
+    }
+
+    /**
+     * Reads the records of a file, skipping lines that cannot be parsed, e.g. a line cut off by a crash.
+     */
+    public static readRecords(file: string): Promise<TrafficRecord[]> {
+        return fs.promises.readFile(file, 'utf8').then((content) => {
+            const records: TrafficRecord[] = []
+            content.split(RECORD_DELIMITER).forEach((line, idx) => {
+                if (line.trim().length === 0) return
+
+                try {
+                    records.push(JSON.parse(line) as TrafficRecord)
+                } catch (err: unknown) {
+                    if (err instanceof Error) {
+                        log.warn(`Skipped invalid record in line ${idx + 1} of ${file}. Error: ${err.message}`)
+                    }
+                }
+            })
+
+            return records
+        })
+    }
+
+    private openStream() {
+        // opened synchronously, so the file exists to be rotated before the first write
+        const stream = fs.createWriteStream(this.file, { fd: fs.openSync(this.file, 'a') })
+        stream.on('error', (err: Error) => {
+            log.error(`Could not write traffic record to ${this.file}. Error: ${err.message}`)
+            if (this.stream === stream) {
+                this.stream = null
+            }
+        })
+        this.stream = stream
+    }
+
+    private rotate() {
+        // the stream writes pending records to the moved file before it is closed
+        this.stream.end()
+        this.stream = null
+
+        try {
+            fs.renameSync(this.file, this.file + ROTATED_FILE_SUFFIX)
+            this.fileSize = 0
+            this.openStream()
+        } catch (err: unknown) {
+            if (err instanceof Error) {
+                log.error(`Could not rotate traffic record ${this.file}. Error: ${err.message}`)
+            }
+        }
+    }
+}
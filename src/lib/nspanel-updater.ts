@@ -5,6 +5,7 @@ import * as semver from 'semver'
 
 import { Logger } from './logger'
 import { NSPanelUtils } from './nspanel-utils'
+import { NSPanelHmiCodec } from './nspanel-hmi-codec'
 import {
     HMIVersion,
     IPanelController,
@@ -446,10 +447,10 @@ onEvent default {"type":"hw","date":"2023-10-16T15:15:05.211Z","event":"","sourc
 
     // #region version information retrieval
     private getCurrentHmiVersion(): void {
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_PAGETYPE,
-            params: NSPanelConstants.STR_PAGE_TYPE_CARD_STARTUP,
-        }
+        const hmiCmd: HMICommand = NSPanelHmiCodec.encode({
+            cmd: 'pageType',
+            pageType: NSPanelConstants.STR_PAGE_TYPE_CARD_STARTUP,
+        })
         this._mqttHandler?.sendToPanel(hmiCmd)
     }
 
@@ -56,6 +56,13 @@ export class NSPanelUtils {
         return { hours: h, minutes: m }
     }
 
+    public static toNumberOrNull(v: any): number | null {
+        if (v == null || (typeof v === 'string' && v.trim().length === 0)) return null
+
+        const n = Number(v)
+        return Number.isNaN(n) ? null : n
+    }
+
     public static isString(e: any): boolean {
         return typeof e === 'string'
     }
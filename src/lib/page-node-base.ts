@@ -1,6 +1,6 @@
 import { ILogger, Logger } from './logger'
 import { NodeBase } from './node-base'
-import { DEFAULT_LUI_COLOR, STR_LUI_DELIMITER } from './nspanel-constants'
+import { DEFAULT_LUI_COLOR } from './nspanel-constants'
 import { NSPanelMessageUtils } from './nspanel-message-utils'
 import { NSPanelUtils } from './nspanel-utils'
 import { NSPanelColorUtils } from './nspanel-colorutils'
@@ -24,6 +24,8 @@ import {
     HMICommand,
     CommandData,
     SwitchCommandParams,
+    LuiNavigation,
+    LuiNavigationButton,
 } from '../types/types'
 import * as NSPanelConstants from './nspanel-constants'
 
@@ -90,10 +92,13 @@ export class PageNodeBase<TConfig extends PageConfig> extends NodeBase<TConfig>
     }
 
     public generatePage(): HMICommand | HMICommand[] | null {
-        if (this.getCache().containsData()) return this.getCache().get()
+        if (!this.getCache().containsData()) {
+            this.getCache().put(this.doGeneratePage())
+        }
 
-        const pageData = this.doGeneratePage()
-        this.getCache().put(pageData)
+        // reported on each generation, as activating the page resets the node status
+        const pageData = this.getCache().get()
+        this.reportSanitizedContent(pageData)
 
         return pageData
     }
@@ -123,43 +128,28 @@ export class PageNodeBase<TConfig extends PageConfig> extends NodeBase<TConfig>
         return this.panelNode
     }
 
-    protected generateTitleNav() {
+    protected generateNavigation(): LuiNavigation {
         // TODO: feature-request: retrieve icons from nav target
-        let navPrev: string
-        let navNext: string
-
-        const navPrevEventMappings: EventMapping[] = this.pageNodeConfig.events.filter(
+        const navPrevEventMapping = this.pageNodeConfig.events.find(
             (item) => item.event === NSPanelConstants.STR_NAV_ID_PREVIOUS
         )
-        const navNextEventMappings: EventMapping[] = this.pageNodeConfig.events.filter(
+        const navNextEventMapping = this.pageNodeConfig.events.find(
             (item) => item.event === NSPanelConstants.STR_NAV_ID_NEXT
         )
 
-        if (navPrevEventMappings[0] != null) {
-            const item = navPrevEventMappings[0]
-            navPrev = NSPanelUtils.makeEntity(
-                NSPanelConstants.STR_LUI_ENTITY_BUTTON,
-                NSPanelConstants.STR_NAV_ID_PREVIOUS,
-                NSPanelUtils.getIcon(item.icon ?? ''),
-                NSPanelColorUtils.toHmiColor(item.iconColor ?? DEFAULT_LUI_COLOR)
-            )
-        } else {
-            navPrev = NSPanelUtils.makeEntity(NSPanelConstants.STR_LUI_ENTITY_NONE)
+        return {
+            prev: PageNodeBase.toNavigationButton(navPrevEventMapping),
+            next: PageNodeBase.toNavigationButton(navNextEventMapping),
         }
+    }
 
-        if (navNextEventMappings[0] != null) {
-            const item = navNextEventMappings[0]
-            navNext = NSPanelUtils.makeEntity(
-                NSPanelConstants.STR_LUI_ENTITY_BUTTON,
-                NSPanelConstants.STR_NAV_ID_PREVIOUS,
-                NSPanelUtils.getIcon(item.icon ?? ''),
-                NSPanelColorUtils.toHmiColor(item.iconColor ?? DEFAULT_LUI_COLOR)
-            )
-        } else {
-            navNext = NSPanelUtils.makeEntity(NSPanelConstants.STR_LUI_ENTITY_NONE)
-        }
+    private static toNavigationButton(eventMapping: EventMapping | undefined): LuiNavigationButton | null {
+        if (eventMapping == null) return null
 
-        return navPrev + STR_LUI_DELIMITER + navNext
+        return {
+            icon: NSPanelUtils.getIcon(eventMapping.icon ?? ''),
+            iconColor: NSPanelColorUtils.toHmiColor(eventMapping.iconColor ?? DEFAULT_LUI_COLOR),
+        }
     }
 
     protected getPageData(): PageData {
@@ -173,9 +163,21 @@ export class PageNodeBase<TConfig extends PageConfig> extends NodeBase<TConfig>
     }
 
     protected sendToPanel(data: HMICommand | HMICommand[]): void {
+        this.reportSanitizedContent(data)
         this.emit('page:send', this, data)
     }
 
+    /**
+     * Warns via node status, if texts of the page had to be changed to be sent to the panel.
+     */
+    protected reportSanitizedContent(data: HMICommand | HMICommand[] | null): void {
+        const hmiCmds: HMICommand[] = Array.isArray(data) ? data : [data]
+        if (hmiCmds.some((hmiCmd) => hmiCmd?.sanitized === true)) {
+            this.__log?.warn('Texts contain characters not supported by the panel or are too long, they were changed')
+            this.setNodeStatus('warn', 'common.status.contentSanitized')
+        }
+    }
+
     protected prePageNavigationEvent(_eventArgs: EventArgs, _eventConfig: EventMapping): boolean {
         return true
     }
@@ -315,7 +317,7 @@ export class PageNodeBase<TConfig extends PageConfig> extends NodeBase<TConfig>
         }
 
         // translate possible hardware button press when hw buttons do not controll power outputs (@see
-        const event2 = eventArgs.type === 'hw' ? `${eventArgs.type}.${eventArgs.source}` : eventArgs.event2
+        const event2 = eventArgs.type === 'hw' ? PageNodeBase.getHardwareEventName(eventArgs) : eventArgs.event2
 
         // event mapped in config?
         if (event2 != null && this.configuredEvents.has(event2)) {
@@ -327,6 +329,20 @@ export class PageNodeBase<TConfig extends PageConfig> extends NodeBase<TConfig>
         return handled
     }
 
+    /**
+     * Name of a hardware event as used in the event mapping, e.g. `hw.button1` for button presses and
+     * `hw.button1.hold` for long presses.
+     */
+    private static getHardwareEventName(eventArgs: EventArgs): string {
+        const eventName = `${eventArgs.type}.${eventArgs.source}`
+
+        return eventArgs.event === 'button' &&
+            eventArgs.event2 != null &&
+            eventArgs.event2 !== NSPanelConstants.STR_HW_BUTTON_EVENT_PRESS
+            ? `${eventName}.${eventArgs.event2}`
+            : eventName
+    }
+
     protected handleConfiguredEvent(eventArgs: EventArgs, cfgEvent: EventMapping, send: NodeRedSendCallback): boolean {
         let handled: boolean = false
         if (cfgEvent) {
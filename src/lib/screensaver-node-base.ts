@@ -1,5 +1,6 @@
 import { PageNodeBase } from './page-node-base'
 import { NSPanelUtils } from './nspanel-utils'
+import { NSPanelHmiCodec } from './nspanel-hmi-codec'
 import {
     PageOptions,
     NodeAPI,
@@ -13,14 +14,12 @@ import {
     PanelColor,
     InputHandlingResult,
     HMICommand,
-    HMICommandParameters,
+    LuiStatusIcon,
 } from '../types/types'
 import * as NSPanelConstants from './nspanel-constants'
 import { NSPanelMessageUtils } from './nspanel-message-utils'
 import { NSPanelColorUtils } from './nspanel-colorutils'
 
-const CMD_STATUSUPDATE: string = 'statusUpdate'
-
 export class ScreenSaverNodeBase<TConfig extends ScreenSaverBaseConfig>
     extends PageNodeBase<TConfig>
     implements IPageNode
@@ -91,18 +90,7 @@ export class ScreenSaverNodeBase<TConfig extends ScreenSaverBaseConfig>
 
         if (NSPanelUtils.stringIsNullOrEmpty(heading) && NSPanelUtils.stringIsNullOrEmpty(text)) return
 
-        const hmiCmdParams: HMICommandParameters = []
-        hmiCmdParams.push(heading)
-        hmiCmdParams.push(text)
-        hmiCmdParams.push(headingColor)
-        hmiCmdParams.push(textColor)
-
-        const hmiCmd: HMICommand = {
-            cmd: NSPanelConstants.STR_LUI_CMD_NOTIFY,
-            params: hmiCmdParams,
-        }
-
-        this.sendToPanel(hmiCmd)
+        this.sendToPanel(NSPanelHmiCodec.encode({ cmd: 'notify', heading, text, headingColor, textColor }))
     }
 
     protected generateStatusUpdate(): HMICommand | null {
@@ -110,26 +98,18 @@ export class ScreenSaverNodeBase<TConfig extends ScreenSaverBaseConfig>
             return null
         }
 
-        const hmiCmdParams: HMICommandParameters = []
-
-        for (let idx = 0; idx < 2; idx += 1) {
-            const item = this.statusData[idx]
-            const tmp: string =
-                item != null
-                    ? NSPanelUtils.makeIcon(
-                          (item.prefix ?? '') + NSPanelUtils.getIcon(item.icon) + (item.text ?? ''),
-                          item.iconColor
-                      )
-                    : NSPanelUtils.makeIcon(null, null)
-            hmiCmdParams.push(tmp)
-        }
-
-        const hmiCmd: HMICommand = {
-            cmd: CMD_STATUSUPDATE,
-            params: hmiCmdParams,
-        }
-
-        return hmiCmd
+        const toStatusIcon = (item: StatusItemData): LuiStatusIcon | null =>
+            item != null
+                ? {
+                      icon: (item.prefix ?? '') + NSPanelUtils.getIcon(item.icon) + (item.text ?? ''),
+                      iconColor: `${item.iconColor ?? ''}`,
+                  }
+                : null
+
+        return NSPanelHmiCodec.encode({
+            cmd: 'statusUpdate',
+            icons: [toStatusIcon(this.statusData[0]), toStatusIcon(this.statusData[1])],
+        })
     }
 
     public override isScreenSaver(): boolean {
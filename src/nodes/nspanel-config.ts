@@ -1,18 +1,32 @@
 /* eslint-disable import/no-import-module-exports */
 import { NodeBase } from '../lib/node-base'
-import { INodeConfig, IPanelConfigNode, PanelMqttConfig, VoidCallback } from '../types/types'
+import { NSPanelMqttClient } from '../lib/nspanel-mqtt-client'
+import {
+    INodeConfig,
+    IPanelConfigNode,
+    IPanelMqttClient,
+    MqttProtocolVersion,
+    PanelMqttConfig,
+    VoidCallback,
+} from '../types/types'
 
 module.exports = (RED) => {
-    interface NSPanelConfig extends INodeConfig, PanelMqttConfig {}
+    interface NSPanelConfig extends INodeConfig, Omit<PanelMqttConfig, 'protocolVersion'> {
+        protocolVersion: string | undefined
+    }
 
     interface NSPanelMqttCreds {
         mqttUsername: string | undefined
         mqttPassword: string | undefined
+        tlsCert: string | undefined
+        tlsKey: string | undefined
     }
 
     class NSPanelConfigNode extends NodeBase<NSPanelConfig, NSPanelMqttCreds> implements IPanelConfigNode {
         private config: NSPanelConfig
 
+        private mqttClient: IPanelMqttClient | null = null
+
         constructor(config: NSPanelConfig) {
             super(config, RED)
 
@@ -21,6 +35,8 @@ module.exports = (RED) => {
         }
 
         getMqttConfig(): PanelMqttConfig {
+            // MQTT 3.1.1 unless MQTT 5 is selected
+            const protocolVersion: MqttProtocolVersion = Number(this.config.protocolVersion) === 5 ? 5 : 4
             const cfg: PanelMqttConfig = {
                 broker: this.config.broker,
                 port: this.config.port,
@@ -28,18 +44,37 @@ module.exports = (RED) => {
                 keepAlive: this.config.keepAlive,
                 useTls: this.config.useTls,
                 cleanSession: this.config.cleanSession,
+                useWebSocket: this.config.useWebSocket,
+                webSocketPath: this.config.webSocketPath,
+                protocolVersion,
+                tlsCa: this.config.tlsCa,
+                rejectUnauthorized: this.config.rejectUnauthorized,
+                statusTopic: `nspanel-lui/${this.id}/status`,
             }
 
             if (this.credentials) {
                 cfg.username = this.credentials.mqttUsername
                 cfg.password = this.credentials.mqttPassword
+                cfg.tlsCert = this.credentials.tlsCert
+                cfg.tlsKey = this.credentials.tlsKey
             }
 
             return cfg
         }
 
+        getMqttClient(): IPanelMqttClient {
+            // one connection shared by all panels using this config
+            if (this.mqttClient == null) {
+                this.mqttClient = new NSPanelMqttClient(this.getMqttConfig())
+            }
+
+            return this.mqttClient
+        }
+
         private onClose(done: VoidCallback) {
             // TODO: inform nodes?
+            this.mqttClient?.dispose()
+            this.mqttClient = null
             done()
         }
     }
@@ -48,6 +83,8 @@ module.exports = (RED) => {
         credentials: {
             mqttUsername: { type: 'text' },
             mqttPassword: { type: 'password' },
+            tlsCert: { type: 'text' },
+            tlsKey: { type: 'password' },
         },
     })
 }
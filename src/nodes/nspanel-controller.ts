@@ -1,9 +1,12 @@
 /* eslint-disable import/no-import-module-exports */
 import { NodeBase } from '../lib/node-base'
 import { NSPanelController } from '../lib/nspanel-controller'
+import { NSPanelEmulator } from '../lib/nspanel-emulator'
 import { NSPanelMessageUtils } from '../lib/nspanel-message-utils'
+import { NSPanelScreenRenderer } from '../lib/nspanel-screen-renderer'
 import {
     CommandData,
+    EmulateCommandParams,
     EventArgs,
     FirmwareEventArgs,
     IPanelController,
@@ -15,11 +18,20 @@ import {
     NodeStatus,
     NotifyData,
     PanelMessage,
+    PanelScreen,
+    SensorStatsCommandParams,
     StatusLevel,
+    TasmotaCommandParams,
+    TasmotaCommandResult,
 } from '../types/types'
 import * as NSPanelConstants from '../lib/nspanel-constants'
 
+const SCREEN_TOPIC_PREFIX = 'nspanel-lui/screen/'
+
 module.exports = (RED) => {
+    // controllers by the id of their panel node, for the screen preview of the editor
+    const controllersByPanel: Map<string, IPanelController> = new Map()
+
     class NSPanelControllerNode extends NodeBase<PanelControllerConfig> {
         private nsPanelController: IPanelController | null = null
 
@@ -39,6 +51,9 @@ module.exports = (RED) => {
         }
 
         private onClose(done: NodeRedOnErrorCallback) {
+            if (controllersByPanel.get(this.config.nsPanel) === this.nsPanelController) {
+                controllersByPanel.delete(this.config.nsPanel)
+            }
             this.nsPanelController?.dispose()
             done()
         }
@@ -49,7 +64,7 @@ module.exports = (RED) => {
 
             switch (msg.topic) {
                 case NSPanelConstants.STR_MSG_TOPIC_COMMAND: {
-                    this.handleCommandInput(msg)
+                    this.handleCommandInput(msg, send)
                     break
                 }
 
@@ -64,7 +79,7 @@ module.exports = (RED) => {
             send(msg) // TODO: really forward or just consume
         }
 
-        private handleCommandInput(msg: PanelMessage): void {
+        private handleCommandInput(msg: PanelMessage, send: NodeRedSendCallback): void {
             const cmdInputData = Array.isArray(msg.payload) ? msg.payload : [msg.payload]
 
             const allCommands: CommandData[] = []
@@ -72,13 +87,53 @@ module.exports = (RED) => {
             cmdInputData.forEach((item, _idx) => {
                 const cmdResult: CommandData | null = NSPanelMessageUtils.convertToCommandData(item)
                 if (cmdResult !== null) {
-                    allCommands.push(cmdResult)
+                    const tasmotaParams = cmdResult.params as TasmotaCommandParams
+                    if (cmdResult.cmd === 'tasmota' && tasmotaParams.awaitResult) {
+                        this.handleCommandRequest(msg, tasmotaParams, send)
+                    } else if (cmdResult.cmd === 'getSensorStats') {
+                        this.handleSensorStatsRequest(msg, cmdResult.params as SensorStatsCommandParams, send)
+                    } else if (cmdResult.cmd === 'emulate') {
+                        this.handleEmulateRequest(cmdResult.params as EmulateCommandParams)
+                    } else {
+                        allCommands.push(cmdResult)
+                    }
                 }
             })
 
             this.nsPanelController?.executeCommand(allCommands)
         }
 
+        private handleCommandRequest(msg: PanelMessage, params: TasmotaCommandParams, send: NodeRedSendCallback) {
+            this.nsPanelController
+                ?.requestCommandResult({ cmd: params.cmd, data: params.data }, params.timeout)
+                .then((result: TasmotaCommandResult) => {
+                    // keep metadata of original msg
+                    send({ ...msg, topic: NSPanelConstants.STR_MSG_TOPIC_COMMAND_RESULT, payload: result })
+                })
+                .catch((err: unknown) => this.error(err, msg))
+        }
+
+        private handleSensorStatsRequest(
+            msg: PanelMessage,
+            params: SensorStatsCommandParams,
+            send: NodeRedSendCallback
+        ) {
+            const statistics = this.nsPanelController?.getSensorStatistics(params.reset)
+            if (statistics != null) {
+                send({ ...msg, topic: NSPanelConstants.STR_MSG_TOPIC_SENSOR_STATS, payload: statistics })
+            }
+        }
+
+        private handleEmulateRequest(params: EmulateCommandParams) {
+            // events can only be injected into the emulator transport of the panel
+            const mqttClient = this.panelNode?.getMqttClient()
+            if (mqttClient instanceof NSPanelEmulator) {
+                mqttClient.emulate(params)
+            } else {
+                this.warn(RED._('nspanel-controller.errors.noEmulator'))
+            }
+        }
+
         private init(ctrlConfig: PanelControllerConfig) {
             // get node-red/system/default locale
             const redLocaleOrDefault = RED.settings.lang ?? Intl.DateTimeFormat().resolvedOptions().locale ?? 'en'
@@ -97,6 +152,8 @@ module.exports = (RED) => {
                 controller.on('status', (eventArgs) => this.onControllerStatusEvent(eventArgs))
                 controller.on('sensor', (sensorData) => this.onControllerSensorEvent(sensorData))
                 controller.on('event', (msg) => this.onControllerEvent(msg))
+                controller.on('screen', (screen) => this.onControllerScreenUpdate(screen))
+                controllersByPanel.set(this.config.nsPanel, controller)
 
                 controller.registerPages(this.panelNode.getAllPages())
                 this.panelNode.on('page:register', (pageNode) => {
@@ -156,7 +213,31 @@ module.exports = (RED) => {
         private onControllerStatusEvent(nodeStatus: NodeStatus) {
             this.setNodeStatus(nodeStatus.statusLevel, nodeStatus.msg)
         }
+
+        private onControllerScreenUpdate(screen: PanelScreen) {
+            // live update of the screen preview in the editor
+            RED.comms.publish(
+                SCREEN_TOPIC_PREFIX + this.config.nsPanel,
+                { screen, html: NSPanelScreenRenderer.render(screen) },
+                true
+            )
+        }
     }
 
     RED.nodes.registerType('nspanel-controller', NSPanelControllerNode)
+
+    RED.httpAdmin.get(
+        '/nspanel-lui/panels/:id/screen',
+        RED.auth.needsPermission('nspanel-controller.read'),
+        (req, res) => {
+            const controller = controllersByPanel.get(req.params.id)
+            if (controller == null) {
+                res.sendStatus(404)
+                return
+            }
+
+            const screen = controller.getScreen()
+            res.json({ screen, html: NSPanelScreenRenderer.render(screen) })
+        }
+    )
 }
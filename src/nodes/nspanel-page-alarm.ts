@@ -2,12 +2,13 @@
 import { EntitiesPageNode } from '../lib/entities-page-node'
 import { NSPanelUtils } from '../lib/nspanel-utils'
 import { NSPanelColorUtils } from '../lib/nspanel-colorutils'
+import { NSPanelHmiCodec } from '../lib/nspanel-hmi-codec'
 import {
     AlarmData,
     EntityBasedPageConfig,
     HMICommand,
-    HMICommandParameters,
     InputHandlingResult,
+    LuiAlarmAction,
     NodeRedSendCallback,
     PageInputMessage,
     PanelColor,
@@ -93,11 +94,6 @@ module.exports = (RED) => {
         }
 
         protected override doGeneratePage(): HMICommand | null {
-            const hmiCmdParams: HMICommandParameters = []
-
-            const titleNav = this.generateTitleNav()
-            const entitites = this.generateEntities()
-
             const statusIcon = this.data?.statusIcon ?? this.config?.iconStatus ?? NSPanelConstants.STR_EMPTY
             const statusIconColor = this.data?.statusIconColor ?? this.config?.iconStatusColor
             const numpadStatus =
@@ -107,29 +103,25 @@ module.exports = (RED) => {
             const flashingStatus =
                 this.data?.statusIconFlashing ?? false ? NSPanelConstants.STR_ENABLE : NSPanelConstants.STR_DISABLE
 
-            hmiCmdParams.push(this.config.title ?? NSPanelConstants.STR_EMPTY)
-            hmiCmdParams.push(titleNav)
-            hmiCmdParams.push(this.config?.name ?? NSPanelConstants.STR_EMPTY)
-
-            hmiCmdParams.push(entitites)
-            hmiCmdParams.push(NSPanelUtils.getIcon(statusIcon))
-            hmiCmdParams.push(NSPanelColorUtils.toHmiColor(statusIconColor))
-            hmiCmdParams.push(numpadStatus)
-            hmiCmdParams.push(flashingStatus)
-
-            hmiCmdParams.push(NSPanelUtils.getIcon(this.config?.extraButtonIcon))
-            hmiCmdParams.push(NSPanelColorUtils.toHmiColor(this.config?.extraButtonIconColor))
-            hmiCmdParams.push(this.config?.extraButtonId ?? NSPanelConstants.STR_EMPTY)
-
-            const hmiCmd: HMICommand = {
-                cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATE,
-                params: hmiCmdParams,
-            }
-            return hmiCmd
+            return NSPanelHmiCodec.encode({
+                cmd: 'entityUpd',
+                card: 'cardAlarm',
+                title: this.config.title ?? NSPanelConstants.STR_EMPTY,
+                navigation: this.generateNavigation(),
+                entityId: this.config?.name ?? NSPanelConstants.STR_EMPTY,
+                actions: this.generateActions(),
+                statusIcon: NSPanelUtils.getIcon(statusIcon),
+                statusIconColor: NSPanelColorUtils.toHmiColor(statusIconColor),
+                numpadStatus,
+                flashingStatus,
+                extraButtonIcon: NSPanelUtils.getIcon(this.config?.extraButtonIcon),
+                extraButtonIconColor: NSPanelColorUtils.toHmiColor(this.config?.extraButtonIconColor),
+                extraButtonId: this.config?.extraButtonId ?? NSPanelConstants.STR_EMPTY,
+            })
         }
 
-        protected override generateEntities(): string {
-            const resultEntities: string[] = []
+        private generateActions(): LuiAlarmAction[] {
+            const resultActions: LuiAlarmAction[] = []
 
             const entities = this.getEntities()
             const maxEntities = this.options?.maxEntities
@@ -142,17 +134,13 @@ module.exports = (RED) => {
                 const text = entityData?.text ?? entityConfig.text
 
                 if (entityConfig.type === NSPanelConstants.STR_LUI_ENTITY_NONE) {
-                    resultEntities.push(`${NSPanelConstants.STR_LUI_DELIMITER}${entityConfig.entityId}`)
+                    resultActions.push({ text: NSPanelConstants.STR_EMPTY, action: entityConfig.entityId })
                 } else {
-                    resultEntities.push(
-                        `${text}${NSPanelConstants.STR_LUI_DELIMITER}${
-                            entityConfig.entityId ?? NSPanelConstants.STR_EMPTY
-                        }`
-                    )
+                    resultActions.push({ text, action: entityConfig.entityId ?? NSPanelConstants.STR_EMPTY })
                 }
             }
 
-            return resultEntities.join(NSPanelConstants.STR_LUI_DELIMITER)
+            return resultActions
         }
     }
 
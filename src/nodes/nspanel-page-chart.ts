@@ -1,14 +1,16 @@
 /* eslint-disable import/no-import-module-exports */
 import { PageNodeBase } from '../lib/page-node-base'
 import { NSPanelColorUtils } from '../lib/nspanel-colorutils'
+import { NSPanelHmiCodec } from '../lib/nspanel-hmi-codec'
 import { NSPanelMessageUtils } from '../lib/nspanel-message-utils'
 import {
     ChartData,
     ChartDataItem,
     EntityBasedPageConfig,
     HMICommand,
-    HMICommandParameters,
     InputHandlingResult,
+    LuiChartCardUpdate,
+    LuiChartValue,
     NodeRedSendCallback,
     PageInputMessage,
 } from '../types/types'
@@ -110,38 +112,28 @@ module.exports = (RED) => {
         }
 
         protected override doGeneratePage(): HMICommand | null {
-            const hmiCmdParams: HMICommandParameters = []
-
-            const titleNav = this.generateTitleNav()
             const yAxisLabel = this.data?.yAxisLabel ?? this.config?.yAxisLabel
             const chartColor = NSPanelColorUtils.toHmiColor(this.config?.chartColor)
-            const yTicks: string = this.data?.yAxisTicks?.join(':')
 
-            const values: string[] = []
+            const values: LuiChartValue[] = []
             // eslint-disable-next-line prefer-const
             for (let t in this.data?.values) {
                 const item = this.data?.values[t]
                 if (item != null && item.value != null) {
-                    let v: string = `${item.value}`
-                    if (item.label != null) {
-                        v += `^${item.label}`
-                    }
-                    values.push(v)
+                    values.push(item.label != null ? { value: item.value, label: item.label } : { value: item.value })
                 }
             }
 
-            hmiCmdParams.push(this.config.title ?? NSPanelConstants.STR_EMPTY)
-            hmiCmdParams.push(titleNav)
-            hmiCmdParams.push(`${chartColor}`)
-            hmiCmdParams.push(yAxisLabel ?? NSPanelConstants.STR_EMPTY)
-            hmiCmdParams.push(yTicks ?? NSPanelConstants.STR_EMPTY)
-            hmiCmdParams.push(...values)
-
-            const hmiCmd: HMICommand = {
-                cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATE,
-                params: hmiCmdParams,
-            }
-            return hmiCmd
+            return NSPanelHmiCodec.encode({
+                cmd: 'entityUpd',
+                card: this.getPageType() as LuiChartCardUpdate['card'],
+                title: this.config.title ?? NSPanelConstants.STR_EMPTY,
+                navigation: this.generateNavigation(),
+                color: chartColor,
+                yAxisLabel: yAxisLabel ?? NSPanelConstants.STR_EMPTY,
+                yAxisTicks: this.data?.yAxisTicks ?? [],
+                values,
+            })
         }
     }
 
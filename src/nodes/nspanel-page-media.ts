@@ -1,11 +1,11 @@
 /* eslint-disable import/no-import-module-exports */
 import { EntitiesPageNode } from '../lib/entities-page-node'
 import { NSPanelColorUtils } from '../lib/nspanel-colorutils'
+import { NSPanelHmiCodec } from '../lib/nspanel-hmi-codec'
 import { NSPanelUtils } from '../lib/nspanel-utils'
 import {
     EntityBasedPageConfig,
     HMICommand,
-    HMICommandParameters,
     InputHandlingResult,
     NodeRedSendCallback,
     PageInputMessage,
@@ -86,10 +86,6 @@ module.exports = (RED) => {
         }
 
         protected doGeneratePage(): HMICommand | null {
-            const hmiCmdParams: HMICommandParameters = []
-
-            const titleNav = this.generateTitleNav()
-
             const dTitle: string = this.data.title ?? NSPanelConstants.STR_EMPTY
             const dTitleColor: string = `${NSPanelColorUtils.toHmiColor(this.data.titleColor ?? NaN)}`
             const dArtist: string = this.data.artist ?? NSPanelConstants.STR_EMPTY
@@ -109,30 +105,22 @@ module.exports = (RED) => {
                 ? this.config.shuffleIcon ?? NSPanelConstants.STR_DISABLE
                 : NSPanelConstants.STR_DISABLE
 
-            hmiCmdParams.push(this.entitiesPageNodeConfig.title ?? NSPanelConstants.STR_EMPTY)
-
-            hmiCmdParams.push(titleNav)
-
-            hmiCmdParams.push(this.config?.id)
-
-            hmiCmdParams.push(dTitle)
-            hmiCmdParams.push(dTitleColor)
-            hmiCmdParams.push(dArtist)
-            hmiCmdParams.push(dArtistColor)
-            hmiCmdParams.push(dVolume)
-
-            hmiCmdParams.push(NSPanelUtils.getIcon(dIconPlayPause ?? DEFAULT_ICON_PLAY_PAUSE))
-            hmiCmdParams.push(dOnOffButton) // onOffBtn, "disable" or color
-            hmiCmdParams.push(NSPanelUtils.getIcon(dIconShuffle)) // iconShuffle, "disable" or icon
-
-            const entitites = this.generateEntities()
-            hmiCmdParams.push(entitites)
-
-            const hmiCmd: HMICommand = {
-                cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATE,
-                params: hmiCmdParams,
-            }
-            return hmiCmd
+            return NSPanelHmiCodec.encode({
+                cmd: 'entityUpd',
+                card: 'cardMedia',
+                title: this.entitiesPageNodeConfig.title ?? NSPanelConstants.STR_EMPTY,
+                navigation: this.generateNavigation(),
+                entityId: this.config?.id,
+                mediaTitle: dTitle,
+                mediaTitleColor: dTitleColor,
+                artist: dArtist,
+                artistColor: dArtistColor,
+                volume: dVolume,
+                iconPlayPause: NSPanelUtils.getIcon(dIconPlayPause ?? DEFAULT_ICON_PLAY_PAUSE),
+                onOffButton: dOnOffButton, // "disable" or color
+                iconShuffle: NSPanelUtils.getIcon(dIconShuffle), // "disable" or icon
+                entities: this.generateEntities(),
+            })
         }
     }
 
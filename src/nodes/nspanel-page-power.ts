@@ -2,8 +2,9 @@
 import { EntitiesPageNode } from '../lib/entities-page-node'
 import { NSPanelUtils } from '../lib/nspanel-utils'
 import { NSPanelColorUtils } from '../lib/nspanel-colorutils'
-import { STR_LUI_DELIMITER, STR_PAGE_TYPE_CARD_POWER } from '../lib/nspanel-constants'
-import { EntityBasedPageConfig, PowerEntityData } from '../types/types'
+import { NSPanelHmiCodec } from '../lib/nspanel-hmi-codec'
+import { STR_PAGE_TYPE_CARD_POWER } from '../lib/nspanel-constants'
+import { EntityBasedPageConfig, HMICommand, LuiPowerEntity, PowerEntityData } from '../types/types'
 
 type PagePowerConfig = EntityBasedPageConfig & {}
 
@@ -18,8 +19,18 @@ module.exports = (RED) => {
             super(config, RED, { pageType: STR_PAGE_TYPE_CARD_POWER, maxEntities: MAX_ENTITIES })
         }
 
-        protected override generateEntities(): string {
-            const resultEntities: string[] = []
+        protected override doGeneratePage(): HMICommand | null {
+            return NSPanelHmiCodec.encode({
+                cmd: 'entityUpd',
+                card: 'cardPower',
+                title: this.entitiesPageNodeConfig.title ?? '',
+                navigation: this.generateNavigation(),
+                entities: this.generateEntities(),
+            })
+        }
+
+        protected override generateEntities(): LuiPowerEntity[] {
+            const resultEntities: LuiPowerEntity[] = []
             const entities = this.getEntities()
 
             const maxEntities = this.options?.maxEntities
@@ -37,20 +48,18 @@ module.exports = (RED) => {
                 let speed = Number(entityData?.speed ?? DEFAULT_SPEED)
                 speed = NSPanelUtils.limitNumberToRange(speed, MIN_SPEED, MAX_SPEED, DEFAULT_SPEED)
 
-                let entity = NSPanelUtils.makeEntity(
-                    entityConfig.type,
-                    entityConfig.entityId,
-                    NSPanelUtils.getIcon(icon),
-                    NSPanelColorUtils.toHmiColor(iconColor),
+                resultEntities.push({
+                    type: entityConfig.type,
+                    entityId: entityConfig.entityId,
+                    icon: NSPanelUtils.getIcon(icon),
+                    iconColor: NSPanelColorUtils.toHmiColor(iconColor),
                     text,
-                    optionalValue
-                )
-                entity += `${STR_LUI_DELIMITER}${speed}`
-
-                resultEntities.push(entity)
+                    value: optionalValue,
+                    speed,
+                })
             }
 
-            return resultEntities.join(STR_LUI_DELIMITER)
+            return resultEntities
         }
     }
 
@@ -1,6 +1,7 @@
 /* eslint-disable import/no-import-module-exports */
 import { EntitiesPageNode } from '../lib/entities-page-node'
-import { EntityBasedPageConfig, HMICommand, HMICommandParameters, PanelEntity } from '../types/types'
+import { NSPanelHmiCodec } from '../lib/nspanel-hmi-codec'
+import { EntityBasedPageConfig, HMICommand, PanelEntity } from '../types/types'
 import * as NSPanelConstants from '../lib/nspanel-constants'
 
 interface PageQRConfig extends EntityBasedPageConfig {
@@ -34,22 +35,14 @@ module.exports = (RED) => {
         }
 
         protected override doGeneratePage(): HMICommand | null {
-            const hmiCmdParams: HMICommandParameters = []
-
-            const titleNav = this.generateTitleNav()
-            const qrText: string = this.config.qrCode ?? ''
-            const entitites = this.generateEntities()
-
-            hmiCmdParams.push(this.config.title ?? '')
-            hmiCmdParams.push(titleNav)
-            hmiCmdParams.push(qrText)
-            hmiCmdParams.push(entitites)
-
-            const hmiCmd: HMICommand = {
-                cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATE,
-                params: hmiCmdParams,
-            }
-            return hmiCmd
+            return NSPanelHmiCodec.encode({
+                cmd: 'entityUpd',
+                card: 'cardQR',
+                title: this.config.title ?? '',
+                navigation: this.generateNavigation(),
+                qrText: this.config.qrCode ?? '',
+                entities: this.generateEntities(),
+            })
         }
     }
 
@@ -7,17 +7,22 @@
 import { EntitiesPageNode } from '../lib/entities-page-node'
 import { NSPanelUtils } from '../lib/nspanel-utils'
 import { NSPanelColorUtils } from '../lib/nspanel-colorutils'
+import { NSPanelHmiCodec } from '../lib/nspanel-hmi-codec'
+import { NSPanelThermostat } from '../lib/nspanel-thermostat'
 import {
     EntityBasedPageConfig,
     PageInputMessage,
     NodeRedSendCallback,
     EventArgs,
     SensorEventArgs,
+    SensorMeasurement,
     PageEntityData,
     InputHandlingResult,
     HMICommand,
-    HMICommandParameters,
     HardwareEventArgs,
+    LuiThermoAction,
+    CommandData,
+    SwitchCommandParams,
 } from '../types/types'
 import * as NSPanelConstants from '../lib/nspanel-constants'
 
@@ -26,6 +31,7 @@ type PageThermoConfig = EntityBasedPageConfig & {
     currentTemperatureLabel: string
     statusLabel: string
     useOwnTempSensor: boolean
+    temperatureSensor: string
     showDetailsPopup: boolean
     hasSecondTargetTemperature: boolean
 
@@ -36,6 +42,15 @@ type PageThermoConfig = EntityBasedPageConfig & {
     maxHeatSetpointLimit: number
     temperatureSteps: number
     temperatureUnit: string
+
+    /* control */
+    controlEnabled: boolean
+    controlRelay: string
+    hysteresis: number
+    minOnTime: number
+    minOffTime: number
+    statusHeating: string
+    statusIdle: string
 }
 
 type PageThermoData = {
@@ -48,7 +63,12 @@ type PageThermoData = {
 
 const MAX_ENTITIES = 8
 const TEMPERATURE_RESOLUTION_FACTOR = 10
-const ACTION_EMPTY = NSPanelConstants.STR_LUI_DELIMITER.repeat(3)
+const ACTION_EMPTY: LuiThermoAction = {
+    icon: NSPanelConstants.STR_EMPTY,
+    iconColor: NSPanelConstants.STR_EMPTY,
+    state: NSPanelConstants.STR_EMPTY,
+    entityId: NSPanelConstants.STR_EMPTY,
+}
 
 module.exports = (RED) => {
     class PageThermoNode extends EntitiesPageNode<PageThermoConfig> {
@@ -65,10 +85,15 @@ module.exports = (RED) => {
             ]),
         }
 
+        private thermostat: NSPanelThermostat = new NSPanelThermostat()
+
+        private controlTimer: ReturnType<typeof setTimeout> | null = null
+
         constructor(config: PageThermoConfig) {
             super(config, RED, { pageType: NSPanelConstants.STR_PAGE_TYPE_CARD_THERMO, maxEntities: MAX_ENTITIES })
 
             this.init(config)
+            this.on('close', () => this.stopControlTimer())
         }
 
         private init(config: PageThermoConfig) {
@@ -80,6 +105,12 @@ module.exports = (RED) => {
             this.data.relayMapping.set('power1', [])
             this.data.relayMapping.set('power2', [])
 
+            this.thermostat = new NSPanelThermostat({
+                hysteresis: this.config.hysteresis,
+                minOnTime: this.config.minOnTime,
+                minOffTime: this.config.minOffTime,
+            })
+
             this.getEntities()?.forEach((entity) => {
                 if (entity.mappedToRelayEnabled === true) {
                     const mappedRelay = Number(entity.mappedRelay)
@@ -92,9 +123,6 @@ module.exports = (RED) => {
         }
 
         protected override doGeneratePage(): HMICommand | null {
-            const result: HMICommandParameters = []
-
-            const titleNav = this.generateTitleNav()
             const currTemp =
                 this.data.currentTemperature == null || Number.isNaN(this.data.currentTemperature)
                     ? ''
@@ -108,44 +136,109 @@ module.exports = (RED) => {
             const tempStep = Number(this.config?.temperatureSteps) * TEMPERATURE_RESOLUTION_FACTOR // TODO: NaN check
             const actions = this.generateActions()
 
-            result.push(this.entitiesPageNodeConfig.title ?? '')
-            result.push(titleNav)
-            result.push(this.config?.name ?? '') // TODO: should be configurable entityId?
-
-            result.push(currTemp)
-            result.push(targetTemp.toString())
-            result.push(this.data.status ?? NSPanelConstants.STR_EMPTY)
-            result.push(minHeatSetPoint.toString())
-            result.push(maxHeatSetPoint.toString())
-            result.push(tempStep.toString())
+            return NSPanelHmiCodec.encode({
+                cmd: 'entityUpd',
+                card: 'cardThermo',
+                title: this.entitiesPageNodeConfig.title ?? '',
+                navigation: this.generateNavigation(),
+                entityId: this.config?.name ?? '', // TODO: should be configurable entityId?
+                currentTemperature: currTemp,
+                targetTemperature: targetTemp.toString(),
+                status: this.data.status ?? NSPanelConstants.STR_EMPTY,
+                minTemperature: minHeatSetPoint.toString(),
+                maxTemperature: maxHeatSetPoint.toString(),
+                temperatureStep: tempStep.toString(),
+                actions,
+                currentTemperatureLabel: this.config?.currentTemperatureLabel ?? NSPanelConstants.STR_EMPTY,
+                statusLabel: this.config?.statusLabel ?? NSPanelConstants.STR_EMPTY,
+                detailsLabel: NSPanelConstants.STR_EMPTY,
+                unit: `°${this.config?.temperatureUnit}`,
+                targetTemperature2: this.config?.hasSecondTargetTemperature
+                    ? targetTemp2.toString()
+                    : NSPanelConstants.STR_EMPTY,
+                detailsDisabled: this.config?.showDetailsPopup ? NSPanelConstants.STR_EMPTY : '1',
+            })
+        }
 
-            result.push(actions)
+        protected isUseOwnSensorData(): boolean {
+            return this.config?.useOwnTempSensor ?? false
+        }
 
-            result.push(this.config?.currentTemperatureLabel ?? NSPanelConstants.STR_EMPTY)
-            result.push(this.config?.statusLabel ?? NSPanelConstants.STR_EMPTY)
-            result.push(NSPanelConstants.STR_EMPTY)
-            result.push(`°${this.config?.temperatureUnit}`)
+        /**
+         * Temperature of the configured sensor, e.g. `BME280`, or of the panel sensor, if none is configured.
+         */
+        private findTemperatureMeasurement(sensorEventArgs: SensorEventArgs): SensorMeasurement | null {
+            const temperatureSensor = this.config?.temperatureSensor?.trim().toLowerCase() ?? ''
+            if (temperatureSensor === '') {
+                return sensorEventArgs.temp != null
+                    ? {
+                          type: 'temperature',
+                          value: sensorEventArgs.temp,
+                          unit: sensorEventArgs.tempUnit?.toString() ?? '',
+                          source: sensorEventArgs.source,
+                      }
+                    : null
+            }
 
-            result.push(
-                (this.config?.hasSecondTargetTemperature ? targetTemp2.toString() : NSPanelConstants.STR_EMPTY) ??
-                    NSPanelConstants.STR_EMPTY
+            return (
+                sensorEventArgs.measurements?.find(
+                    (measurement) =>
+                        measurement.type === 'temperature' && measurement.source.toLowerCase() === temperatureSensor
+                ) ?? null
             )
+        }
 
-            result.push(this.config?.showDetailsPopup ? NSPanelConstants.STR_EMPTY : '1')
+        private getControlRelayId(): 0 | 1 {
+            return Number(this.config?.controlRelay) === 1 ? 1 : 0
+        }
 
-            const hmiCmd: HMICommand = {
-                cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATE,
-                params: result,
+        private stopControlTimer(): void {
+            if (this.controlTimer !== null) {
+                clearTimeout(this.controlTimer)
+                this.controlTimer = null
             }
-            return hmiCmd
         }
 
-        protected isUseOwnSensorData(): boolean {
-            return this.config?.useOwnTempSensor ?? false
+        private setHeating(heating: boolean): void {
+            this.thermostat.setHeating(heating)
+            this.data.status = heating ? this.config.statusHeating : this.config.statusIdle
         }
 
-        protected generateActions(): string {
-            const resultActions: string[] = []
+        /**
+         * Switches the control relay as decided by the thermostat, see NSPanelThermostat.
+         * Returns true, if the relay was switched.
+         */
+        private runControlLoop(): boolean {
+            this.stopControlTimer()
+            if (this.config?.controlEnabled !== true) return false
+
+            const currentTemp = this.data.currentTemperature
+            if (currentTemp == null) return false
+
+            const decision = this.thermostat.control(currentTemp, Number(this.data.targetTemperature))
+            if (decision.retryIn > 0) {
+                this.controlTimer = setTimeout(() => this.onControlTimer(), decision.retryIn)
+            }
+            if (decision.heating === null) return false
+
+            this.setHeating(decision.heating)
+            const switchParams: SwitchCommandParams = { id: this.getControlRelayId(), active: decision.heating }
+            const cmdData: CommandData = { cmd: 'switch', params: switchParams }
+            this.emit('page:cmd', this, cmdData)
+
+            return true
+        }
+
+        private onControlTimer(): void {
+            this.controlTimer = null
+            if (this.runControlLoop()) {
+                this.getCache().clear()
+                this.requestUpdate()
+            }
+        }
+
+        protected generateActions(): LuiThermoAction[] {
+            const resultActions: LuiThermoAction[] = []
             const entities = this.getEntities()
             let i
 
@@ -173,7 +266,7 @@ module.exports = (RED) => {
                 }
             }
 
-            return resultActions.join(NSPanelConstants.STR_LUI_DELIMITER) // FIXME: HMICommandParameters
+            return resultActions
         }
 
         private _renderAction(
@@ -182,12 +275,10 @@ module.exports = (RED) => {
             icon?: string,
             iconColorActive?: number,
             state?: string | number
-        ): string {
+        ): LuiThermoAction {
             if (type === NSPanelConstants.STR_LUI_ENTITY_NONE) return ACTION_EMPTY
 
-            return `${icon ?? ''}${NSPanelConstants.STR_LUI_DELIMITER}${iconColorActive ?? ''}${
-                NSPanelConstants.STR_LUI_DELIMITER
-            }${state ?? ''}${NSPanelConstants.STR_LUI_DELIMITER}${entityId ?? ''}`
+            return { icon: icon ?? '', iconColor: iconColorActive ?? '', state: state ?? '', entityId: entityId ?? '' }
         }
 
         protected override handleInput(msg: PageInputMessage, send: NodeRedSendCallback): InputHandlingResult {
@@ -206,16 +297,27 @@ module.exports = (RED) => {
                         this.setEntityData(entity.entityId, entityData)
                         dirty = true
                     })
+
+                    // control relay switched on the panel or by other flows
+                    if (
+                        this.config?.controlEnabled === true &&
+                        triggeredRelay === `power${this.getControlRelayId() + 1}` &&
+                        Boolean(triggeredRelayActive) !== this.thermostat.isHeating()
+                    ) {
+                        this.setHeating(Boolean(triggeredRelayActive))
+                        dirty = true
+                    }
                     break
                 }
 
                 case NSPanelConstants.STR_MSG_TOPIC_SENSOR: {
                     if (this.isUseOwnSensorData()) {
                         const sensorEventArgs: SensorEventArgs = msg.payload as SensorEventArgs
-                        if (sensorEventArgs.temp) {
+                        const temperature = this.findTemperatureMeasurement(sensorEventArgs)
+                        if (temperature != null) {
                             const tempMeasurement = NSPanelUtils.convertTemperature(
-                                sensorEventArgs.temp,
-                                sensorEventArgs.tempUnit?.toString() ?? '',
+                                temperature.value,
+                                temperature.unit,
                                 this.config.temperatureUnit
                             )
                             if (tempMeasurement !== this.data.currentTemperature) {
@@ -257,6 +359,7 @@ module.exports = (RED) => {
                 }
             }
             if (dirty) {
+                this.runControlLoop()
                 this.getCache().clear()
                 inputHandled.requestUpdate = true
             } else {
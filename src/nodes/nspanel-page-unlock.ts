@@ -1,11 +1,12 @@
 /* eslint-disable import/no-import-module-exports */
 import { NSPanelUtils } from '../lib/nspanel-utils'
 import { NSPanelColorUtils } from '../lib/nspanel-colorutils'
+import { NSPanelHmiCodec } from '../lib/nspanel-hmi-codec'
 import {
     EntityBasedPageConfig,
     EventArgs,
     HMICommand,
-    HMICommandParameters,
+    LuiAlarmAction,
     NodeRedSendCallback,
     PanelColor,
 } from '../types/types'
@@ -50,48 +51,38 @@ module.exports = (RED) => {
         }
 
         protected override doGeneratePage(): HMICommand | null {
-            const hmiCmdParams: HMICommandParameters = []
-
-            const titleNav = this.generateTitleNav()
-            const entitites = this.generateActionButtons()
-
             const statusIcon = this.config?.iconStatus ?? NSPanelConstants.STR_EMPTY
             const statusIconColor = this.config?.iconStatusColor
             const numpadStatus = NSPanelConstants.STR_ENABLE
             const flashingStatus = NSPanelConstants.STR_DISABLE
 
-            hmiCmdParams.push(this.config.title ?? NSPanelConstants.STR_EMPTY)
-            hmiCmdParams.push(titleNav)
-            hmiCmdParams.push(this.config?.name ?? NSPanelConstants.STR_EMPTY)
-
-            hmiCmdParams.push(entitites)
-            hmiCmdParams.push(NSPanelUtils.getIcon(statusIcon))
-            hmiCmdParams.push(NSPanelColorUtils.toHmiColor(statusIconColor))
-            hmiCmdParams.push(numpadStatus)
-            hmiCmdParams.push(flashingStatus)
-
-            // extra button
-            hmiCmdParams.push(NSPanelConstants.STR_EMPTY)
-            hmiCmdParams.push(NSPanelConstants.STR_EMPTY)
-            hmiCmdParams.push(NSPanelConstants.STR_EMPTY)
-
-            const hmiCmd: HMICommand = {
-                cmd: NSPanelConstants.STR_LUI_CMD_ENTITYUPDATE,
-                params: hmiCmdParams,
-            }
-            return hmiCmd
+            return NSPanelHmiCodec.encode({
+                cmd: 'entityUpd',
+                card: 'cardAlarm',
+                title: this.config.title ?? NSPanelConstants.STR_EMPTY,
+                navigation: this.generateNavigation(),
+                entityId: this.config?.name ?? NSPanelConstants.STR_EMPTY,
+                actions: this.generateActionButtons(),
+                statusIcon: NSPanelUtils.getIcon(statusIcon),
+                statusIconColor: NSPanelColorUtils.toHmiColor(statusIconColor),
+                numpadStatus,
+                flashingStatus,
+                // no extra button
+                extraButtonIcon: NSPanelConstants.STR_EMPTY,
+                extraButtonIconColor: NSPanelConstants.STR_EMPTY,
+                extraButtonId: NSPanelConstants.STR_EMPTY,
+            })
         }
 
-        private generateActionButtons(): string {
-            const resultEntities: string[] = []
-            resultEntities.push(
-                `${this.config?.unlockLabel ?? DEFAULT_LABEL}${NSPanelConstants.STR_LUI_DELIMITER}${UNLOCK_ACTION}`
-            )
-            resultEntities.push(`${NSPanelConstants.STR_LUI_DELIMITER}`)
-            resultEntities.push(`${NSPanelConstants.STR_LUI_DELIMITER}`)
-            resultEntities.push(`${NSPanelConstants.STR_LUI_DELIMITER}`)
+        private generateActionButtons(): LuiAlarmAction[] {
+            const emptyAction: LuiAlarmAction = { text: NSPanelConstants.STR_EMPTY, action: NSPanelConstants.STR_EMPTY }
 
-            return resultEntities.join(NSPanelConstants.STR_LUI_DELIMITER)
+            return [
+                { text: this.config?.unlockLabel ?? DEFAULT_LABEL, action: UNLOCK_ACTION },
+                emptyAction,
+                emptyAction,
+                emptyAction,
+            ]
         }
     }
 
@@ -1,25 +1,56 @@
 /* eslint-disable import/no-import-module-exports */
+import * as crypto from 'crypto'
+import * as path from 'path'
+
 import { NodeBase } from '../lib/node-base'
+import { NSPanelEmulator } from '../lib/nspanel-emulator'
+import { NSPanelHttpClient } from '../lib/nspanel-http-client'
 import { NSPanelUtils } from '../lib/nspanel-utils'
+import { MqttUtils } from '../lib/mqtt-utils'
 import {
     IPageNode,
     INodeConfig,
     IPanelConfigNode,
     VoidCallback,
     IPanelNodeEx,
+    IPanelMqttClient,
     PanelConfig,
     PageMap,
     PageId,
+    DimScheduleStart,
+    DimScheduleStep,
+    PanelTransport,
+    SensorFilter,
 } from '../types/types'
 
+type DimScheduleStepConfig = {
+    start: DimScheduleStart
+    time?: string
+    offset?: number
+    dimLow: number
+    dimHigh: number
+}
+
 interface NSPanelConfig extends INodeConfig {
     nsPanelConfig: string
 
     topic: string
     fullTopic: string
+    hostname: string | undefined
+    deviceId: string | undefined
+    cmndFullTopic: string | undefined
+    statFullTopic: string | undefined
+    teleFullTopic: string | undefined
+
+    transport: PanelTransport | undefined
+    httpAddress: string | undefined
+    httpPollInterval: string | undefined
 
     telePeriod: number
     detachRelays: boolean
+    maxMessagesPerSecond: string | undefined
+    recordTraffic: boolean | undefined
+    recordFile: string | undefined
 
     enableUpdates: boolean
     timeToCheckForUpdates: string
@@ -33,6 +64,17 @@ interface NSPanelConfig extends INodeConfig {
     panelDimHighNight: number
     panelDimLowStartTime: string | undefined
     panelDimLowNightStartTime: string | undefined
+    dimSchedule: DimScheduleStepConfig[] | undefined
+
+    tempCalibrationOffset: string | undefined
+    tempCalibrationScale: string | undefined
+    tempFilter: SensorFilter | undefined
+    tempFilterSize: string | undefined
+    tempOutlierThreshold: string | undefined
+    tempStatsPeriod: string | undefined
+
+    latitude: string | undefined
+    longitude: string | undefined
 
     dateFormatWeekday: 'short' | 'long'
     dateFormatDay: 'numeric' | '2-digit'
@@ -47,20 +89,37 @@ interface NSPanelConfig extends INodeConfig {
     timeCustomFormat: string
 }
 
+interface NSPanelCreds {
+    httpPassword: string | undefined
+    webhookToken: string | undefined
+}
+
 module.exports = (RED) => {
-    class NSPanelNode extends NodeBase<NSPanelConfig> implements IPanelNodeEx {
+    class NSPanelNode extends NodeBase<NSPanelConfig, NSPanelCreds> implements IPanelNodeEx {
         private nsPanelConfigNode: IPanelConfigNode
 
         private config: NSPanelConfig
 
         private pages: PageMap = new Map()
 
+        private httpClient: NSPanelHttpClient | null = null
+
+        private emulator: NSPanelEmulator | null = null
+
         constructor(config: NSPanelConfig) {
             super(config, RED)
 
             this.nsPanelConfigNode = <IPanelConfigNode>(<unknown>RED.nodes.getNode(config.nsPanelConfig))
             this.config = config
             this.on('close', (done: VoidCallback) => this.onClose(done))
+
+            if (this.config.transport === 'http') {
+                this.registerWebhook()
+            }
+
+            MqttUtils.getUnresolvedPlaceholders(this.getPanelConfig().panel).forEach((placeholder) => {
+                this.error(RED._('nspanel-panel.errors.unresolvedPlaceholder', { placeholder }))
+            })
         }
 
         registerPage(pageNode: IPageNode) {
@@ -77,13 +136,34 @@ module.exports = (RED) => {
             this.emit('nav:pageId', pageId) // TODO: move to controller, @see page-node-base #handlePageNavigationEvent
         }
 
+        private getRecordFile(): string {
+            // relative to the user directory of Node-RED, defaults to a record per panel topic
+            const recordFile = NSPanelUtils.stringIsNullOrEmpty(this.config.recordFile)
+                ? path.join('nspanel-lui', `${this.config.topic}.jsonl`)
+                : this.config.recordFile
+            return path.resolve(RED.settings.userDir ?? '.', recordFile)
+        }
+
         getPanelConfig(): PanelConfig {
             const cfg: PanelConfig = {
                 panel: {
                     topic: this.config.topic,
                     fullTopic: this.config.fullTopic,
+                    hostname: this.config.hostname,
+                    deviceId: this.config.deviceId,
+                    cmndFullTopic: this.config.cmndFullTopic,
+                    statFullTopic: this.config.statFullTopic,
+                    teleFullTopic: this.config.teleFullTopic,
+
+                    transport: this.config.transport ?? 'mqtt',
+                    httpAddress: this.config.httpAddress,
+                    httpPassword: this.credentials?.httpPassword,
+                    httpPollInterval: NSPanelUtils.toNumberOrNull(this.config.httpPollInterval) ?? undefined,
                     detachRelays: this.config.detachRelays,
                     telePeriod: this.config.telePeriod,
+                    maxMessagesPerSecond: NSPanelUtils.toNumberOrNull(this.config.maxMessagesPerSecond) ?? undefined,
+                    recordTraffic: this.config.recordTraffic === true,
+                    recordFile: this.getRecordFile(),
 
                     enableUpdates: this.config.enableUpdates,
                     timeToCheckForUpdates: NSPanelUtils.splitTime(this.config.timeToCheckForUpdates),
@@ -97,6 +177,17 @@ module.exports = (RED) => {
                     panelDimHighNight: this.config.panelDimHighNight,
                     panelDimLowStartTime: NSPanelUtils.splitTime(this.config.panelDimLowStartTime),
                     panelDimLowNightStartTime: NSPanelUtils.splitTime(this.config.panelDimLowNightStartTime),
+                    dimSchedule: this.getDimSchedule(),
+
+                    tempCalibrationOffset: NSPanelUtils.toNumberOrNull(this.config.tempCalibrationOffset) ?? undefined,
+                    tempCalibrationScale: NSPanelUtils.toNumberOrNull(this.config.tempCalibrationScale) ?? undefined,
+                    tempFilter: this.config.tempFilter,
+                    tempFilterSize: NSPanelUtils.toNumberOrNull(this.config.tempFilterSize) ?? undefined,
+                    tempOutlierThreshold: NSPanelUtils.toNumberOrNull(this.config.tempOutlierThreshold) ?? undefined,
+                    tempStatsPeriod: NSPanelUtils.toNumberOrNull(this.config.tempStatsPeriod) ?? undefined,
+
+                    latitude: NSPanelUtils.toNumberOrNull(this.config.latitude),
+                    longitude: NSPanelUtils.toNumberOrNull(this.config.longitude),
 
                     dateFormatWeekday: this.config.dateFormatWeekday,
                     dateFormatDay: this.config.dateFormatDay,
@@ -111,21 +202,106 @@ module.exports = (RED) => {
                     timeCustomFormat: this.config.timeCustomFormat,
                 },
 
-                mqtt: this.nsPanelConfigNode.getMqttConfig(),
+                mqtt: this.nsPanelConfigNode?.getMqttConfig() ?? null,
             }
 
             return cfg
         }
 
+        getMqttClient(): IPanelMqttClient {
+            if (this.config.transport === 'http') {
+                if (this.httpClient == null) {
+                    this.httpClient = new NSPanelHttpClient(this.getPanelConfig())
+                }
+                return this.httpClient
+            }
+
+            if (this.config.transport === 'emulator') {
+                if (this.emulator == null) {
+                    this.emulator = new NSPanelEmulator(this.getPanelConfig())
+                }
+                return this.emulator
+            }
+
+            return this.nsPanelConfigNode.getMqttClient()
+        }
+
+        private getDimSchedule(): DimScheduleStep[] {
+            const dimSchedule = this.config.dimSchedule ?? []
+
+            return dimSchedule.map((stepConfig) => ({
+                start: stepConfig.start,
+                time: stepConfig.start === 'time' ? NSPanelUtils.splitTime(stepConfig.time ?? null) : undefined,
+                offset: Number(stepConfig.offset) || 0,
+                dimLow: Number(stepConfig.dimLow),
+                dimHigh: Number(stepConfig.dimHigh),
+            }))
+        }
+
         getAllPages(): PageMap {
             return this.pages
         }
 
+        private getWebhookUrl(): string {
+            return `/nspanel-lui/${encodeURIComponent(this.config.topic)}/webhook`
+        }
+
+        private isWebhookTokenValid(token: unknown): boolean {
+            const webhookToken = this.credentials?.webhookToken
+            if (NSPanelUtils.stringIsNullOrEmpty(webhookToken) || typeof token !== 'string') return false
+
+            // compare in constant time, to not reveal the token by response times
+            const expected = Buffer.from(webhookToken)
+            const received = Buffer.from(token)
+            return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+        }
+
+        private registerWebhook() {
+            if (NSPanelUtils.stringIsNullOrEmpty(this.credentials?.webhookToken)) {
+                this.error(RED._('nspanel-panel.errors.webhookTokenMissing'))
+            }
+
+            // results of the panel, posted e.g. by a Tasmota rule on CustomRecv, with the token of the panel node
+            RED.httpNode.post(this.getWebhookUrl(), (req, res) => {
+                if (!this.isWebhookTokenValid(req.query?.token)) {
+                    res.sendStatus(403)
+                    return
+                }
+
+                let payload = ''
+                req.on('data', (chunk) => {
+                    payload += chunk
+                })
+                req.on('end', () => {
+                    this.httpClient?.receive(payload)
+                    res.sendStatus(200)
+                })
+            })
+        }
+
+        private removeWebhook() {
+            const webhookUrl = this.getWebhookUrl()
+            // eslint-disable-next-line no-underscore-dangle
+            const router = RED.httpNode._router
+            router.stack = router.stack.filter((layer) => layer.route?.path !== webhookUrl || !layer.route.methods.post)
+        }
+
         private onClose(done: VoidCallback) {
-            // TODO: inform anyone?
+            if (this.config.transport === 'http') {
+                this.removeWebhook()
+            }
+            this.httpClient?.dispose()
+            this.httpClient = null
+            this.emulator?.dispose()
+            this.emulator = null
             done()
         }
     }
 
-    RED.nodes.registerType('nspanel-panel', NSPanelNode)
+    RED.nodes.registerType('nspanel-panel', NSPanelNode, {
+        credentials: {
+            httpPassword: { type: 'password' },
+            webhookToken: { type: 'password' },
+        },
+    })
 }
@@ -2,7 +2,8 @@
 import { ScreenSaverNodeBase } from '../lib/screensaver-node-base'
 import { NSPanelUtils } from '../lib/nspanel-utils'
 import { NSPanelColorUtils } from '../lib/nspanel-colorutils'
-import { HMICommand, HMICommandParameters, PageData, PanelColor, ScreenSaverBaseConfig } from '../types/types'
+import { NSPanelHmiCodec } from '../lib/nspanel-hmi-codec'
+import { HMICommand, LuiEntity, PageData, PanelColor, ScreenSaverBaseConfig } from '../types/types'
 import * as NSPanelConstants from '../lib/nspanel-constants'
 
 type ScreenSaverConfig = ScreenSaverBaseConfig & {
@@ -26,9 +27,6 @@ type ScreenSaverConfig = ScreenSaverBaseConfig & {
 }
 
 const MAX_ENTITIES = 6
-const CMD_COLOR: string = 'color'
-
-const CMD_WEATHERUPDATE: string = 'weatherUpdate'
 const DEFAULT_LUI_BACKGROUND = NSPanelConstants.STR_LUI_COLOR_BLACK
 const DEFAULT_LUI_FOREGROUND = NSPanelConstants.STR_LUI_COLOR_WHITE
 
@@ -52,6 +50,8 @@ module.exports = (RED) => {
                 if (colorSet) result.push(colorSet)
             }
 
+            this.reportSanitizedContent(result)
+
             return result
         }
 
@@ -61,75 +61,42 @@ module.exports = (RED) => {
                 return null
             }
 
-            const hmiCmdParams: HMICommandParameters = []
-            const data = pageData.entities
-
-            // eslint-disable-next-line prefer-const
-            for (let i in data) {
-                const item = data[i]
-                const entity = NSPanelUtils.makeEntity(
-                    '',
-                    '',
-                    NSPanelUtils.getIcon(item.icon),
-                    NSPanelColorUtils.toHmiColor(item.iconColor ?? NaN),
-                    item.text,
-                    item.value
-                )
-                hmiCmdParams.push(entity)
-            }
-
-            const hmiCmd: HMICommand = {
-                cmd: CMD_WEATHERUPDATE,
-                params: hmiCmdParams,
-            }
+            const entities: LuiEntity[] = pageData.entities.map((item) => ({
+                type: '',
+                entityId: '',
+                icon: NSPanelUtils.getIcon(item.icon),
+                iconColor: NSPanelColorUtils.toHmiColor(item.iconColor ?? NaN),
+                text: item.text,
+                value: item.value,
+            }))
 
-            return hmiCmd
+            return NSPanelHmiCodec.encode({ cmd: 'weatherUpdate', entities })
         }
 
         private generateColorCommand(): HMICommand {
             const config: ScreenSaverConfig = this.getConfig()
 
-            const colorBackground = NSPanelColorUtils.toHmiColor(config?.colorBackground, DEFAULT_LUI_BACKGROUND)
-            const colorTime = NSPanelColorUtils.toHmiColor(config?.colorTime, DEFAULT_LUI_FOREGROUND)
-            const colorTimeAmPm = NSPanelColorUtils.toHmiColor(config?.colorTimeAmPm, DEFAULT_LUI_FOREGROUND)
-            const colorDate = NSPanelColorUtils.toHmiColor(config?.colorDate, DEFAULT_LUI_FOREGROUND)
-            const colorMainText = NSPanelColorUtils.toHmiColor(config?.colorMainText, DEFAULT_LUI_FOREGROUND)
-            const colorForecast1 = NSPanelColorUtils.toHmiColor(config?.colorForecast1, DEFAULT_LUI_FOREGROUND)
-            const colorForecast2 = NSPanelColorUtils.toHmiColor(config?.colorForecast2, DEFAULT_LUI_FOREGROUND)
-            const colorForecast3 = NSPanelColorUtils.toHmiColor(config?.colorForecast3, DEFAULT_LUI_FOREGROUND)
-            const colorForecast4 = NSPanelColorUtils.toHmiColor(config?.colorForecast4, DEFAULT_LUI_FOREGROUND)
-            const colorForecastVal1 = NSPanelColorUtils.toHmiColor(config?.colorForecastVal1, DEFAULT_LUI_FOREGROUND)
-            const colorForecastVal2 = NSPanelColorUtils.toHmiColor(config?.colorForecastVal2, DEFAULT_LUI_FOREGROUND)
-            const colorForecastVal3 = NSPanelColorUtils.toHmiColor(config?.colorForecastVal3, DEFAULT_LUI_FOREGROUND)
-            const colorForecastVal4 = NSPanelColorUtils.toHmiColor(config?.colorForecastVal4, DEFAULT_LUI_FOREGROUND)
-            const colorBar = NSPanelColorUtils.toHmiColor(config?.colorBar, DEFAULT_LUI_FOREGROUND)
-            const colorMainTextAlt2 = NSPanelColorUtils.toHmiColor(config?.colorMainTextAlt2, DEFAULT_LUI_FOREGROUND)
-            const colorTimeAdd = NSPanelColorUtils.toHmiColor(config?.colorTimeAdd, DEFAULT_LUI_FOREGROUND)
-
-            const result: HMICommandParameters = []
-            result.push(colorBackground)
-            result.push(colorTime)
-            result.push(colorTimeAmPm)
-            result.push(colorDate)
-            result.push(colorMainText)
-            result.push(colorForecast1)
-            result.push(colorForecast2)
-            result.push(colorForecast3)
-            result.push(colorForecast4)
-            result.push(colorForecastVal1)
-            result.push(colorForecastVal2)
-            result.push(colorForecastVal3)
-            result.push(colorForecastVal4)
-            result.push(colorBar)
-            result.push(colorMainTextAlt2)
-            result.push(colorTimeAdd)
-
-            const hmiCmd: HMICommand = {
-                cmd: CMD_COLOR,
-                params: result,
-            }
-
-            return hmiCmd
+            return NSPanelHmiCodec.encode({
+                cmd: 'color',
+                colors: {
+                    background: NSPanelColorUtils.toHmiColor(config?.colorBackground, DEFAULT_LUI_BACKGROUND),
+                    time: NSPanelColorUtils.toHmiColor(config?.colorTime, DEFAULT_LUI_FOREGROUND),
+                    timeAmPm: NSPanelColorUtils.toHmiColor(config?.colorTimeAmPm, DEFAULT_LUI_FOREGROUND),
+                    date: NSPanelColorUtils.toHmiColor(config?.colorDate, DEFAULT_LUI_FOREGROUND),
+                    mainText: NSPanelColorUtils.toHmiColor(config?.colorMainText, DEFAULT_LUI_FOREGROUND),
+                    forecast1: NSPanelColorUtils.toHmiColor(config?.colorForecast1, DEFAULT_LUI_FOREGROUND),
+                    forecast2: NSPanelColorUtils.toHmiColor(config?.colorForecast2, DEFAULT_LUI_FOREGROUND),
+                    forecast3: NSPanelColorUtils.toHmiColor(config?.colorForecast3, DEFAULT_LUI_FOREGROUND),
+                    forecast4: NSPanelColorUtils.toHmiColor(config?.colorForecast4, DEFAULT_LUI_FOREGROUND),
+                    forecastVal1: NSPanelColorUtils.toHmiColor(config?.colorForecastVal1, DEFAULT_LUI_FOREGROUND),
+                    forecastVal2: NSPanelColorUtils.toHmiColor(config?.colorForecastVal2, DEFAULT_LUI_FOREGROUND),
+                    forecastVal3: NSPanelColorUtils.toHmiColor(config?.colorForecastVal3, DEFAULT_LUI_FOREGROUND),
+                    forecastVal4: NSPanelColorUtils.toHmiColor(config?.colorForecastVal4, DEFAULT_LUI_FOREGROUND),
+                    bar: NSPanelColorUtils.toHmiColor(config?.colorBar, DEFAULT_LUI_FOREGROUND),
+                    mainTextAlt2: NSPanelColorUtils.toHmiColor(config?.colorMainTextAlt2, DEFAULT_LUI_FOREGROUND),
+                    timeAdd: NSPanelColorUtils.toHmiColor(config?.colorTimeAdd, DEFAULT_LUI_FOREGROUND),
+                },
+            })
         }
     }
 
@@ -2,11 +2,12 @@
 import { ScreenSaverNodeBase } from '../lib/screensaver-node-base'
 import { NSPanelUtils } from '../lib/nspanel-utils'
 import { NSPanelColorUtils } from '../lib/nspanel-colorutils'
+import { NSPanelHmiCodec } from '../lib/nspanel-hmi-codec'
 import { NSPanelMessageUtils } from '../lib/nspanel-message-utils'
 import {
     HMICommand,
-    HMICommandParameters,
     InputHandlingResult,
+    LuiEntity,
     NodeRedSendCallback,
     PageData,
     PageEntityData,
@@ -20,8 +21,14 @@ type ScreenSaverConfig = ScreenSaverBaseConfig & {}
 
 const MAX_ENTITIES = 6
 const MAX_STATUS2_ITEMS = 8
-const CMD_WEATHERUPDATE: string = 'weatherUpdate'
-const BLANK_ENTITY = NSPanelUtils.makeEntity(NSPanelConstants.STR_LUI_ENTITY_NONE)
+const BLANK_ENTITY: LuiEntity = {
+    type: NSPanelConstants.STR_LUI_ENTITY_NONE,
+    entityId: '',
+    icon: '',
+    iconColor: '',
+    text: '',
+    value: '',
+}
 
 module.exports = (RED) => {
     class ScreenSaver2PageNode extends ScreenSaverNodeBase<ScreenSaverConfig> {
@@ -43,6 +50,8 @@ module.exports = (RED) => {
             const weatherUpdate = this.generateWeatherUpdate()
             if (weatherUpdate) result.push(weatherUpdate)
 
+            this.reportSanitizedContent(result)
+
             return result
         }
 
@@ -111,16 +120,16 @@ module.exports = (RED) => {
                 return null
             }
 
-            const hmiCmdParams: HMICommandParameters = []
+            const entities: LuiEntity[] = []
 
             const mainStatusEntity = this.makeStatusItem(this.status2Data[0])
-            hmiCmdParams.push(mainStatusEntity)
+            entities.push(mainStatusEntity)
 
             // eslint-disable-next-line prefer-const
             for (let idx = 6; idx < 9; idx += 1) {
                 const item = this.status2Data[idx]
                 const entity = this.makeStatusItem(item)
-                hmiCmdParams.push(entity)
+                entities.push(entity)
             }
 
             // 6 bottom entities
@@ -128,18 +137,18 @@ module.exports = (RED) => {
             // eslint-disable-next-line prefer-const
             for (let i = 0; i < MAX_ENTITIES; i += 1) {
                 const item = entityData[i]
-                const entity =
+                const entity: LuiEntity =
                     item != null
-                        ? NSPanelUtils.makeEntity(
-                              '',
-                              '',
-                              NSPanelUtils.getIcon(item.icon),
-                              NSPanelColorUtils.toHmiColor(item.iconColor ?? NaN),
-                              item.text,
-                              item.value
-                          )
+                        ? {
+                              type: '',
+                              entityId: '',
+                              icon: NSPanelUtils.getIcon(item.icon),
+                              iconColor: NSPanelColorUtils.toHmiColor(item.iconColor ?? NaN),
+                              text: item.text,
+                              value: item.value,
+                          }
                         : BLANK_ENTITY
-                hmiCmdParams.push(entity)
+                entities.push(entity)
             }
 
             // 5 right icons
@@ -147,31 +156,23 @@ module.exports = (RED) => {
             for (let idx = 1; idx < 6; idx += 1) {
                 const item = this.status2Data[idx]
                 const entity = this.makeStatusItem(item)
-                hmiCmdParams.push(entity)
-            }
-
-            const hmiCmd: HMICommand = {
-                cmd: CMD_WEATHERUPDATE,
-                params: hmiCmdParams,
+                entities.push(entity)
             }
 
-            return hmiCmd
+            return NSPanelHmiCodec.encode({ cmd: 'weatherUpdate', entities })
         }
 
-        private makeStatusItem(item: StatusItemData): string {
-            const entity =
-                item != null
-                    ? NSPanelUtils.makeEntity(
-                          'text',
-                          `${item.index}`,
-                          (item.prefix ?? '') + NSPanelUtils.getIcon(item.icon),
-                          NSPanelColorUtils.toHmiColor(NaN),
-                          null,
-                          item.text ?? ''
-                      )
-                    : BLANK_ENTITY
-
-            return entity
+        private makeStatusItem(item: StatusItemData): LuiEntity {
+            if (item == null) return BLANK_ENTITY
+
+            return {
+                type: NSPanelConstants.STR_LUI_ENTITY_TEXT,
+                entityId: `${item.index}`,
+                icon: (item.prefix ?? '') + NSPanelUtils.getIcon(item.icon),
+                iconColor: NSPanelColorUtils.toHmiColor(NaN),
+                text: '',
+                value: item.text ?? '',
+            }
         }
     }
 
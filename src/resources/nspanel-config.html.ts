@@ -17,11 +17,18 @@
                 keepAlive: { value: 60, validate: RED.validators.number() },
                 useTls: { value: false },
                 cleanSession: { value: false },
+                useWebSocket: { value: false },
+                webSocketPath: { value: '/mqtt' },
+                protocolVersion: { value: '4' },
+                tlsCa: { value: '' },
+                rejectUnauthorized: { value: true },
             },
 
             credentials: {
                 mqttUsername: { type: 'text' },
                 mqttPassword: { type: 'password' },
+                tlsCert: { type: 'text' },
+                tlsKey: { type: 'password' },
             },
 
             label() {
@@ -33,6 +40,21 @@
                     this.keepAlive = 60
                     $('#node-config-input-keepAlive').val(this.keepAlive)
                 }
+                if (typeof this.rejectUnauthorized === 'undefined') {
+                    this.rejectUnauthorized = true
+                    $('#node-config-input-rejectUnauthorized').prop('checked', true)
+                }
+
+                $('#node-config-input-useTls')
+                    .on('change', (event) => {
+                        $('.nspanel-config-tls').toggle($(event.target).is(':checked'))
+                    })
+                    .trigger('change')
+                $('#node-config-input-useWebSocket')
+                    .on('change', (event) => {
+                        $('.nspanel-config-websocket').toggle($(event.target).is(':checked'))
+                    })
+                    .trigger('change')
             },
         })
 
@@ -0,0 +1,85 @@
+// eslint-disable-next-line func-names
+;(function ($) {
+    const PREVIEW_TAB_ID = 'nspanel-lui-preview'
+    const SCREEN_TOPIC_PREFIX = 'nspanel-lui/screen/'
+    const SCREEN_WIDTH = 480
+
+    const i18n = (key: string) => NSPanelLui._(`preview.${key}`, 'nspanel-controller')
+
+    const registerPreview = () => {
+        if (RED.sidebar.containsTab(PREVIEW_TAB_ID)) return
+
+        const content = $('<div>').css({ position: 'relative', height: '100%', overflow: 'auto' })
+        const toolbar = $('<div class="red-ui-sidebar-header">').appendTo(content)
+        const panelSelect = $('<select>').css({ width: '100%' }).appendTo(toolbar)
+        const screenContainer = $('<div>').css({ padding: '8px', overflow: 'hidden' }).appendTo(content)
+
+        let subscribedTopic: string | null = null
+
+        const showScreen = (html: string | null) => {
+            if (html == null) {
+                screenContainer.empty().append($('<p>').text(i18n('noScreen')))
+                return
+            }
+
+            // scale the screen to the width of the sidebar
+            const scale = Math.min(1, (screenContainer.width() ?? SCREEN_WIDTH) / SCREEN_WIDTH)
+            const screen = $(html).css({ transform: `scale(${scale})`, transformOrigin: 'top left' })
+            screenContainer.empty().append(screen)
+        }
+
+        const onScreenUpdate = (_topic: string, data) => {
+            showScreen(data?.html ?? null)
+        }
+
+        const selectPanel = (panelId: string | null) => {
+            if (subscribedTopic != null) {
+                RED.comms.unsubscribe(subscribedTopic, onScreenUpdate)
+                subscribedTopic = null
+            }
+            if (panelId == null || panelId === '') {
+                showScreen(null)
+                return
+            }
+
+            $.getJSON(`nspanel-lui/panels/${panelId}/screen`)
+                .done((data) => showScreen(data?.html ?? null))
+                .fail(() => showScreen(null))
+
+            subscribedTopic = SCREEN_TOPIC_PREFIX + panelId
+            RED.comms.subscribe(subscribedTopic, onScreenUpdate)
+        }
+
+        const refreshPanels = () => {
+            const selectedPanel = panelSelect.val()
+            panelSelect.empty()
+            RED.nodes.eachConfig((node) => {
+                if (node.type === 'nspanel-panel') {
+                    $('<option>')
+                        .val(node.id)
+                        .text(node.name || node.id)
+                        .appendTo(panelSelect)
+                }
+                return true
+            })
+            if (selectedPanel != null) {
+                panelSelect.val(selectedPanel)
+            }
+            selectPanel(panelSelect.val() as string)
+        }
+
+        panelSelect.on('change', () => selectPanel(panelSelect.val() as string))
+
+        RED.sidebar.addTab({
+            id: PREVIEW_TAB_ID,
+            label: i18n('label'),
+            name: i18n('name'),
+            iconClass: 'fa fa-television',
+            content,
+            enableOnEdit: true,
+            onchange: refreshPanels,
+        })
+    }
+
+    $.getScript('resources/node-red-contrib-nspanel-lui/nspanel-lui.js').done(registerPreview)
+})(jQuery)
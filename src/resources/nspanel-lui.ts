@@ -32,6 +32,8 @@ type EventMappingContainer = import('../types/nspanel-lui-editor').EventMappingC
     const ALL_VALID_BUTTON_EVENTS: EventDescriptor[] = [
         { event: 'hw.button1', label: '' },
         { event: 'hw.button2', label: '' },
+        { event: 'hw.button1.hold', label: '' },
+        { event: 'hw.button2.hold', label: '' },
     ]
 
     const addHardwareButtonEventsIfApplicable = (
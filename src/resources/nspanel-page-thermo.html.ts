@@ -36,6 +36,7 @@
                 events: { value: [] },
                 entities: { value: [] },
                 useOwnTempSensor: { value: true },
+                temperatureSensor: { value: '' },
                 showDetailsPopup: { value: false },
                 hasSecondTargetTemperature: { value: false },
                 currentTemperatureLabel: { value: '' },
@@ -127,6 +128,13 @@
                 },
                 temperatureSteps: { value: '0.1', required: true, validate: RED.validators.number() },
                 temperatureUnit: { value: 'C', required: true },
+                controlEnabled: { value: false },
+                controlRelay: { value: '0' },
+                hysteresis: { value: 0.5, validate: (v) => Number(v) >= 0 },
+                minOnTime: { value: 5, validate: (v) => Number(v) >= 0 },
+                minOffTime: { value: 5, validate: (v) => Number(v) >= 0 },
+                statusHeating: { value: NSPanelLui._('defaults.statusHeating', 'nspanel-page-thermo') },
+                statusIdle: { value: NSPanelLui._('defaults.statusIdle', 'nspanel-page-thermo') },
             },
 
             label() {
@@ -142,6 +150,20 @@
                     nsPanelTargetTemperature2.toggle(checked)
                 })
 
+                const useOwnTempSensorField = $('#node-input-useOwnTempSensor')
+                const nsPanelTemperatureSensor = $('#nsPanel-temperatureSensor')
+
+                useOwnTempSensorField.on('change', () => {
+                    nsPanelTemperatureSensor.toggle(useOwnTempSensorField.is(':checked'))
+                })
+
+                const controlEnabledField = $('#node-input-controlEnabled')
+                const nsPanelControl = $('.nsPanel-control')
+
+                controlEnabledField.on('change', () => {
+                    nsPanelControl.toggle(controlEnabledField.is(':checked'))
+                })
+
                 // eslint-disable-next-line @typescript-eslint/no-this-alias
                 const self = this
                 const eventInputControl = $('#node-input-event-control')
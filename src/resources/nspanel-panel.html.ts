@@ -6,6 +6,23 @@
     const PANEL_TIMEOUT_MAX = 65
     const PANEL_TELEPERIOD_MIN = 10
     const PANEL_TELEPERIOD_MAX = 3600
+    const PANEL_MESSAGE_RATE_MIN = 0
+    const PANEL_MESSAGE_RATE_MAX = 100
+    const SENSOR_FILTER_SIZE_MIN = 1
+    const SENSOR_FILTER_SIZE_MAX = 20
+
+    type DimScheduleStepConfig = {
+        start?: string
+        time?: string
+        offset?: number
+        dimLow?: number
+        dimHigh?: number
+    }
+
+    const usesFullTopicPlaceholder = (node, placeholder: string): boolean =>
+        [node.fullTopic, node.cmndFullTopic, node.statFullTopic, node.teleFullTopic].some((fullTopic) =>
+            String(fullTopic ?? '').includes(placeholder)
+        )
 
     const registerType = () =>
         RED.nodes.registerType('nspanel-panel', {
@@ -22,8 +39,40 @@
                 name: { value: NSPanelLui._('defaults.name', 'nspanel-panel') },
                 topic: { value: '', required: true },
                 fullTopic: { value: '', required: true },
+                hostname: {
+                    value: '',
+                    validate(v) {
+                        // required, if used as placeholder in one of the topics
+                        return !usesFullTopicPlaceholder(this, '%hostname%') || !!v
+                    },
+                },
+                deviceId: {
+                    value: '',
+                    validate(v) {
+                        return !usesFullTopicPlaceholder(this, '%id%') || !!v
+                    },
+                },
+                cmndFullTopic: { value: '' },
+                statFullTopic: { value: '' },
+                teleFullTopic: { value: '' },
 
-                nsPanelConfig: { value: '', type: 'nspanel-config', required: true },
+                nsPanelConfig: {
+                    value: '',
+                    type: 'nspanel-config',
+                    required: false,
+                    validate(v) {
+                        // broker config only required for mqtt transport
+                        return (this.transport ?? 'mqtt') !== 'mqtt' || (!!v && v !== '_ADD_')
+                    },
+                },
+                transport: { value: 'mqtt' },
+                httpAddress: {
+                    value: '',
+                    validate(v) {
+                        return this.transport !== 'http' || NSPanelLui.Editor.validate.stringIsNotNullOrEmpty(v)
+                    },
+                },
+                httpPollInterval: { value: 30, validate: RED.validators.number(true) },
                 detachRelays: { value: false },
                 enableUpdates: { value: true },
                 autoUpdate: { value: false },
@@ -44,6 +93,15 @@
                     },
                 },
 
+                maxMessagesPerSecond: {
+                    value: 10,
+                    required: false,
+                    validate: (v) =>
+                        NSPanelLui.Editor.validate.isNumberInRange(v, PANEL_MESSAGE_RATE_MIN, PANEL_MESSAGE_RATE_MAX),
+                },
+                recordTraffic: { value: false },
+                recordFile: { value: '' },
+
                 panelTimeout: {
                     value: 10,
                     required: true,
@@ -80,6 +138,39 @@
                     validate: (v) =>
                         NSPanelLui.Editor.validate.isNumberInRange(v, PANEL_DIMVALUE_MIN, PANEL_DIMVALUE_MAX),
                 },
+                dimSchedule: { value: [] },
+                tempCalibrationOffset: {
+                    value: 0,
+                    validate: (v) => v === '' || !Number.isNaN(Number(v)),
+                },
+                tempCalibrationScale: {
+                    value: 1,
+                    validate: (v) => v === '' || Number(v) > 0,
+                },
+                tempFilter: { value: 'none' },
+                tempFilterSize: {
+                    value: 5,
+                    validate: (v) =>
+                        v === '' ||
+                        NSPanelLui.Editor.validate.isNumberInRange(v, SENSOR_FILTER_SIZE_MIN, SENSOR_FILTER_SIZE_MAX),
+                },
+                tempOutlierThreshold: {
+                    value: 0,
+                    validate: (v) => v === '' || Number(v) >= 0,
+                },
+                tempStatsPeriod: {
+                    value: 24,
+                    validate: (v) => v === '' || Number(v) > 0,
+                },
+
+                latitude: {
+                    value: '',
+                    validate: (v) => v === '' || NSPanelLui.Editor.validate.isNumberInRange(v, -90, 90),
+                },
+                longitude: {
+                    value: '',
+                    validate: (v) => v === '' || NSPanelLui.Editor.validate.isNumberInRange(v, -180, 180),
+                },
                 dateFormatWeekday: { value: 'long' },
                 dateFormatDay: { value: 'numeric' },
                 dateFormatMonth: { value: 'long' },
@@ -96,11 +187,87 @@
                 return this.name || NSPanelLui._('defaults.name', 'nspanel-panel')
             },
 
+            credentials: {
+                httpPassword: { type: 'password' },
+                webhookToken: { type: 'password' },
+            },
+
             oneditprepare() {
+                $('#node-config-input-transport')
+                    .on('change', (event) => {
+                        const transport = $(event.target).val()
+                        $('.nspanel-panel-transport-http').toggle(transport === 'http')
+                        $('.nspanel-panel-transport-mqtt').toggle(transport === 'mqtt')
+                    })
+                    .trigger('change')
+
                 $('#node-config-input-panelDimLowStartTime').val(this.panelDimLowStartTime)
                 $('#node-config-input-panelDimLowNightStartTime').val(this.panelDimLowNightStartTime)
                 $('#node-config-input-timeToCheckForUpdates').val(this.timeToCheckForUpdates)
 
+                $('#node-config-input-dimSchedule-container').editableList({
+                    addItem(container, _i, step: DimScheduleStepConfig) {
+                        const startField = $('<select/>', { class: 'node-config-input-dimSchedule-start' })
+                            .css({ width: '8em' })
+                            .appendTo(container)
+                        ;['time', 'sunrise', 'sunset'].forEach((start) => {
+                            $('<option/>')
+                                .val(start)
+                                .text(NSPanelLui._(`label.dimScheduleStart.${start}`, 'nspanel-panel'))
+                                .appendTo(startField)
+                        })
+
+                        const timeField = $('<input/>', { type: 'time', class: 'node-config-input-dimSchedule-time' })
+                            .css({ width: '6em', marginLeft: '0.5em' })
+                            .appendTo(container)
+                        const offsetField = $('<input/>', {
+                            type: 'number',
+                            class: 'node-config-input-dimSchedule-offset',
+                            placeholder: NSPanelLui._('label.dimScheduleOffset', 'nspanel-panel'),
+                        })
+                            .css({ width: '6em', marginLeft: '0.5em' })
+                            .appendTo(container)
+
+                        $('<span/>')
+                            .text(NSPanelLui._('label.brightnessStandBy', 'nspanel-panel'))
+                            .css({ marginLeft: '1em' })
+                            .appendTo(container)
+                        const dimLowField = $('<input/>', {
+                            type: 'number',
+                            class: 'node-config-input-dimSchedule-dimLow',
+                        })
+                            .css({ width: '5em', marginLeft: '0.5em' })
+                            .appendTo(container)
+                        $('<span/>')
+                            .text(NSPanelLui._('label.brightnessActive', 'nspanel-panel'))
+                            .css({ marginLeft: '1em' })
+                            .appendTo(container)
+                        const dimHighField = $('<input/>', {
+                            type: 'number',
+                            class: 'node-config-input-dimSchedule-dimHigh',
+                        })
+                            .css({ width: '5em', marginLeft: '0.5em' })
+                            .appendTo(container)
+
+                        startField.on('change', () => {
+                            const isTime = startField.val() === 'time'
+                            timeField.toggle(isTime)
+                            offsetField.toggle(!isTime)
+                        })
+
+                        startField.val(step.start ?? 'time')
+                        timeField.val(step.time ?? '')
+                        offsetField.val(step.offset ?? 0)
+                        dimLowField.val(step.dimLow ?? 10)
+                        dimHighField.val(step.dimHigh ?? 100)
+                        startField.trigger('change')
+                    },
+                    sortable: true,
+                    removable: true,
+                    height: 'auto',
+                })
+                $('#node-config-input-dimSchedule-container').editableList('addItems', this.dimSchedule ?? [])
+
                 const enableUpdatesField = $('#node-config-input-enableUpdates')
                 enableUpdatesField.on('change', () => {
                     const disable = enableUpdatesField.is(':checked') === false
@@ -127,6 +294,16 @@
                     iconClass: 'fa fa-cog',
                     label: NSPanelLui._('label.general', 'nspanel-panel', 'common'),
                 })
+                tabs.addTab({
+                    id: 'nspanel-page-tab-brightness',
+                    iconClass: 'fa fa-sun-o',
+                    label: NSPanelLui._('label.brightness', 'nspanel-panel'),
+                })
+                tabs.addTab({
+                    id: 'nspanel-page-tab-sensor',
+                    iconClass: 'fa fa-thermometer-half',
+                    label: NSPanelLui._('label.sensor', 'nspanel-panel'),
+                })
                 tabs.addTab({
                     id: 'nspanel-page-tab-update',
                     iconClass: 'fa fa-refresh',
@@ -139,6 +316,28 @@
                     label: NSPanelLui._('label.date-time', 'nspanel-panel', 'common'),
                 })
             },
+
+            oneditsave() {
+                const dimSchedule: DimScheduleStepConfig[] = []
+                $('#node-config-input-dimSchedule-container')
+                    .editableList('items')
+                    .each((_i, el) => {
+                        const item = $(el)
+                        const start = item.find('.node-config-input-dimSchedule-start').val() as string
+                        dimSchedule.push({
+                            start,
+                            time:
+                                start === 'time'
+                                    ? (item.find('.node-config-input-dimSchedule-time').val() as string)
+                                    : undefined,
+                            offset:
+                                start === 'time' ? 0 : Number(item.find('.node-config-input-dimSchedule-offset').val()),
+                            dimLow: Number(item.find('.node-config-input-dimSchedule-dimLow').val()),
+                            dimHigh: Number(item.find('.node-config-input-dimSchedule-dimHigh').val()),
+                        })
+                    })
+                this.dimSchedule = dimSchedule
+            },
         })
 
     $.getScript('resources/node-red-contrib-nspanel-lui/nspanel-lui.js').done(registerType)
@@ -3,8 +3,20 @@ export type TasmotaCommand = {
     data: string
 }
 
+export type TasmotaCommandResultStatus = 'success' | 'timeout'
+
+export type TasmotaCommandResult = {
+    cmd: string
+    data: string
+    status: TasmotaCommandResultStatus
+    result: object | null
+    responseTime: number
+}
+
 export type HMICommandParameters = (string | number) | (string | number)[]
 export type HMICommand = {
     cmd: string
     params: HMICommandParameters
+    // true, if texts had to be changed to fit the protocol, see NSPanelHmiSanitizer
+    sanitized?: boolean
 }
@@ -1,8 +1,11 @@
 import { IDisposable, PageId } from './base'
+import { TasmotaCommand, TasmotaCommandResult } from './commands'
+import { SensorStatistics } from './events'
 import { CommandData, NotifyData } from './messages'
 import { VoidCallback } from './nodered'
 import { IPageNode } from './page-nodes'
 import { PanelBasedConfig } from './pages'
+import { PanelScreen } from './screen'
 
 export type PageMap = Map<string, IPageNode>
 
@@ -16,6 +19,15 @@ export interface IPageHistory {
     notifyData?: NotifyData
 }
 
+export type QueuedNotification = {
+    notifyId: string
+    notifyData: NotifyData
+    priority: number
+    sequence: number
+    enqueuedAt: number
+    expiresAt: number | null
+}
+
 export type PanelControllerConfig = PanelBasedConfig & {
     lang: string
     screenSaverOnStartup: boolean
@@ -39,15 +51,31 @@ export interface IControllerCache {
     getAllKnownPages(): IPageNode[]
 }
 
+export interface INotificationQueue {
+    enqueue(notifyData: NotifyData): QueuedNotification
+    requeue(notification: QueuedNotification): void
+    dequeue(): QueuedNotification | null
+    peek(): QueuedNotification | null
+    remove(notifyId: string): boolean
+    has(notifyId: string): boolean
+    purgeExpired(): QueuedNotification[]
+    isEmpty(): boolean
+    clear(): void
+}
+
 export interface IPanelController extends IDisposable {
     registerPages(pages: PageMap): void
     registerPage(page: IPageNode): void
     deregisterPage(page: IPageNode): void
 
     executeCommand(command: CommandData | CommandData[]): void
+    requestCommandResult(cmd: TasmotaCommand, timeout?: number): Promise<TasmotaCommandResult>
     showNotification(notifyData: NotifyData): void
+    getScreen(): PanelScreen
+    getSensorStatistics(reset?: boolean): SensorStatistics[]
 
     on(event: 'cron:daily', listener: VoidCallback): void
+    on(event: 'screen', listener: (screen: PanelScreen) => void): void
     onFlowsStarting(): void
     onFlowsStarted(): void
 }
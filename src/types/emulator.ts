@@ -0,0 +1,7 @@
+export type EmulatorOptions = {
+    hmiVersion?: string
+    model?: string
+    relays?: number
+}
+
+export type EmulatorEvent = 'startup' | 'buttonPress' | 'openDetail' | 'sleepReached' | 'event'
@@ -57,10 +57,35 @@ export type HardwareEventArgs = EventArgs & {
     type: 'hw'
 }
 
+export type SensorMeasurementType = 'temperature' | 'humidity' | 'pressure' | 'illuminance'
+
+export type SensorMeasurement = {
+    type: SensorMeasurementType
+    value: number
+    unit: string
+    // sensor reported by Tasmota, e.g. `ANALOG`, `BME280` or `DS18B20-1`
+    source: string
+    // reading before calibration and filtering, only set for processed temperatures
+    raw?: number
+}
+
+export type SensorStatistics = {
+    source: string
+    unit: string
+    min: number
+    max: number
+    avg: number
+    count: number
+    // time of the oldest reading within the period
+    since: Date
+}
+
 export type SensorEventArgs = EventArgs & {
     type: 'sensor'
+    // temperature of the panel sensor or, if not available, of the first sensor reporting a temperature
     temp?: number
-    tempUnit?: ['C', 'F']
+    tempUnit?: 'C' | 'F'
+    measurements?: SensorMeasurement[]
 }
 
 export type FirmwareType = 'tasmota' | 'nlui' | 'hmi'
@@ -76,7 +101,129 @@ export type FirmwareEventArgs = EventArgs & {
     statusMsg?: string
 }
 
+export type NotifyResult = 'yes' | 'no' | 'dismissed' | 'timeout' | 'expired'
+
+export type NotifyResultEventArgs = EventArgs & {
+    type: 'notifyResult'
+    event: NotifyResult
+
+    notifyId: string
+    responseTime: number | null
+}
+
+export type PanelStatusEvent = 'online' | 'offline' | 'telemetry'
+
+export type PanelStatusEventArgs = EventArgs & {
+    type: 'status'
+    event: PanelStatusEvent
+
+    online: boolean
+    rssi?: number
+    signal?: number
+    uptime?: string
+    uptimeSec?: number
+    heap?: number
+}
+
 export type TasmotaEventArgs = EventArgs & {
     type: 'fw'
     event: string
 }
+
+/**
+ * Origin of a message received from the panel, selects how the payload is parsed.
+ */
+export type PanelMessageSource = 'result' | 'statResult' | 'sensor' | 'status2' | 'upgrade' | 'lwt' | 'state'
+
+export type StartupEvent = StartupEventArgs & {
+    kind: 'startup'
+}
+
+export type SleepReachedEvent = EventArgs & {
+    kind: 'sleepReached'
+}
+
+export type PopupOpenEvent = EventArgs & {
+    kind: 'popupOpen'
+    entityId: string
+}
+
+// buttons, switches, navigation and popup controls without own event kind
+export type ButtonPressEvent = EventArgs & {
+    kind: 'buttonPress'
+}
+
+export type ColorWheelEvent = LightEventArgs & {
+    kind: 'colorWheel'
+    entityId: string
+}
+
+export type PositionSliderEvent = EventArgs & {
+    kind: 'positionSlider'
+    event2: 'position' | 'tilt'
+    entityId: string
+}
+
+export type NumberSetEvent = EventArgs & {
+    kind: 'numberSet'
+    entityId: string
+}
+
+export type NotifyActionEvent = EventArgs & {
+    kind: 'notifyAction'
+    notifyId: string
+    action: string
+}
+
+export type RelayStateEvent = HardwareEventArgs & {
+    kind: 'relayState'
+    active: boolean
+}
+
+export type ButtonActionEvent = HardwareEventArgs & {
+    kind: 'buttonAction'
+    // `press` with the number of presses as value, `hold` on long press and `release` after a long press
+    event2: 'press' | 'hold' | 'release'
+    // action reported by Tasmota, e.g. `single`, `double` or `hold`
+    action: string
+}
+
+export type FirmwareEvent = FirmwareEventArgs & {
+    kind: 'firmware'
+}
+
+export type TasmotaCommandResultEvent = TasmotaEventArgs & {
+    kind: 'commandResult'
+}
+
+export type SensorEvent = SensorEventArgs & {
+    kind: 'sensor'
+}
+
+export type PanelStatusUpdateEvent = PanelStatusEventArgs & {
+    kind: 'panelStatus'
+}
+
+// messages not (yet) supported, `data` contains the received data
+export type UnknownEvent = EventArgs & {
+    kind: 'unknown'
+}
+
+export type PanelEvent =
+    | StartupEvent
+    | SleepReachedEvent
+    | PopupOpenEvent
+    | ButtonPressEvent
+    | ColorWheelEvent
+    | PositionSliderEvent
+    | NumberSetEvent
+    | NotifyActionEvent
+    | RelayStateEvent
+    | ButtonActionEvent
+    | FirmwareEvent
+    | TasmotaCommandResultEvent
+    | SensorEvent
+    | PanelStatusUpdateEvent
+    | UnknownEvent
+
+export type PanelEventKind = PanelEvent['kind']
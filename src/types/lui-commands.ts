@@ -0,0 +1,315 @@
+export type LuiValue = string | number
+
+export type LuiEntity = {
+    type: string
+    entityId: LuiValue
+    icon: string
+    iconColor: LuiValue
+    text: LuiValue
+    value: LuiValue
+}
+
+export type LuiPowerEntity = LuiEntity & {
+    speed: LuiValue
+}
+
+export type LuiNavigationButton = {
+    icon: string
+    iconColor: LuiValue
+}
+
+export type LuiNavigation = {
+    prev: LuiNavigationButton | null
+    next: LuiNavigationButton | null
+}
+
+export type LuiStatusIcon = {
+    icon: string
+    iconColor: LuiValue
+}
+
+export type LuiThermoAction = {
+    icon: string
+    iconColor: LuiValue
+    state: LuiValue
+    entityId: LuiValue
+}
+
+export type LuiAlarmAction = {
+    text: LuiValue
+    action: LuiValue
+}
+
+export type LuiChartValue = {
+    value: LuiValue
+    label?: LuiValue
+}
+
+export type LuiScreenSaverColors = {
+    background: LuiValue
+    time: LuiValue
+    timeAmPm: LuiValue
+    date: LuiValue
+    mainText: LuiValue
+    forecast1: LuiValue
+    forecast2: LuiValue
+    forecast3: LuiValue
+    forecast4: LuiValue
+    forecastVal1: LuiValue
+    forecastVal2: LuiValue
+    forecastVal3: LuiValue
+    forecastVal4: LuiValue
+    bar: LuiValue
+    mainTextAlt2: LuiValue
+    timeAdd: LuiValue
+}
+
+type LuiCardBase = {
+    title: string
+    navigation: LuiNavigation
+}
+
+export type LuiEntitiesCardUpdate = LuiCardBase & {
+    card: 'cardEntities' | 'cardGrid' | 'cardGrid2'
+    entities: LuiEntity[]
+}
+
+export type LuiPowerCardUpdate = LuiCardBase & {
+    card: 'cardPower'
+    entities: LuiPowerEntity[]
+}
+
+export type LuiQRCardUpdate = LuiCardBase & {
+    card: 'cardQR'
+    qrText: string
+    entities: LuiEntity[]
+}
+
+export type LuiThermoCardUpdate = LuiCardBase & {
+    card: 'cardThermo'
+    entityId: string
+    currentTemperature: LuiValue
+    targetTemperature: LuiValue
+    status: LuiValue
+    minTemperature: LuiValue
+    maxTemperature: LuiValue
+    temperatureStep: LuiValue
+    actions: LuiThermoAction[]
+    currentTemperatureLabel: string
+    statusLabel: string
+    detailsLabel: string
+    unit: string
+    targetTemperature2: LuiValue
+    detailsDisabled: LuiValue
+}
+
+export type LuiMediaCardUpdate = LuiCardBase & {
+    card: 'cardMedia'
+    entityId: string
+    mediaTitle: string
+    mediaTitleColor: LuiValue
+    artist: string
+    artistColor: LuiValue
+    volume: LuiValue
+    iconPlayPause: string
+    onOffButton: LuiValue
+    iconShuffle: string
+    entities: LuiEntity[]
+}
+
+export type LuiAlarmCardUpdate = LuiCardBase & {
+    card: 'cardAlarm'
+    entityId: string
+    actions: LuiAlarmAction[]
+    statusIcon: string
+    statusIconColor: LuiValue
+    numpadStatus: string
+    flashingStatus: string
+    extraButtonIcon: string
+    extraButtonIconColor: LuiValue
+    extraButtonId: string
+}
+
+export type LuiChartCardUpdate = LuiCardBase & {
+    card: 'cardChart' | 'cardLChart'
+    color: LuiValue
+    yAxisLabel: string
+    yAxisTicks: LuiValue[]
+    values: LuiChartValue[]
+}
+
+export type LuiCardUpdate =
+    | LuiEntitiesCardUpdate
+    | LuiPowerCardUpdate
+    | LuiQRCardUpdate
+    | LuiThermoCardUpdate
+    | LuiMediaCardUpdate
+    | LuiAlarmCardUpdate
+    | LuiChartCardUpdate
+
+export type LuiCardType = LuiCardUpdate['card']
+
+export type LuiLightPopupUpdate = {
+    popup: 'popupLight'
+    entityId: string
+    icon: string
+    iconColor: LuiValue
+    state: LuiValue
+    brightness: LuiValue
+    colorTemperature: LuiValue
+    colorMode: LuiValue
+    colorLabel: string
+    colorTemperatureLabel: string
+    brightnessLabel: string
+}
+
+export type LuiShutterTilt = {
+    label: string
+    iconLeft: string
+    iconStop: string
+    iconRight: string
+    iconLeftStatus: string
+    iconStopStatus: string
+    iconRightStatus: string
+    value: LuiValue
+}
+
+export type LuiShutterPopupUpdate = {
+    popup: 'popupShutter'
+    entityId: string
+    position: LuiValue
+    text: string
+    positionLabel: string
+    icon: string
+    iconUp: string
+    iconStop: string
+    iconDown: string
+    iconUpStatus: string
+    iconStopStatus: string
+    iconDownStatus: string
+    // null for shutters without tilt
+    tilt: LuiShutterTilt | null
+}
+
+export type LuiFanPopupUpdate = {
+    popup: 'popupFan'
+    entityId: string
+    icon: string
+    iconColor: LuiValue
+    state: LuiValue
+    speed: LuiValue
+    speedMax: LuiValue
+    text: string
+    mode: string
+    modes: LuiValue[]
+}
+
+export type LuiThermoPopupMode = {
+    heading: string
+    mode: string
+    selectedMode: string
+    modes: LuiValue[]
+}
+
+export type LuiThermoPopupUpdate = {
+    popup: 'popupThermo'
+    entityId: string
+    icon: string
+    iconColor: LuiValue
+    modes: [LuiThermoPopupMode, LuiThermoPopupMode, LuiThermoPopupMode]
+}
+
+export type LuiTimerPopupUpdate = {
+    popup: 'popupTimer'
+    entityId: string
+    icon: string
+    iconColor: LuiValue
+    timerId: string
+    minutes: LuiValue
+    seconds: LuiValue
+    adjustable: LuiValue
+    actions: [LuiValue, LuiValue, LuiValue]
+    labels: [LuiValue, LuiValue, LuiValue]
+}
+
+export type LuiNotifyPopupUpdate = {
+    popup: 'popupNotify'
+    notifyId: string
+    heading: string
+    headingColor: LuiValue
+    cancelText: string
+    cancelColor: LuiValue
+    okText: string
+    okColor: LuiValue
+    text: string
+    textColor: LuiValue
+    timeout: LuiValue
+    fontSize: LuiValue
+    icon: string
+    iconColor: LuiValue
+}
+
+export type LuiPopupUpdate =
+    | LuiLightPopupUpdate
+    | LuiShutterPopupUpdate
+    | LuiFanPopupUpdate
+    | LuiThermoPopupUpdate
+    | LuiTimerPopupUpdate
+    | LuiNotifyPopupUpdate
+
+export type LuiInputSelectPopupUpdate = {
+    popup: 'popupInSel'
+    entityId: string
+    icon: string
+    iconColor: LuiValue
+    // null, if no data received for the entity yet
+    selection: {
+        mode: string
+        selectedOption: string
+        options: LuiValue[]
+    } | null
+}
+
+export type LuiPopupType = LuiPopupUpdate['popup'] | LuiInputSelectPopupUpdate['popup']
+
+export type LuiPageTypeCommand = { cmd: 'pageType'; pageType: string }
+export type LuiEntityUpdateCommand = { cmd: 'entityUpd' } & LuiCardUpdate
+export type LuiEntityUpdateDetailCommand = { cmd: 'entityUpdateDetail' } & LuiPopupUpdate
+export type LuiEntityUpdateDetail2Command = { cmd: 'entityUpdateDetail2' } & LuiInputSelectPopupUpdate
+export type LuiWeatherUpdateCommand = { cmd: 'weatherUpdate'; entities: LuiEntity[] }
+export type LuiStatusUpdateCommand = { cmd: 'statusUpdate'; icons: [LuiStatusIcon | null, LuiStatusIcon | null] }
+export type LuiColorCommand = { cmd: 'color'; colors: LuiScreenSaverColors }
+export type LuiNotifyCommand = {
+    cmd: 'notify'
+    heading: string
+    text: string
+    headingColor: LuiValue
+    textColor: LuiValue
+}
+export type LuiDimModeCommand = { cmd: 'dimmode'; dimLow: LuiValue; dimHigh: LuiValue }
+export type LuiTimeoutCommand = { cmd: 'timeout'; timeout: LuiValue }
+export type LuiTimeCommand = { cmd: 'time'; time: string }
+export type LuiDateCommand = { cmd: 'date'; date: string }
+
+export type LuiCommand =
+    | LuiPageTypeCommand
+    | LuiEntityUpdateCommand
+    | LuiEntityUpdateDetailCommand
+    | LuiEntityUpdateDetail2Command
+    | LuiWeatherUpdateCommand
+    | LuiStatusUpdateCommand
+    | LuiColorCommand
+    | LuiNotifyCommand
+    | LuiDimModeCommand
+    | LuiTimeoutCommand
+    | LuiTimeCommand
+    | LuiDateCommand
+
+/**
+ * Page and popup shown on the panel, needed to decode `entityUpd` and `entityUpdateDetail` commands, as their
+ * layout depends on the card or popup.
+ */
+export type LuiDecodeContext = {
+    pageType?: string | null
+    popupType?: string | null
+}
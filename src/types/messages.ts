@@ -1,11 +1,31 @@
 import { ActiveCharacteristic } from './base'
+import { HMICommand, TasmotaCommand } from './commands'
 import { PanelColor } from './colors'
+import { EmulatorEvent } from './emulator'
 import { EventArgs } from './events'
 import { NodeMessageInFlow } from './nodered'
 
 export type PanelMessage = NodeMessageInFlow
 
-export type Command = 'switch' | 'toggle' | 'beep' | 'checkForUpdates'
+export type Command =
+    | 'switch'
+    | 'toggle'
+    | 'beep'
+    | 'checkForUpdates'
+    | 'setDim'
+    | 'setTimeout'
+    | 'setDateFormat'
+    | 'detachRelays'
+    | 'setTelePeriod'
+    | 'navigate'
+    | 'screensaver'
+    | 'wake'
+    | 'restart'
+    | 'tasmota'
+    | 'hmi'
+    | 'replay'
+    | 'getSensorStats'
+    | 'emulate'
 
 export type CommandMessage = PanelMessage & {
     topic: 'cmd'
@@ -15,7 +35,20 @@ export type CommandMessage = PanelMessage & {
 
 export type CommandData = {
     cmd: Command
-    params?: SwitchCommandParams | BuzzerCommandParams
+    params?:
+        | SwitchCommandParams
+        | BuzzerCommandParams
+        | DimCommandParams
+        | TimeoutCommandParams
+        | DateFormatCommandParams
+        | DetachRelaysCommandParams
+        | TelePeriodCommandParams
+        | NavigateCommandParams
+        | ReplayCommandParams
+        | TasmotaCommandParams
+        | SensorStatsCommandParams
+        | EmulateCommandParams
+        | HMICommand
 }
 
 export type SwitchCommandParams = {
@@ -29,6 +62,66 @@ export type BuzzerCommandParams = {
     silenceDuration?: number
     tune?: number
 }
+
+export type DimCommandParams = {
+    dimLow?: number
+    dimHigh?: number
+}
+
+export type TimeoutCommandParams = {
+    timeout: number
+}
+
+export type DateFormatCommandParams = {
+    dateFormatWeekday?: 'short' | 'long'
+    dateFormatDay?: 'numeric' | '2-digit'
+    dateFormatMonth?: 'numeric' | '2-digit' | 'short' | 'long'
+    dateFormatYear?: 'numeric' | '2-digit'
+
+    timeFormatHour?: 'numeric' | '2-digit'
+    timeFormatMinute?: 'numeric' | '2-digit'
+
+    useCustomDateTimeFormat?: boolean
+    dateCustomFormat?: string
+    timeCustomFormat?: string
+}
+
+export type DetachRelaysCommandParams = {
+    detach: boolean
+}
+
+export type TelePeriodCommandParams = {
+    telePeriod: number
+}
+
+export type NavigateCommandParams = {
+    page: string
+}
+
+export type ReplayCommandParams = {
+    file?: string
+    speed?: number
+}
+
+export type TasmotaCommandParams = TasmotaCommand & {
+    awaitResult?: boolean
+    timeout?: number
+}
+
+export type SensorStatsCommandParams = {
+    // starts a new period after the statistics were sent
+    reset?: boolean
+}
+
+export type EmulateCommandParams = {
+    event: EmulatorEvent
+    entityId?: string
+    action?: string
+    value?: string
+    popupType?: string
+    // raw event parameters for `event`, e.g. ['buttonPress2', 'light.0', 'OnOff', '1']
+    params?: string[]
+}
 // #region page input data messages
 export type PageInputTopic = 'data' | 'status' | 'notify' | 'event' | 'sensor' | 'media'
 
@@ -53,8 +146,16 @@ export type NotifyData = {
     iconColor?: PanelColor
 
     beep?: ActiveCharacteristic
+    buzzer?: BuzzerCommandParams
+    repeatInterval?: number
+    maxRepeats?: number
+
+    priority?: NotifyPriority
+    expireAfter?: number
 }
 
+export type NotifyPriority = 'low' | 'normal' | 'high' | 'critical'
+
 export type NotifyMessage = PanelMessage & {
     topic: 'notify'
 
@@ -1,14 +1,47 @@
 import { IDisposable } from './base'
-import { HMICommand, TasmotaCommand } from './commands'
-import { OnEventCallback, OnSensorDataCallback } from './pages'
+import { HMICommand, TasmotaCommand, TasmotaCommandResult } from './commands'
+import { OnEventCallback, OnPanelStatusCallback, OnSensorDataCallback } from './pages'
+import { PanelScreen } from './screen'
 
 export type OnMqttConnectCallback = () => void
 export type OnMqttCloseCallback = (error?: Error) => void
 export type OnMqttErrorCallback = (error: Error) => void
+export type TasmotaTopicPrefix = 'cmnd' | 'stat' | 'tele'
+
+export type OnMqttMessageCallback = (topic: string, payload: Buffer) => void
+
+export type TrafficDirection = 'in' | 'out'
+
+export type TrafficRecord = {
+    time: string
+    direction: TrafficDirection
+    topic: string
+    payload: string
+}
+
+export interface IPanelMqttClient extends IDisposable {
+    isConnected(): boolean
+    // topic the availability of Node-RED is published on, null if not available with the transport
+    getStatusTopic(): string | null
+    acquire(): void
+    release(): void
+    subscribe(topic: string, listener: OnMqttMessageCallback): void
+    unsubscribe(topic: string, listener: OnMqttMessageCallback): void
+    publish(topic: string, payload: string): void
+
+    on(event: 'mqtt:connect', listener: OnMqttConnectCallback): void
+    on(event: 'mqtt:reconnect', listener: OnMqttConnectCallback): void
+    on(event: 'mqtt:close', listener: OnMqttCloseCallback): void
+    on(event: 'mqtt:error', listener: OnMqttErrorCallback): void
+    removeListener(event: string, listener: (...args: unknown[]) => void): void
+}
 
 export interface IPanelMqttHandler extends IDisposable {
     sendCommandToPanel(cmd: TasmotaCommand): void
+    requestCommandResult(cmd: TasmotaCommand, timeout?: number): Promise<TasmotaCommandResult>
     sendToPanel(data: HMICommand[] | HMICommand): void
+    getScreen(): PanelScreen
+    replay(file: string, speed?: number): Promise<number>
 
     on(event: 'mqtt:connect', listener: OnMqttConnectCallback): void
     on(event: 'mqtt:reconnect', listener: OnMqttConnectCallback): void
@@ -17,4 +50,6 @@ export interface IPanelMqttHandler extends IDisposable {
     on(event: 'event', listener: OnEventCallback): void
     on(event: 'msg', listener: OnEventCallback): void
     on(event: 'sensor', listener: OnSensorDataCallback): void
+    on(event: 'status', listener: OnPanelStatusCallback): void
+    on(event: 'screen', listener: (screen: PanelScreen) => void): void
 }
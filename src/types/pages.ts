@@ -1,5 +1,5 @@
 import { PanelEntity } from './entities'
-import { EventArgs, EventMapping } from './events'
+import { EventMapping, PanelEvent, PanelStatusEventArgs } from './events'
 import { HMICommand } from './commands'
 import { PageEntityData } from './messages'
 import { INodeConfig } from './nodered'
@@ -43,6 +43,22 @@ export type ScreenSaverBaseConfig = PageConfig & {
 }
 
 // #region callbacks
-export type OnEventCallback = (eventArgs: EventArgs) => void
+export type OnEventCallback = (eventArgs: PanelEvent) => void
 export type OnSensorDataCallback = (msg: any) => void
+export type OnPanelStatusCallback = (statusEventArgs: PanelStatusEventArgs) => void
 // #endregion callbacks
+
+export type ThermostatOptions = {
+    // width of the band around the target temperature, in which the relay keeps its state
+    hysteresis: number
+    // min. time in minutes the relay stays on or off after switching
+    minOnTime: number
+    minOffTime: number
+}
+
+export type ThermostatDecision = {
+    // state to switch the relay to, null if the relay keeps its state
+    heating: boolean | null
+    // ms until the min. on or off time has passed and the demand is to be checked again, 0 if not waiting
+    retryIn: number
+}
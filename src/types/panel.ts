@@ -1,10 +1,12 @@
 import { SplitTime } from './base'
 import { PageMap } from './controller'
 import { HMIVersion } from './events'
+import { IPanelMqttClient } from './mqtt-handler'
 import { IPageNode, IPanelNode } from './page-nodes'
 
 export interface IPanelNodeEx extends IPanelNode {
     getPanelConfig(): PanelConfig
+    getMqttClient(): IPanelMqttClient
     getAllPages(): PageMap
 
     on(event: 'page:register', listener: (pageNode: IPageNode) => void): void
@@ -30,13 +32,67 @@ export interface PanelMqttConfig {
     username?: string
     password?: string
 
-    reconnectPeriod?: number
-    resubscribe?: boolean
+    useWebSocket?: boolean
+    webSocketPath?: string
+    protocolVersion?: MqttProtocolVersion
+    tlsCa?: string
+    tlsCert?: string
+    tlsKey?: string
+    rejectUnauthorized?: boolean
+    // availability of Node-RED, `online` or `offline` by last will
+    statusTopic?: string
+}
+
+// 4 = MQTT 3.1.1, 5 = MQTT 5.0
+export type MqttProtocolVersion = 4 | 5
+
+export type PanelTransport = 'mqtt' | 'http' | 'emulator'
+
+export type DimScheduleStart = 'time' | 'sunrise' | 'sunset'
+
+export type DimScheduleStep = {
+    start: DimScheduleStart
+    time?: SplitTime
+    offset?: number
+
+    dimLow: number
+    dimHigh: number
+}
+
+export type SensorFilter = 'none' | 'average' | 'median'
+
+export type SensorProcessingOptions = {
+    // calibration of the panel sensor, value * scale + offset
+    offset: number
+    scale: number
+
+    filter: SensorFilter
+    // number of readings the filter and the outlier rejection are based on
+    filterSize: number
+    // max. deviation of a reading from the median of the last readings (0=disabled)
+    outlierThreshold: number
+    // period of the statistics in hours
+    statsPeriod: number
+}
+
+export type SunTimes = {
+    sunrise: Date | null
+    sunset: Date | null
 }
 
 export interface PanelParameters {
     topic: string
     fullTopic: string
+    hostname?: string
+    deviceId?: string
+    cmndFullTopic?: string
+    statFullTopic?: string
+    teleFullTopic?: string
+
+    transport?: PanelTransport
+    httpAddress?: string
+    httpPassword?: string
+    httpPollInterval?: number
 
     enableUpdates: boolean
     timeToCheckForUpdates: SplitTime
@@ -45,6 +101,9 @@ export interface PanelParameters {
 
     detachRelays: boolean
     telePeriod: number
+    maxMessagesPerSecond?: number
+    recordTraffic?: boolean
+    recordFile?: string
 
     screenSaverOnStartup?: boolean
 
@@ -55,6 +114,17 @@ export interface PanelParameters {
     panelDimHighNight: number
     panelDimLowStartTime: SplitTime
     panelDimLowNightStartTime: SplitTime
+    dimSchedule: DimScheduleStep[]
+
+    tempCalibrationOffset?: number
+    tempCalibrationScale?: number
+    tempFilter?: SensorFilter
+    tempFilterSize?: number
+    tempOutlierThreshold?: number
+    tempStatsPeriod?: number
+
+    latitude: number | null
+    longitude: number | null
 
     dateFormatWeekday: 'short' | 'long'
     dateFormatDay: 'numeric' | '2-digit'
@@ -71,4 +141,5 @@ export interface PanelParameters {
 
 export interface IPanelConfigNode {
     getMqttConfig(): PanelMqttConfig
+    getMqttClient(): IPanelMqttClient
 }
@@ -0,0 +1,31 @@
+export type PanelScreenEntity = {
+    type: string
+    entityId: string
+    icon: string
+    iconColor: number | null
+    text: string
+    value: string
+}
+
+export type PanelScreenNavigation = {
+    prev: PanelScreenEntity | null
+    next: PanelScreenEntity | null
+}
+
+export type PanelScreen = {
+    pageType: string | null
+    pageParams: string[]
+
+    title: string | null
+    navigation: PanelScreenNavigation
+    entities: PanelScreenEntity[]
+    entityUpdate: string[] | null
+    entityUpdateDetail: string[] | null
+    entityUpdateDetail2: string[] | null
+
+    time: string | null
+    date: string | null
+    dimLow: number | null
+    dimHigh: number | null
+    timeout: number | null
+}
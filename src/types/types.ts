@@ -1,8 +1,10 @@
 export * from './base'
 export * from './colors'
 export * from './controller'
+export * from './emulator'
 export * from './entities'
 export * from './events'
+export * from './lui-commands'
 export * from './commands'
 export * from './messages'
 export * from './mqtt-handler'
@@ -10,4 +12,5 @@ export * from './nodered'
 export * from './page-nodes'
 export * from './pages'
 export * from './panel'
+export * from './screen'
 export * from './updater'
@@ -1,4 +1,5 @@
 import { MqttUtils } from '../src/lib/mqtt-utils'
+import { PanelParameters } from '../src/types/types'
 
 describe('MqttUtils', () => {
     test('buildFullTopic', () => {
@@ -9,6 +10,37 @@ describe('MqttUtils', () => {
         expect(MqttUtils.buildFullTopic('%topic%/%prefix%', 'topic', 'prefix', 'cmd')).toBe('topic/prefix/cmd')
     })
 
+    test('buildFullTopic with hostname and id', () => {
+        expect(
+            MqttUtils.buildFullTopic('%prefix%/%hostname%/%id%/', 'topic', 'tele', 'LWT', {
+                hostname: 'nspanel-1234',
+                id: 'A1B2C3',
+            })
+        ).toBe('tele/nspanel-1234/A1B2C3/LWT')
+    })
+
+    test('buildFullTopic falls back to topic for hostname and id without value', () => {
+        expect(MqttUtils.buildFullTopic('%prefix%/%hostname%/%id%/', 'topic', 'tele', 'LWT')).toBe(
+            'tele/topic/topic/LWT'
+        )
+    })
+
+    test('getUnresolvedPlaceholders', () => {
+        const panel = {
+            topic: 'topic',
+            fullTopic: '%prefix%/%hostname%/',
+            statFullTopic: '%prefix%/%id%/',
+        } as PanelParameters
+
+        expect(MqttUtils.getUnresolvedPlaceholders(panel)).toEqual(['%hostname%', '%id%'])
+        expect(MqttUtils.getUnresolvedPlaceholders({ ...panel, deviceId: 'A1B2C3' })).toEqual(['%hostname%'])
+        expect(MqttUtils.getUnresolvedPlaceholders({ ...panel, fullTopic: '%prefix%/%topic%/' })).toEqual(['%id%'])
+    })
+
+    test('buildFullTopic replaces placeholders used several times', () => {
+        expect(MqttUtils.buildFullTopic('%prefix%/%topic%/%prefix%', 'topic', 'stat')).toBe('stat/topic/stat/')
+    })
+
     test('matchesMqttTopic with matching topic', () => {
         expect(MqttUtils.matchesMqttTopic('topic/prefix/cmd', 'topic/prefix/cmd')).toEqual(true)
     })
@@ -53,4 +85,12 @@ describe('MqttUtils', () => {
     test('getBrokerUrl with url no-tls', () => {
         expect(MqttUtils.getBrokerUrl('mqtt://localhost')).toEqual('mqtt://localhost')
     })
+
+    test('getBrokerUrl with websocket', () => {
+        expect(MqttUtils.getBrokerUrl('localhost', 9001, false, true, '/mqtt')).toEqual('ws://localhost:9001/mqtt')
+    })
+
+    test('getBrokerUrl with secure websocket without path', () => {
+        expect(MqttUtils.getBrokerUrl('localhost', 8884, true, true)).toEqual('wss://localhost:8884')
+    })
 })
@@ -0,0 +1,65 @@
+import { NSPanelDimSchedule } from '../src/lib/nspanel-dim-schedule'
+import { NSPanelSunCalc } from '../src/lib/nspanel-sun-calc'
+import { DimScheduleStep } from '../src/types/types'
+
+const BERLIN = { latitude: 52.52, longitude: 13.405 }
+
+const DAY: DimScheduleStep = { start: 'time', time: { hours: 7, minutes: 0 }, dimLow: 10, dimHigh: 100 }
+const NIGHT: DimScheduleStep = { start: 'time', time: { hours: 22, minutes: 0 }, dimLow: 0, dimHigh: 40 }
+
+const atTime = (hours: number, minutes: number): Date => {
+    const date = new Date(2023, 5, 21)
+    date.setHours(hours, minutes, 0, 0)
+    return date
+}
+
+describe('NSPanelSunCalc', () => {
+    test('getSunTimes at summer solstice', () => {
+        const sunTimes = NSPanelSunCalc.getSunTimes(new Date('2023-06-21T12:00:00Z'), BERLIN.latitude, BERLIN.longitude)
+
+        // sunrise 02:43 UTC, sunset 19:33 UTC
+        expect(Math.abs(sunTimes.sunrise.getTime() - Date.UTC(2023, 5, 21, 2, 43))).toBeLessThan(3 * 60 * 1000)
+        expect(Math.abs(sunTimes.sunset.getTime() - Date.UTC(2023, 5, 21, 19, 33))).toBeLessThan(3 * 60 * 1000)
+    })
+
+    test('getSunTimes during polar day', () => {
+        const sunTimes = NSPanelSunCalc.getSunTimes(new Date('2023-06-21T12:00:00Z'), 78.22, 15.65)
+
+        expect(sunTimes.sunrise).toBeNull()
+        expect(sunTimes.sunset).toBeNull()
+    })
+})
+
+describe('NSPanelDimSchedule', () => {
+    test('getActiveStep returns step started last', () => {
+        expect(NSPanelDimSchedule.getActiveStep([DAY, NIGHT], atTime(12, 0), null, null)).toBe(DAY)
+        expect(NSPanelDimSchedule.getActiveStep([DAY, NIGHT], atTime(22, 0), null, null)).toBe(NIGHT)
+    })
+
+    test('getActiveStep before first step returns last step of previous day', () => {
+        expect(NSPanelDimSchedule.getActiveStep([DAY, NIGHT], atTime(6, 59), null, null)).toBe(NIGHT)
+    })
+
+    test('getActiveStep with sunset offset', () => {
+        const sunset: DimScheduleStep = { start: 'sunset', offset: -30, dimLow: 5, dimHigh: 60 }
+        const schedule = [DAY, sunset, NIGHT]
+        const sunsetStart = NSPanelDimSchedule.getStepStart(sunset, atTime(12, 0), BERLIN.latitude, BERLIN.longitude)
+        const sunTimes = NSPanelSunCalc.getSunTimes(atTime(12, 0), BERLIN.latitude, BERLIN.longitude)
+
+        expect(sunsetStart.getTime()).toBe(sunTimes.sunset.getTime() - 30 * 60 * 1000)
+        expect(
+            NSPanelDimSchedule.getActiveStep(
+                schedule,
+                new Date(sunsetStart.getTime() + 1000),
+                BERLIN.latitude,
+                BERLIN.longitude
+            )
+        ).toBe(sunset)
+    })
+
+    test('getActiveStep ignores sun based steps without location', () => {
+        const sunrise: DimScheduleStep = { start: 'sunrise', dimLow: 5, dimHigh: 60 }
+
+        expect(NSPanelDimSchedule.getActiveStep([sunrise], atTime(12, 0), null, null)).toBeNull()
+    })
+})
@@ -0,0 +1,102 @@
+import { NSPanelEmulator } from '../src/lib/nspanel-emulator'
+import { NSPanelMqttHandler } from '../src/lib/nspanel-mqtt-handler'
+import { NSPanelUtils } from '../src/lib/nspanel-utils'
+import { PanelConfig, PanelEvent } from '../src/types/types'
+
+const PANEL_CONFIG = {
+    panel: { topic: 'nspanel', fullTopic: '%prefix%/%topic%/', maxMessagesPerSecond: 0, transport: 'emulator' },
+    mqtt: null,
+} as PanelConfig
+
+describe('NSPanelEmulator', () => {
+    let emulator: NSPanelEmulator
+    let mqttHandler: NSPanelMqttHandler
+    let events: PanelEvent[]
+
+    beforeEach(async () => {
+        emulator = new NSPanelEmulator(PANEL_CONFIG)
+        mqttHandler = new NSPanelMqttHandler(PANEL_CONFIG, emulator)
+        events = []
+        mqttHandler.on('event', (eventArgs) => events.push(eventArgs))
+        // starting is deferred
+        await new Promise(setImmediate)
+    })
+
+    afterEach(() => {
+        mqttHandler.dispose()
+        emulator.dispose()
+    })
+
+    test('comes online and reports startup', () => {
+        expect(emulator.isConnected()).toBe(true)
+        expect(events).toHaveLength(1)
+        expect(events[0]).toMatchObject({
+            type: 'event',
+            event: 'startup',
+            source: 'hmi',
+            hmiVersion: { internalVersion: '54', model: 'eu' },
+        })
+    })
+
+    test('models entity page from CustomSend', () => {
+        mqttHandler.sendToPanel([
+            { cmd: 'time', params: '12:34' },
+            { cmd: 'dimmode', params: [10, 100] },
+            { cmd: 'pageType', params: 'cardEntities' },
+            {
+                cmd: 'entityUpd',
+                params: [
+                    'Lights',
+                    NSPanelUtils.makeEntity('button', 'nav.prev', 'A', 65535) + '~' + NSPanelUtils.makeEntity('delete'),
+                    NSPanelUtils.makeEntity('light', 'light.0', 'B', 2016, 'Kitchen', '1') +
+                        '~' +
+                        NSPanelUtils.makeEntity('delete'),
+                ],
+            },
+        ])
+
+        const screen = emulator.getScreen()
+        expect(screen).toMatchObject({ pageType: 'cardEntities', title: 'Lights', time: '12:34', dimLow: 10 })
+        expect(screen.navigation.prev).toMatchObject({ type: 'button', entityId: 'nav.prev', iconColor: 65535 })
+        expect(screen.navigation.next).toBeNull()
+        expect(screen.entities).toEqual([
+            { type: 'light', entityId: 'light.0', icon: 'B', iconColor: 2016, text: 'Kitchen', value: '1' },
+        ])
+    })
+
+    test('injects display events in parser format', () => {
+        const pressEvent = emulator.buttonPress('light.0', 'OnOff', 1)
+        emulator.openDetail('popupLight', 'light.0')
+        mqttHandler.sendToPanel({ cmd: 'pageType', params: 'cardGrid' })
+        emulator.sleepReached()
+
+        expect(pressEvent).toMatchObject({ event: 'buttonPress2', entityId: 'light.0', event2: 'OnOff', active: true })
+        expect(events.slice(1)).toMatchObject([
+            { event: 'buttonPress2', entityId: 'light.0', event2: 'OnOff', active: true },
+            { event: 'pageOpenDetail', source: 'popupLight', entityId: 'light.0' },
+            { event: 'sleepReached', source: 'cardGrid' },
+        ])
+    })
+
+    test('injects events of the emulate command', () => {
+        emulator.emulate({ event: 'buttonPress', entityId: 'light.0', action: 'OnOff', value: '1' })
+        emulator.emulate({ event: 'event', params: ['pageOpenDetail', 'popupShutter', 'cover.0'] })
+        emulator.emulate({ event: 'startup' })
+
+        expect(events.slice(1)).toMatchObject([
+            { event: 'buttonPress2', entityId: 'light.0', event2: 'OnOff', active: true },
+            { event: 'pageOpenDetail', source: 'popupShutter', entityId: 'cover.0' },
+            { event: 'startup', source: 'hmi' },
+        ])
+    })
+
+    test('switches relays and reports their state', async () => {
+        mqttHandler.sendCommandToPanel({ cmd: 'Power2', data: 'TOGGLE' })
+
+        expect(emulator.getRelayState(2)).toBe(true)
+        expect(events[1]).toMatchObject({ type: 'hw', event: 'relay', source: 'power2', active: true })
+
+        const result = await mqttHandler.requestCommandResult({ cmd: 'Power1', data: 'OFF' })
+        expect(result.result).toEqual({ POWER1: 'OFF' })
+    })
+})
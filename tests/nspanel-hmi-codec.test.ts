@@ -0,0 +1,158 @@
+import { NSPanelHmiCodec } from '../src/lib/nspanel-hmi-codec'
+import { NSPanelUtils } from '../src/lib/nspanel-utils'
+import { LuiCommand, LuiDecodeContext } from '../src/types/types'
+
+const encodeToPayload = (luiCmd: LuiCommand) => NSPanelUtils.transformHmiCommand(NSPanelHmiCodec.encode(luiCmd))
+
+const expectRoundTrip = (payload: string, context?: LuiDecodeContext) => {
+    const decoded = NSPanelHmiCodec.decode(payload, context)
+    expect(decoded).not.toBeNull()
+    expect(encodeToPayload(decoded)).toBe(payload)
+}
+
+describe('NSPanelHmiCodec', () => {
+    test('encodes navigation with previous and next id', () => {
+        const payload = encodeToPayload({
+            cmd: 'entityUpd',
+            card: 'cardEntities',
+            title: 'Lights',
+            navigation: { prev: null, next: { icon: 'A', iconColor: 65535 } },
+            entities: [
+                { type: 'light', entityId: 'light.0', icon: 'B', iconColor: 63488, text: 'Ceiling', value: 1 },
+                { type: 'delete', entityId: 'ignored', icon: 'C', iconColor: 0, text: 'ignored', value: '' },
+            ],
+        })
+
+        expect(payload).toBe(
+            'entityUpd~Lights~delete~~~~~~button~nav.next~A~65535~~~light~light.0~B~63488~Ceiling~1~delete~~~~~'
+        )
+    })
+
+    test('decodes entity cards by page type', () => {
+        const payload = 'entityUpd~Lights~button~nav.prev~A~1~~~delete~~~~~~switch~switch.0~B~2~Fan~0'
+
+        expect(NSPanelHmiCodec.decode(payload)).toBeNull()
+        expect(NSPanelHmiCodec.decode(payload, { pageType: 'cardGrid' })).toEqual({
+            cmd: 'entityUpd',
+            card: 'cardGrid',
+            title: 'Lights',
+            navigation: { prev: { icon: 'A', iconColor: '1' }, next: null },
+            entities: [{ type: 'switch', entityId: 'switch.0', icon: 'B', iconColor: '2', text: 'Fan', value: '0' }],
+        })
+    })
+
+    test('round trips cards', () => {
+        const nav = 'button~nav.prev~A~1~~~button~nav.next~B~2~~'
+
+        expectRoundTrip(`entityUpd~Power~${nav}~text~t.0~C~3~Grid~1kW~-50`, { pageType: 'cardPower' })
+        expectRoundTrip(`entityUpd~Guest~${nav}~WIFI:T:WPA;S:guest;P:secret;;~text~ssid~D~4~SSID~guest`, {
+            pageType: 'cardQR',
+        })
+        expectRoundTrip(
+            `entityUpd~Heating~${nav}~thermo~21.5 °C~215~heating~50~300~5~E~5~1~relay1~~~~~Current~Status~~°C~~1`,
+            { pageType: 'cardThermo' }
+        )
+        expectRoundTrip(`entityUpd~Alarm~${nav}~alarm~Arm~arm~Disarm~disarm~F~6~enable~disable~G~7~extra`, {
+            pageType: 'cardAlarm',
+        })
+        expectRoundTrip(`entityUpd~Chart~${nav}~2016~kWh~0:10:20~5^Mon~7^Tue~3`, { pageType: 'cardLChart' })
+    })
+
+    test('round trips popups', () => {
+        expectRoundTrip('entityUpdateDetail~light.0~A~65535~1~50~disable~1~Color~~Brightness', {
+            popupType: 'popupLight',
+        })
+        expectRoundTrip('entityUpdateDetail~cover.0~30~~Position~A~B~C~D~enable~enable~enable~~~~~~~~disable', {
+            popupType: 'popupShutter',
+        })
+        expectRoundTrip('entityUpdateDetail~fan.0~A~1~1~2~3~Fan~low~low?mid?high', { popupType: 'popupFan' })
+        expectRoundTrip('entityUpdateDetail~n1~Head~1~Cancel~2~Ok~3~Text~4~10~1~A~5', { pageType: 'popupNotify' })
+        expectRoundTrip('entityUpdateDetail2~input.0~~65535~mode~b~a?b?c')
+    })
+
+    test('decodes screensaver commands', () => {
+        expect(NSPanelHmiCodec.decode('statusUpdate~A~1~~')).toEqual({
+            cmd: 'statusUpdate',
+            icons: [{ icon: 'A', iconColor: '1' }, null],
+        })
+        expect(NSPanelHmiCodec.decode('notify~Heading~Text~1~2')).toEqual({
+            cmd: 'notify',
+            heading: 'Heading',
+            text: 'Text',
+            headingColor: '1',
+            textColor: '2',
+        })
+        expect(NSPanelHmiCodec.decode('dimmode~10~100')).toEqual({ cmd: 'dimmode', dimLow: '10', dimHigh: '100' })
+        expectRoundTrip(`color~${[...Array(16).keys()].join('~')}`)
+        expectRoundTrip('weatherUpdate~~~A~1~Mon~20°C~~~B~2~Tue~18°C')
+        expect(NSPanelHmiCodec.decode('unknown~1')).toBeNull()
+    })
+
+    test('sanitizes texts', () => {
+        const cardCmd = NSPanelHmiCodec.encode({
+            cmd: 'entityUpd',
+            card: 'cardEntities',
+            title: 'Song ~ Title\r\nLive',
+            navigation: { prev: null, next: null },
+            entities: [{ type: 'text', entityId: 't.0', icon: 'A', iconColor: 1, text: 'x'.repeat(300), value: 42 }],
+        })
+
+        expect(cardCmd.sanitized).toBe(true)
+        expect(cardCmd.params[0]).toBe('Song - Title Live')
+        expect(cardCmd.params[17]).toHaveLength(255)
+        expect(cardCmd.params[18]).toBe(42)
+
+        const popupCmd = NSPanelHmiCodec.encode({
+            cmd: 'entityUpdateDetail2',
+            popup: 'popupInSel',
+            entityId: 'input.0',
+            icon: '',
+            iconColor: 65535,
+            selection: { mode: 'mode', selectedOption: 'Why?', options: ['Why?', 'b~c'] },
+        })
+
+        expect(NSPanelUtils.transformHmiCommand(popupCmd)).toBe('entityUpdateDetail2~input.0~~65535~mode~Why?~Why-?b-c')
+        expect(popupCmd.sanitized).toBe(true)
+    })
+
+    test('cuts long lists item by item', () => {
+        const options = ['Off', 'a'.repeat(200), 'b'.repeat(100), 'Auto']
+        const popupCmd = NSPanelHmiCodec.encode({
+            cmd: 'entityUpdateDetail2',
+            popup: 'popupInSel',
+            entityId: 'input.0',
+            icon: '',
+            iconColor: 65535,
+            selection: { mode: 'mode', selectedOption: 'Off', options },
+        })
+        const items = `${popupCmd.params[5]}`.split('?')
+
+        expect(popupCmd.sanitized).toBe(true)
+        expect(`${popupCmd.params[5]}`.length).toBe(255)
+        expect(items).toEqual(['Off', 'a'.repeat(145), 'b'.repeat(100), 'Auto'])
+    })
+
+    test('keeps line breaks of notification texts', () => {
+        const notifyCmd = NSPanelHmiCodec.encode({
+            popup: 'popupNotify',
+            cmd: 'entityUpdateDetail',
+            notifyId: 'n1',
+            heading: 'Head',
+            headingColor: 1,
+            cancelText: '',
+            cancelColor: 1,
+            okText: 'Ok',
+            okColor: 1,
+            text: 'Line 1\nLine 2\r\n',
+            textColor: 1,
+            timeout: 0,
+            fontSize: 1,
+            icon: '',
+            iconColor: 1,
+        })
+
+        expect(notifyCmd.params[7]).toBe('Line 1\r\nLine 2\r\n')
+        expect(notifyCmd.sanitized).toBe(true)
+        expect(NSPanelHmiCodec.encode({ cmd: 'time', time: '12:34' }).sanitized).toBeUndefined()
+    })
+})
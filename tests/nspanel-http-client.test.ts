@@ -0,0 +1,184 @@
+import * as http from 'http'
+import { AddressInfo } from 'net'
+
+import { NSPanelHttpClient } from '../src/lib/nspanel-http-client'
+import { NSPanelMqttHandler } from '../src/lib/nspanel-mqtt-handler'
+import { PanelConfig } from '../src/types/types'
+
+// stand-in for the web server of Tasmota, answering /cm?cmnd= requests
+class TasmotaWebServerMock {
+    public commands: string[] = []
+
+    public available: boolean = true
+
+    private server: http.Server
+
+    constructor() {
+        this.server = http.createServer((req, res) => {
+            const cmnd = new URL(req.url, 'http://localhost').searchParams.get('cmnd') ?? ''
+            this.commands.push(cmnd)
+
+            if (!this.available) {
+                res.destroy()
+                return
+            }
+
+            res.setHeader('Content-Type', 'application/json')
+            res.end(JSON.stringify(this.getResponse(cmnd)))
+        })
+    }
+
+    public get address(): string {
+        return `127.0.0.1:${(this.server.address() as AddressInfo).port}`
+    }
+
+    public listen(): Promise<void> {
+        return new Promise((resolve) => this.server.listen(0, '127.0.0.1', resolve))
+    }
+
+    public close(): Promise<void> {
+        return new Promise((resolve) => this.server.close(() => resolve()))
+    }
+
+    private getResponse(cmnd: string): object {
+        const [cmd, data] = cmnd.split(' ')
+        switch (cmd) {
+            case 'Status':
+                return data === '11'
+                    ? { StatusSTS: { UptimeSec: 60, Heap: 120, Wifi: { RSSI: 80, Signal: -60 } } }
+                    : { StatusSNS: { ANALOG: { Temperature1: 21.5 }, TempUnit: 'C' } }
+            default:
+                return { [cmd]: 'Done' }
+        }
+    }
+}
+
+const waitFor = async (condition: () => boolean, timeout: number = 1000) => {
+    for (let i = 0; i < timeout / 10 && !condition(); i += 1) {
+        // eslint-disable-next-line no-await-in-loop
+        await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+}
+
+describe('NSPanelHttpClient', () => {
+    let server: TasmotaWebServerMock
+    let httpClient: NSPanelHttpClient
+    let mqttHandler: NSPanelMqttHandler
+
+    beforeEach(async () => {
+        server = new TasmotaWebServerMock()
+        await server.listen()
+
+        const panelConfig = {
+            panel: {
+                topic: 'nspanel',
+                fullTopic: '%prefix%/%topic%/',
+                maxMessagesPerSecond: 0,
+                transport: 'http',
+                httpAddress: server.address,
+                httpPollInterval: 0,
+            },
+            mqtt: null,
+        } as PanelConfig
+        httpClient = new NSPanelHttpClient(panelConfig)
+        mqttHandler = new NSPanelMqttHandler(panelConfig, httpClient)
+    })
+
+    afterEach(async () => {
+        mqttHandler.dispose()
+        httpClient.dispose()
+        await server.close()
+    })
+
+    test('polls state on start and marks panel online', async () => {
+        const statusEvents = []
+        mqttHandler.on('status', (statusEventArgs) => statusEvents.push(statusEventArgs))
+
+        await waitFor(() => statusEvents.length >= 2 && server.commands.length >= 2)
+
+        expect(server.commands).toEqual(['Status 11', 'Status 10'])
+        expect(httpClient.isConnected()).toBe(true)
+        expect(statusEvents.map((e) => e.event)).toEqual(['online', 'telemetry'])
+        expect(statusEvents[1]).toMatchObject({ online: true, rssi: 80, uptimeSec: 60 })
+    })
+
+    test('sends panel messages as CustomSend commands', async () => {
+        await waitFor(() => httpClient.isConnected())
+
+        mqttHandler.sendToPanel({ cmd: 'pageType', params: 'cardEntities' })
+        await waitFor(() => server.commands.length >= 3)
+
+        expect(server.commands).toContain('CustomSend pageType~cardEntities')
+    })
+
+    test('requestCommandResult resolves with http response', async () => {
+        await waitFor(() => httpClient.isConnected())
+
+        const result = await mqttHandler.requestCommandResult({ cmd: 'Power1', data: 'ON' }, 2)
+
+        expect(result.status).toBe('success')
+        expect(result.result).toEqual({ Power1: 'Done' })
+    })
+
+    test('emits events received by the webhook', () => {
+        const events = []
+        mqttHandler.on('event', (eventArgs) => events.push(eventArgs))
+
+        httpClient.receive(JSON.stringify({ CustomRecv: 'event,startup,54,eu' }))
+
+        expect(events).toHaveLength(1)
+        expect(events[0]).toMatchObject({ type: 'event', event: 'startup' })
+    })
+
+    test('retries a failed first poll without poll interval', async () => {
+        mqttHandler.dispose()
+        httpClient.dispose()
+        server.available = false
+
+        const panelConfig = {
+            panel: {
+                topic: 'nspanel',
+                fullTopic: '%prefix%/%topic%/',
+                httpAddress: server.address,
+                httpPollInterval: 0,
+            },
+            mqtt: null,
+        } as PanelConfig
+        httpClient = new NSPanelHttpClient(panelConfig)
+        mqttHandler = new NSPanelMqttHandler(panelConfig, httpClient)
+
+        await waitFor(() => server.commands.length >= 1)
+        expect(httpClient.isConnected()).toBe(false)
+
+        server.available = true
+        await waitFor(() => httpClient.isConnected(), 3000)
+
+        expect(httpClient.isConnected()).toBe(true)
+        expect(server.commands.slice(0, 2)).toEqual(['Status 11', 'Status 11'])
+    })
+
+    test('marks panel offline when polling fails', async () => {
+        const pollingConfig = {
+            panel: {
+                topic: 'nspanel',
+                fullTopic: '%prefix%/%topic%/',
+                httpAddress: server.address,
+                httpPollInterval: 0.05,
+            },
+            mqtt: null,
+        } as PanelConfig
+        const pollingClient = new NSPanelHttpClient(pollingConfig)
+        const pollingHandler = new NSPanelMqttHandler(pollingConfig, pollingClient)
+        const statusEvents = []
+        pollingHandler.on('status', (statusEventArgs) => statusEvents.push(statusEventArgs))
+
+        await waitFor(() => pollingClient.isConnected())
+        server.available = false
+        await waitFor(() => !pollingClient.isConnected())
+
+        expect(statusEvents.map((e) => e.event)).toContain('offline')
+
+        pollingHandler.dispose()
+        pollingClient.dispose()
+    })
+})
@@ -0,0 +1,170 @@
+import { NSPanelMessageParser } from '../src/lib/nspanel-message-parser'
+import { PanelMessageSource } from '../src/types/types'
+
+const customRecv = (event: string) => JSON.stringify({ CustomRecv: event })
+
+// CustomRecv strings sent by the HMI and the expected event
+const CUSTOM_RECV_FIXTURES: [string, object][] = [
+    ['event,startup,54,eu', { kind: 'startup', source: 'hmi', hmiVersion: { internalVersion: '54', model: 'eu' } }],
+    ['event,sleepReached,cardEntities', { kind: 'sleepReached', event: 'sleepReached', source: 'cardEntities' }],
+    [
+        'event,pageOpenDetail,popupLight,light.0',
+        { kind: 'popupOpen', event: 'pageOpenDetail', source: 'popupLight', entityId: 'light.0' },
+    ],
+    ['event,buttonPress2,nav.next,button', { kind: 'buttonPress', source: 'button', event2: 'nav.next' }],
+    [
+        'event,buttonPress2,light.0,OnOff,1',
+        { kind: 'buttonPress', source: 'light.0', entityId: 'light.0', event2: 'OnOff', active: true, value: 1 },
+    ],
+    ['event,buttonPress2,light.0,OnOff,0', { kind: 'buttonPress', event2: 'OnOff', active: undefined, value: 0 }],
+    ['event,buttonPress2,light.0,brightnessSlider,50', { kind: 'buttonPress', event2: 'brightnessSlider', value: 50 }],
+    ['event,buttonPress2,light.0,colorTempSlider,30', { kind: 'buttonPress', event2: 'colorTempSlider', value: 30 }],
+    [
+        'event,buttonPress2,light.0,colorWheel,80|120|160',
+        { kind: 'colorWheel', event2: 'color', entityId: 'light.0', data: '80|120|160' },
+    ],
+    [
+        'event,buttonPress2,cover.0,positionSlider,40',
+        { kind: 'positionSlider', event2: 'position', entityId: 'cover.0', value: 40 },
+    ],
+    [
+        'event,buttonPress2,cover.0,tiltSlider,20',
+        { kind: 'positionSlider', event2: 'tilt', entityId: 'cover.0', value: 20 },
+    ],
+    ['event,buttonPress2,cover.0,up', { kind: 'buttonPress', source: 'cover.0', event2: 'up' }],
+    ['event,buttonPress2,cover.0,stop', { kind: 'buttonPress', source: 'cover.0', event2: 'stop' }],
+    ['event,buttonPress2,cover.0,down', { kind: 'buttonPress', source: 'cover.0', event2: 'down' }],
+    ['event,buttonPress2,cover.0,tiltOpen', { kind: 'buttonPress', source: 'cover.0', event2: 'tiltOpen' }],
+    [
+        'event,buttonPress2,fan.0,number-set,3',
+        { kind: 'numberSet', source: 'fan.0', entityId: 'fan.0', event2: 'number-set', value: 3 },
+    ],
+    [
+        'event,buttonPress2,input.0,mode-preset_modes,2',
+        { kind: 'buttonPress', source: 'input.0', event2: 'mode-preset_modes', value: 2 },
+    ],
+    ['event,buttonPress2,timer.0,timer-start,300', { kind: 'buttonPress', event2: 'timer-start', value: 300 }],
+    ['event,buttonPress2,alarm.0,D1,1234', { kind: 'buttonPress', source: 'alarm.0', event2: 'D1', value: 1234 }],
+    ['event,buttonPress2,media.0,media-next', { kind: 'buttonPress', source: 'media.0', event2: 'media-next' }],
+    ['event,buttonPress2,media.0,volumeSlider,30', { kind: 'buttonPress', event2: 'volumeSlider', value: 30 }],
+    [
+        'event,buttonPress2,n1,notifyAction,yes',
+        { kind: 'notifyAction', source: 'n1', notifyId: 'n1', action: 'yes', event2: 'notifyAction', data: 'yes' },
+    ],
+    ['event,buttonPress2,n1,bExit,1', { kind: 'buttonPress', source: 'n1', event2: 'bExit', value: 1 }],
+    ['event,buttonPress2,popupLight,bExit,1', { kind: 'buttonPress', source: 'popupLight', event2: 'bExit' }],
+    ['event,buttonPress2,screensaver,bExit,2', { kind: 'buttonPress', source: 'screensaver', event2: 'bExit' }],
+    ['event,newEvent,a,b', { kind: 'unknown', type: 'event', event: 'newEvent', data: { raw: ['a', 'b'] } }],
+]
+
+// messages of Tasmota and the berry driver
+const MESSAGE_FIXTURES: [PanelMessageSource, string, object[]][] = [
+    ['result', '{"nlui_driver_version":"8"}', [{ kind: 'firmware', source: 'nlui', event: 'version', version: '8' }]],
+    ['result', '{"Foo":1}', [{ kind: 'unknown', type: 'unknown', data: { Foo: 1 } }]],
+    [
+        'statResult',
+        '{"POWER1":"ON","POWER2":"OFF"}',
+        [
+            { kind: 'relayState', type: 'hw', source: 'power1', active: true },
+            { kind: 'relayState', type: 'hw', source: 'power2', active: false },
+        ],
+    ],
+    [
+        'statResult',
+        '{"Button1":{"Action":"DOUBLE"}}',
+        [{ kind: 'buttonAction', type: 'hw', source: 'button1', action: 'double', value: 2 }],
+    ],
+    [
+        'statResult',
+        '{"Button2":{"Action":"HOLD"}}',
+        [{ kind: 'buttonAction', source: 'button2', event2: 'hold', action: 'hold' }],
+    ],
+    [
+        'statResult',
+        '{"Button2":{"Action":"CLEAR"}}',
+        [{ kind: 'buttonAction', source: 'button2', event2: 'release', action: 'clear' }],
+    ],
+    ['statResult', '{"CustomSend":"Done"}', []],
+    [
+        'statResult',
+        '{"FlashNextion":"Done"}',
+        [{ kind: 'firmware', source: 'hmi', event: 'update', status: 'success' }],
+    ],
+    ['statResult', '{"OtaUrl":"http://ota"}', [{ kind: 'commandResult', event: 'OtaUrl', data: 'http://ota' }]],
+    [
+        'sensor',
+        '{"Time":"2023-01-01T10:00:00","ANALOG":{"Temperature1":21.5},"TempUnit":"C"}',
+        [{ kind: 'sensor', source: 'temperature1', temp: 21.5, tempUnit: 'C' }],
+    ],
+    [
+        'sensor',
+        '{"ESP32":{"Temperature":45.0},"BME280":{"Temperature":21.3,"Humidity":45.1,"DewPoint":8.9,"Pressure":1013.2},"SHT3X":{"Temperature":21.0,"Humidity":44.0},"DS18B20-1":{"Id":"0316","Temperature":20.1},"BH1750":{"Illuminance":120},"PressureUnit":"hPa","TempUnit":"C"}',
+        [
+            {
+                kind: 'sensor',
+                source: 'bme280',
+                temp: 21.3,
+                tempUnit: 'C',
+                measurements: [
+                    { type: 'temperature', value: 45, unit: 'C', source: 'ESP32' },
+                    { type: 'temperature', value: 21.3, unit: 'C', source: 'BME280' },
+                    { type: 'humidity', value: 45.1, unit: '%', source: 'BME280' },
+                    { type: 'pressure', value: 1013.2, unit: 'hPa', source: 'BME280' },
+                    { type: 'temperature', value: 21, unit: 'C', source: 'SHT3X' },
+                    { type: 'humidity', value: 44, unit: '%', source: 'SHT3X' },
+                    { type: 'temperature', value: 20.1, unit: 'C', source: 'DS18B20-1' },
+                    { type: 'illuminance', value: 120, unit: 'lx', source: 'BH1750' },
+                ],
+            },
+        ],
+    ],
+    ['sensor', '{"ESP32":{"Temperature":113.0},"TempUnit":"F"}', [{ source: 'esp32', temp: 113, tempUnit: 'F' }]],
+    ['sensor', '{"Time":"2023-01-01T10:00:00","TempUnit":"C"}', []],
+    [
+        'status2',
+        '{"StatusFWR":{"Version":"12.4.0(tasmota)"}}',
+        [{ kind: 'firmware', source: 'tasmota', event: 'version', version: '12.4.0(tasmota)' }],
+    ],
+    [
+        'upgrade',
+        '{"Upgrade":"Failed Not enough space"}',
+        [{ kind: 'firmware', source: 'tasmota', event: 'update', status: 'failed' }],
+    ],
+    ['lwt', 'Offline', [{ kind: 'panelStatus', event: 'offline', online: false }]],
+    [
+        'state',
+        '{"Uptime":"0T01:00:00","Heap":25,"Wifi":{"RSSI":80}}',
+        [{ kind: 'panelStatus', event: 'telemetry', online: true, rssi: 80, heap: 25 }],
+    ],
+]
+
+describe('NSPanelMessageParser', () => {
+    test.each(CUSTOM_RECV_FIXTURES)('parses %s', (event, expected) => {
+        const panelEvents = NSPanelMessageParser.parse(customRecv(event))
+
+        expect(panelEvents).toHaveLength(1)
+        expect(panelEvents[0]).toMatchObject(expected)
+    })
+
+    test.each(MESSAGE_FIXTURES)('parses %s message %s', (source, payload, expected) => {
+        const panelEvents = NSPanelMessageParser.parse(payload, source)
+
+        expect(panelEvents).toHaveLength(expected.length)
+        expected.forEach((expectedEvent, idx) => expect(panelEvents[idx]).toMatchObject(expectedEvent))
+    })
+
+    test('parses color of color wheel center', () => {
+        const [panelEvent] = NSPanelMessageParser.parse(customRecv('event,buttonPress2,light.0,colorWheel,80|80|160'))
+
+        expect(panelEvent.kind).toBe('colorWheel')
+        if (panelEvent.kind === 'colorWheel') {
+            expect(panelEvent.hsv).toMatchObject({ saturation: 0, value: 1 })
+            expect(panelEvent.rgb).toBeDefined()
+        }
+    })
+
+    test('ignores invalid payloads', () => {
+        expect(NSPanelMessageParser.parse('not json')).toEqual([])
+        expect(NSPanelMessageParser.parse('Unknown', 'lwt')).toEqual([])
+    })
+})
@@ -0,0 +1,121 @@
+import { NSPanelMessageUtils } from '../src/lib/nspanel-message-utils'
+
+describe('NSPanelMessageUtils.convertToCommandData', () => {
+    test('setDim limits dim values to range', () => {
+        expect(
+            NSPanelMessageUtils.convertToCommandData({ cmd: 'setDim', params: { dimLow: -5, dimHigh: 120 } })
+        ).toEqual({
+            cmd: 'setDim',
+            params: { dimLow: 0, dimHigh: 100 },
+        })
+    })
+
+    test('setDim without params', () => {
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'setDim' })).toEqual({ cmd: 'setDim', params: {} })
+    })
+
+    test('setTimeout with invalid timeout', () => {
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'setTimeout', params: { timeout: 100 } })).toBeNull()
+    })
+
+    test('setDateFormat ignores unknown formats', () => {
+        expect(
+            NSPanelMessageUtils.convertToCommandData({
+                cmd: 'setDateFormat',
+                params: { dateFormatMonth: 'short', dateFormatDay: 'long', useCustomDateTimeFormat: 0 },
+            })
+        ).toEqual({ cmd: 'setDateFormat', params: { dateFormatMonth: 'short', useCustomDateTimeFormat: false } })
+    })
+
+    test('setDateFormat keeps missing settings', () => {
+        expect(
+            NSPanelMessageUtils.convertToCommandData({ cmd: 'setDateFormat', params: { dateFormatYear: '2-digit' } })
+        ).toEqual({ cmd: 'setDateFormat', params: { dateFormatYear: '2-digit' } })
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'setDateFormat', params: {} })).toBeNull()
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'setDateFormat' })).toBeNull()
+    })
+
+    test('detachRelays', () => {
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'detachRelays', params: { detach: 'on' } })).toEqual({
+            cmd: 'detachRelays',
+            params: { detach: true },
+        })
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'detachRelays' })).toBeNull()
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'detachRelays', params: {} })).toBeNull()
+    })
+
+    test('setTelePeriod accepts firmware default and valid range', () => {
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'setTelePeriod', params: { telePeriod: 1 } })).toEqual({
+            cmd: 'setTelePeriod',
+            params: { telePeriod: 1 },
+        })
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'setTelePeriod', params: { telePeriod: 5 } })).toBeNull()
+    })
+
+    test('navigate with page name', () => {
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'navigate', params: { page: 'Lights' } })).toEqual({
+            cmd: 'navigate',
+            params: { page: 'Lights' },
+        })
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'navigate', params: { page: '' } })).toBeNull()
+    })
+
+    test('commands without params', () => {
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'wake' })).toEqual({ cmd: 'wake' })
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'restart' })).toEqual({ cmd: 'restart' })
+    })
+
+    test('tasmota with command and data', () => {
+        expect(
+            NSPanelMessageUtils.convertToCommandData({ cmd: 'tasmota', params: { cmd: 'Dimmer', data: 50 } })
+        ).toEqual({ cmd: 'tasmota', params: { cmd: 'Dimmer', data: '50' } })
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'tasmota', params: { data: 50 } })).toBeNull()
+    })
+
+    test('hmi with raw command', () => {
+        expect(
+            NSPanelMessageUtils.convertToCommandData({ cmd: 'hmi', params: { cmd: 'dimmode', params: [10, 100] } })
+        ).toEqual({ cmd: 'hmi', params: { cmd: 'dimmode', params: [10, 100] } })
+    })
+
+    test('replay with optional file and speed', () => {
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'replay' })).toEqual({ cmd: 'replay', params: {} })
+        expect(
+            NSPanelMessageUtils.convertToCommandData({ cmd: 'replay', params: { file: 'panel.jsonl', speed: '2' } })
+        ).toEqual({ cmd: 'replay', params: { file: 'panel.jsonl', speed: 2 } })
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'replay', params: { speed: -1 } })).toBeNull()
+    })
+
+    test('emulate with the parameters of the event', () => {
+        expect(
+            NSPanelMessageUtils.convertToCommandData({
+                cmd: 'emulate',
+                params: { event: 'buttonPress', entityId: 'light.0', action: 'OnOff', value: 1 },
+            })
+        ).toEqual({
+            cmd: 'emulate',
+            params: { event: 'buttonPress', entityId: 'light.0', action: 'OnOff', value: '1' },
+        })
+        expect(
+            NSPanelMessageUtils.convertToCommandData({
+                cmd: 'emulate',
+                params: { event: 'event', params: ['sleepReached'] },
+            })
+        ).toEqual({ cmd: 'emulate', params: { event: 'event', params: ['sleepReached'] } })
+        expect(
+            NSPanelMessageUtils.convertToCommandData({ cmd: 'emulate', params: { event: 'buttonPress' } })
+        ).toBeNull()
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'emulate', params: { event: 'reboot' } })).toBeNull()
+    })
+
+    test('getSensorStats with optional reset', () => {
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'getSensorStats' })).toEqual({
+            cmd: 'getSensorStats',
+            params: { reset: false },
+        })
+        expect(NSPanelMessageUtils.convertToCommandData({ cmd: 'getSensorStats', params: { reset: 'on' } })).toEqual({
+            cmd: 'getSensorStats',
+            params: { reset: true },
+        })
+    })
+})
@@ -0,0 +1,203 @@
+import { EventEmitter } from 'events'
+import * as mqtt from 'mqtt'
+
+import { NSPanelMqttClient } from '../src/lib/nspanel-mqtt-client'
+import { NSPanelMqttHandler } from '../src/lib/nspanel-mqtt-handler'
+import { PanelConfig, PanelMqttConfig } from '../src/types/types'
+
+jest.mock('mqtt')
+
+class MqttClientMock extends EventEmitter {
+    public published: [string, string][] = []
+
+    public subscribed: string[] = []
+
+    public ended: boolean = false
+
+    public publish(topic: string, data: string) {
+        this.published.push([topic, data])
+    }
+
+    public subscribe(topic: string) {
+        this.subscribed.push(topic)
+    }
+
+    public unsubscribe(topic: string) {
+        this.subscribed = this.subscribed.filter((subscribedTopic) => subscribedTopic !== topic)
+    }
+
+    public end() {
+        this.ended = true
+    }
+
+    public receive(topic: string, data: string) {
+        this.emit('message', topic, Buffer.from(data))
+    }
+}
+
+const MQTT_CONFIG = {
+    broker: 'localhost',
+    port: 1883,
+    useTls: false,
+    clientId: '',
+    keepAlive: 60,
+    cleanSession: true,
+    statusTopic: 'nspanel-lui/config/status',
+} as PanelMqttConfig
+
+const getPanelConfig = (topic: string) =>
+    ({
+        panel: { topic, fullTopic: '%prefix%/%topic%/' },
+        mqtt: MQTT_CONFIG,
+    }) as PanelConfig
+
+const OFFLINE_CMDS = [
+    { cmd: 'pageType', params: 'screensaver' },
+    { cmd: 'time', params: 'Offline' },
+]
+
+describe('NSPanelMqttClient', () => {
+    let mqttClient: MqttClientMock
+    let panelMqttClient: NSPanelMqttClient
+
+    beforeEach(() => {
+        mqttClient = new MqttClientMock()
+        ;(mqtt.connect as jest.Mock).mockClear()
+        ;(mqtt.connect as jest.Mock).mockReturnValue(mqttClient)
+        panelMqttClient = new NSPanelMqttClient(MQTT_CONFIG)
+    })
+
+    afterEach(() => {
+        panelMqttClient.dispose()
+    })
+
+    test('panels share one connection and receive their messages', async () => {
+        const kitchen = new NSPanelMqttHandler(getPanelConfig('kitchen'), panelMqttClient)
+        const hallway = new NSPanelMqttHandler(getPanelConfig('hallway'), panelMqttClient)
+        const kitchenStatus = jest.fn()
+        const hallwayStatus = jest.fn()
+        kitchen.on('status', kitchenStatus)
+        hallway.on('status', hallwayStatus)
+        await new Promise(setImmediate)
+
+        expect(mqtt.connect).toHaveBeenCalledTimes(1)
+        expect(mqttClient.subscribed).toContain('tele/kitchen/LWT')
+        expect(mqttClient.subscribed).toContain('tele/hallway/LWT')
+
+        mqttClient.receive('tele/hallway/LWT', 'Online')
+
+        expect(kitchenStatus).not.toHaveBeenCalled()
+        expect(hallwayStatus).toHaveBeenCalledTimes(1)
+
+        kitchen.dispose()
+        hallway.dispose()
+    })
+
+    test('routes messages to wildcard subscriptions', async () => {
+        const listener = jest.fn()
+        panelMqttClient.acquire()
+        panelMqttClient.subscribe('tele/+/SENSOR', listener)
+        panelMqttClient.subscribe('tele/kitchen/#', listener)
+        await new Promise(setImmediate)
+
+        mqttClient.receive('tele/kitchen/SENSOR', '{}')
+        mqttClient.receive('stat/kitchen/RESULT', '{}')
+
+        expect(listener).toHaveBeenCalledTimes(1)
+        expect(listener.mock.calls[0][0]).toBe('tele/kitchen/SENSOR')
+    })
+
+    test('publishes before connecting after connect', async () => {
+        panelMqttClient.acquire()
+        panelMqttClient.publish('cmnd/kitchen/CustomSend', 'time~12:00')
+
+        expect(mqttClient.published).toEqual([])
+        await new Promise(setImmediate)
+        expect(mqttClient.published).toEqual([['cmnd/kitchen/CustomSend', 'time~12:00']])
+    })
+
+    test('disconnects when released by all panels', async () => {
+        const kitchen = new NSPanelMqttHandler(getPanelConfig('kitchen'), panelMqttClient)
+        const hallway = new NSPanelMqttHandler(getPanelConfig('hallway'), panelMqttClient)
+        await new Promise(setImmediate)
+
+        kitchen.dispose()
+        expect(mqttClient.ended).toBe(false)
+        expect(mqttClient.subscribed).not.toContain('tele/kitchen/LWT')
+
+        hallway.dispose()
+        expect(mqttClient.ended).toBe(true)
+    })
+
+    test('registers one last will for all panels sharing the connection', async () => {
+        const kitchen = new NSPanelMqttHandler(getPanelConfig('kitchen'), panelMqttClient, OFFLINE_CMDS)
+        const hallway = new NSPanelMqttHandler(getPanelConfig('hallway'), panelMqttClient, OFFLINE_CMDS)
+        await new Promise(setImmediate)
+
+        expect(mqtt.connect).toHaveBeenCalledTimes(1)
+        const mqttOptions: mqtt.IClientOptions = (mqtt.connect as jest.Mock).mock.lastCall[1]
+        expect(mqttOptions.will).toEqual({
+            topic: 'nspanel-lui/config/status',
+            payload: 'offline',
+            qos: 0,
+            retain: true,
+        })
+
+        mqttClient.emit('connect')
+        expect(mqttClient.published).toEqual([['nspanel-lui/config/status', 'online']])
+
+        kitchen.dispose()
+        hallway.dispose()
+        expect(mqttClient.published).toContainEqual(['nspanel-lui/config/status', 'offline'])
+    })
+
+    test('panels subscribe to the status topic to show the offline screen', async () => {
+        const kitchen = new NSPanelMqttHandler(getPanelConfig('kitchen'), panelMqttClient, OFFLINE_CMDS)
+        await new Promise(setImmediate)
+        mqttClient.emit('connect')
+
+        mqttClient.receive('tele/kitchen/LWT', 'Online')
+        expect(mqttClient.published.slice(1)).toEqual([
+            ['cmnd/kitchen/Subscribe', 'NSPanelLuiStatus, nspanel-lui/config/status'],
+            [
+                'cmnd/kitchen/Rule3',
+                'ON Event#NSPanelLuiStatus=offline DO Backlog CustomSend pageType~screensaver; CustomSend time~Offline ENDON',
+            ],
+            ['cmnd/kitchen/Rule3', '1'],
+        ])
+
+        // subscriptions are not kept by Tasmota, thus subscribing again when the panel restarted
+        mqttClient.receive('tele/kitchen/LWT', 'Offline')
+        mqttClient.receive('tele/kitchen/LWT', 'Online')
+        expect(mqttClient.published.filter(([topic]) => topic === 'cmnd/kitchen/Subscribe')).toHaveLength(2)
+
+        kitchen.dispose()
+        expect(mqttClient.published).toContainEqual(['cmnd/kitchen/Unsubscribe', 'NSPanelLuiStatus'])
+    })
+
+    test('passes tls and protocol options', async () => {
+        const tlsMqttClient = new NSPanelMqttClient({
+            ...MQTT_CONFIG,
+            useTls: true,
+            protocolVersion: 5,
+            tlsCa: 'CA',
+            tlsCert: 'CERT',
+            tlsKey: 'KEY',
+            rejectUnauthorized: false,
+        })
+        tlsMqttClient.acquire()
+        await new Promise(setImmediate)
+
+        const [brokerUrl, mqttOptions] = (mqtt.connect as jest.Mock).mock.lastCall
+        expect(brokerUrl).toBe('mqtts://localhost:1883')
+        expect(mqttOptions).toMatchObject({
+            protocolVersion: 5,
+            ca: 'CA',
+            cert: 'CERT',
+            key: 'KEY',
+            rejectUnauthorized: false,
+        })
+
+        tlsMqttClient.dispose()
+    })
+})
@@ -0,0 +1,314 @@
+import { EventEmitter } from 'events'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import * as mqtt from 'mqtt'
+
+import { NSPanelMqttClient } from '../src/lib/nspanel-mqtt-client'
+import { NSPanelMqttHandler } from '../src/lib/nspanel-mqtt-handler'
+import { NSPanelTrafficRecorder } from '../src/lib/nspanel-traffic-recorder'
+import { PanelConfig } from '../src/types/types'
+
+jest.mock('mqtt')
+
+class MqttClientMock extends EventEmitter {
+    public published: [string, string][] = []
+
+    public subscribed: string[] = []
+
+    public publish(topic: string, data: string) {
+        this.published.push([topic, data])
+    }
+
+    public subscribe(topic: string) {
+        this.subscribed.push(topic)
+    }
+
+    public unsubscribe(topic: string) {
+        this.subscribed = this.subscribed.filter((subscribedTopic) => subscribedTopic !== topic)
+    }
+
+    public end() {}
+
+    public receive(topic: string, data: object) {
+        this.emit('message', topic, Buffer.from(JSON.stringify(data)))
+    }
+
+    public receiveRaw(topic: string, data: string) {
+        this.emit('message', topic, Buffer.from(data))
+    }
+}
+
+const PANEL_CONFIG = {
+    panel: { topic: 'nspanel', fullTopic: '%prefix%/%topic%/', maxMessagesPerSecond: 0 },
+    mqtt: { broker: 'localhost', port: 1883, useTls: false, clientId: '', keepAlive: 60, cleanSession: true },
+} as PanelConfig
+
+describe('NSPanelMqttHandler', () => {
+    let mqttClient: MqttClientMock
+    let panelMqttClient: NSPanelMqttClient
+    let mqttHandler: NSPanelMqttHandler
+
+    beforeEach(async () => {
+        mqttClient = new MqttClientMock()
+        ;(mqtt.connect as jest.Mock).mockReturnValue(mqttClient)
+        panelMqttClient = new NSPanelMqttClient(PANEL_CONFIG.mqtt)
+        mqttHandler = new NSPanelMqttHandler(PANEL_CONFIG, panelMqttClient)
+        // connecting is deferred
+        await new Promise(setImmediate)
+        mqttClient.emit('connect')
+    })
+
+    afterEach(() => {
+        mqttHandler.dispose()
+        panelMqttClient.dispose()
+    })
+
+    test('requestCommandResult resolves with matching stat/RESULT', async () => {
+        const request = mqttHandler.requestCommandResult({ cmd: 'SetOption73', data: '' })
+        expect(mqttClient.published).toEqual([['cmnd/nspanel/SetOption73', '']])
+
+        mqttClient.receive('stat/nspanel/RESULT', { POWER1: 'ON' })
+        mqttClient.receive('stat/nspanel/RESULT', { SetOption73: 'OFF' })
+
+        const result = await request
+        expect(result.status).toBe('success')
+        expect(result.result).toEqual({ SetOption73: 'OFF' })
+    })
+
+    test('requestCommandResult for Status waits for status topic', async () => {
+        const request = mqttHandler.requestCommandResult({ cmd: 'Status', data: '0' })
+        expect(mqttClient.subscribed).toContain('stat/nspanel/STATUS0')
+
+        mqttClient.receive('stat/nspanel/STATUS0', { Status: { Topic: 'nspanel' } })
+
+        const result = await request
+        expect(result.status).toBe('success')
+        expect(result.result).toEqual({ Status: { Topic: 'nspanel' } })
+    })
+
+    test('requestCommandResult unsubscribes status topic after last result', async () => {
+        const first = mqttHandler.requestCommandResult({ cmd: 'Status', data: '0' })
+        const second = mqttHandler.requestCommandResult({ cmd: 'Status', data: '0' })
+        const timedOut = mqttHandler.requestCommandResult({ cmd: 'Status', data: '5' }, 0.01)
+
+        mqttClient.receive('stat/nspanel/STATUS0', { Status: { Topic: 'nspanel' } })
+        await first
+        expect(mqttClient.subscribed).toContain('stat/nspanel/STATUS0')
+
+        mqttClient.receive('stat/nspanel/STATUS0', { Status: { Topic: 'nspanel' } })
+        await second
+        expect(mqttClient.subscribed).not.toContain('stat/nspanel/STATUS0')
+
+        expect((await timedOut).status).toBe('timeout')
+        expect(mqttClient.subscribed).not.toContain('stat/nspanel/STATUS5')
+    })
+
+    test('requestCommandResult keeps subscribed panel topics', async () => {
+        const request = mqttHandler.requestCommandResult({ cmd: 'Status', data: '2' })
+        mqttClient.receive('stat/nspanel/STATUS2', { StatusFWR: { Version: '12.5.0' } })
+
+        expect((await request).status).toBe('success')
+        expect(mqttClient.subscribed).toContain('stat/nspanel/STATUS2')
+    })
+
+    test('requestCommandResult resolves with timeout', async () => {
+        const result = await mqttHandler.requestCommandResult({ cmd: 'Dimmer', data: '50' }, 0.01)
+
+        expect(result.status).toBe('timeout')
+        expect(result.result).toBeNull()
+    })
+
+    test('requestCommandResult rejects missing command', async () => {
+        await expect(mqttHandler.requestCommandResult({ cmd: '' })).rejects.toThrow('Tasmota command missing')
+        expect(mqttClient.published).toHaveLength(0)
+    })
+
+    test('tracks panel status from LWT and STATE', () => {
+        const statusEvents = []
+        mqttHandler.on('status', (statusEventArgs) => statusEvents.push(statusEventArgs))
+
+        expect(mqttClient.subscribed).toContain('tele/nspanel/LWT')
+        expect(mqttClient.subscribed).toContain('tele/nspanel/STATE')
+
+        mqttClient.receiveRaw('tele/nspanel/LWT', 'Online')
+        mqttClient.receive('tele/nspanel/STATE', {
+            Uptime: '0T01:02:03',
+            UptimeSec: 3723,
+            Heap: 120,
+            Wifi: { RSSI: 76, Signal: -62 },
+        })
+        mqttClient.receiveRaw('tele/nspanel/LWT', 'Offline')
+
+        expect(statusEvents.map((e) => e.event)).toEqual(['online', 'telemetry', 'offline'])
+        expect(statusEvents[1]).toMatchObject({ online: true, rssi: 76, signal: -62, uptimeSec: 3723, heap: 120 })
+        expect(statusEvents[2].online).toBe(false)
+    })
+
+    test('queues messages while disconnected and sends latest page state on connect', () => {
+        mqttClient.emit('close')
+
+        mqttHandler.sendToPanel([
+            { cmd: 'pageType', params: 'cardEntities' },
+            { cmd: 'entityUpd', params: ['Lights', '1'] },
+        ])
+        mqttHandler.sendCommandToPanel({ cmd: 'Power1', data: 'ON' })
+        mqttHandler.sendToPanel([
+            { cmd: 'pageType', params: 'cardGrid' },
+            { cmd: 'entityUpd', params: ['Scenes', '1'] },
+            { cmd: 'entityUpd', params: ['Scenes', '2'] },
+        ])
+        expect(mqttClient.published).toEqual([])
+
+        mqttClient.emit('connect')
+
+        expect(mqttClient.published).toEqual([
+            ['cmnd/nspanel/Power1', 'ON'],
+            ['cmnd/nspanel/CustomSend', 'pageType~cardGrid'],
+            ['cmnd/nspanel/CustomSend', 'entityUpd~Scenes~2'],
+        ])
+    })
+
+    test('limits message rate and drops superseded entity updates', async () => {
+        jest.useFakeTimers()
+        const rateLimitedHandler = new NSPanelMqttHandler(
+            { ...PANEL_CONFIG, panel: { ...PANEL_CONFIG.panel, maxMessagesPerSecond: 10 } },
+            panelMqttClient
+        )
+
+        for (let volume = 1; volume <= 5; volume += 1) {
+            rateLimitedHandler.sendToPanel({ cmd: 'entityUpd', params: ['Media', volume] })
+        }
+        rateLimitedHandler.sendToPanel({ cmd: 'time', params: '12:00' })
+        expect(mqttClient.published).toEqual([['cmnd/nspanel/CustomSend', 'entityUpd~Media~1']])
+
+        jest.advanceTimersByTime(100)
+        expect(mqttClient.published).toHaveLength(2)
+        jest.advanceTimersByTime(100)
+        expect(mqttClient.published).toEqual([
+            ['cmnd/nspanel/CustomSend', 'entityUpd~Media~1'],
+            ['cmnd/nspanel/CustomSend', 'entityUpd~Media~5'],
+            ['cmnd/nspanel/CustomSend', 'time~12:00'],
+        ])
+
+        rateLimitedHandler.dispose()
+        jest.useRealTimers()
+    })
+
+    test('keeps Tasmota commands behind rate limited messages', () => {
+        jest.useFakeTimers()
+        const rateLimitedHandler = new NSPanelMqttHandler(
+            { ...PANEL_CONFIG, panel: { ...PANEL_CONFIG.panel, maxMessagesPerSecond: 10 } },
+            panelMqttClient
+        )
+
+        rateLimitedHandler.sendToPanel([
+            { cmd: 'pageType', params: 'screensaver' },
+            { cmd: 'time', params: '12:00' },
+        ])
+        rateLimitedHandler.sendCommandToPanel({ cmd: 'Dimmer', data: '50' })
+        expect(mqttClient.published).toHaveLength(1)
+
+        jest.advanceTimersByTime(200)
+        expect(mqttClient.published).toEqual([
+            ['cmnd/nspanel/CustomSend', 'pageType~screensaver'],
+            ['cmnd/nspanel/CustomSend', 'time~12:00'],
+            ['cmnd/nspanel/Dimmer', '50'],
+        ])
+
+        rateLimitedHandler.sendCommandToPanel({ cmd: 'Power1', data: 'ON' })
+        expect(mqttClient.published).toHaveLength(4)
+
+        rateLimitedHandler.dispose()
+        jest.useRealTimers()
+    })
+
+    test('sends all queued commands on dispose despite rate limit', () => {
+        jest.useFakeTimers()
+        const rateLimitedHandler = new NSPanelMqttHandler(
+            { ...PANEL_CONFIG, panel: { ...PANEL_CONFIG.panel, maxMessagesPerSecond: 10 } },
+            panelMqttClient
+        )
+
+        rateLimitedHandler.sendToPanel([
+            { cmd: 'pageType', params: 'screensaver' },
+            { cmd: 'statusUpdate', params: ['', '', '', ''] },
+            { cmd: 'time', params: 'Server stopped' },
+            { cmd: 'date', params: '' },
+            { cmd: 'notify', params: '12:00' },
+        ])
+        expect(mqttClient.published).toHaveLength(1)
+
+        rateLimitedHandler.dispose()
+        expect(mqttClient.published.map(([, payload]) => payload)).toEqual([
+            'pageType~screensaver',
+            'statusUpdate~~~~',
+            'time~Server stopped',
+            'date~',
+            'notify~12:00',
+        ])
+
+        jest.advanceTimersByTime(1000)
+        expect(mqttClient.published).toHaveLength(5)
+        jest.useRealTimers()
+    })
+
+    test('uses full topic overrides per prefix', () => {
+        const groupHandler = new NSPanelMqttHandler(
+            {
+                ...PANEL_CONFIG,
+                panel: { ...PANEL_CONFIG.panel, cmndFullTopic: '%prefix%/tasmotas/', hostname: 'nspanel-kitchen' },
+            },
+            panelMqttClient
+        )
+
+        groupHandler.sendCommandToPanel({ cmd: 'Power1', data: 'ON' })
+
+        expect(mqttClient.published).toEqual([['cmnd/tasmotas/Power1', 'ON']])
+        expect(mqttClient.subscribed).toContain('tele/nspanel/RESULT')
+
+        groupHandler.dispose()
+    })
+
+    test('records traffic and replays received messages', async () => {
+        const recordFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'nspanel-')), 'nspanel.jsonl')
+        const recordingHandler = new NSPanelMqttHandler(
+            { ...PANEL_CONFIG, panel: { ...PANEL_CONFIG.panel, recordTraffic: true, recordFile } },
+            panelMqttClient
+        )
+
+        recordingHandler.sendToPanel({ hmiCmd: 'pageType', payload: 'pageType~cardEntities' })
+        mqttClient.receive('tele/nspanel/RESULT', { CustomRecv: 'event,buttonPress2,light.0,OnOff,1' })
+        recordingHandler.dispose()
+        await new Promise((resolve) => setTimeout(resolve, 50))
+
+        const records = await NSPanelTrafficRecorder.readRecords(recordFile)
+        expect(records.map((trafficRecord) => [trafficRecord.direction, trafficRecord.topic])).toEqual([
+            ['out', 'cmnd/nspanel/CustomSend'],
+            ['in', 'tele/nspanel/RESULT'],
+        ])
+
+        const events: unknown[] = []
+        mqttHandler.on('event', (eventArgs) => events.push(eventArgs))
+        await expect(mqttHandler.replay(recordFile, 0)).resolves.toBe(1)
+        expect(events).toMatchObject([{ type: 'event', event: 'buttonPress2', entityId: 'light.0' }])
+
+        fs.rmSync(path.dirname(recordFile), { recursive: true })
+    })
+
+    test('resolves a replay cancelled by another replay', async () => {
+        const recordFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'nspanel-')), 'nspanel.jsonl')
+        const records = ['2024-01-01T12:00:00.000Z', '2024-01-01T12:00:10.000Z'].map((time) =>
+            JSON.stringify({ time, direction: 'in', topic: 'tele/nspanel/RESULT', payload: '{}' })
+        )
+        fs.writeFileSync(recordFile, records.join('\n'))
+
+        const cancelledReplay = mqttHandler.replay(recordFile)
+        await new Promise((resolve) => setTimeout(resolve, 50))
+
+        await expect(mqttHandler.replay(recordFile, 0)).resolves.toBe(2)
+        await expect(cancelledReplay).resolves.toBe(1)
+
+        fs.rmSync(path.dirname(recordFile), { recursive: true })
+    })
+})
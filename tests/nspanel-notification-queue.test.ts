@@ -0,0 +1,62 @@
+import { SimpleNotificationQueue } from '../src/lib/nspanel-notification-queue'
+
+describe('SimpleNotificationQueue', () => {
+    test('dequeue returns notifications ordered by priority', () => {
+        const queue = new SimpleNotificationQueue()
+        queue.enqueue({ notifyId: 'low', priority: 'low' })
+        queue.enqueue({ notifyId: 'normal' })
+        queue.enqueue({ notifyId: 'critical', priority: 'critical' })
+
+        expect(queue.dequeue()?.notifyId).toBe('critical')
+        expect(queue.dequeue()?.notifyId).toBe('normal')
+        expect(queue.dequeue()?.notifyId).toBe('low')
+        expect(queue.dequeue()).toBeNull()
+    })
+
+    test('dequeue is FIFO within the same priority', () => {
+        const queue = new SimpleNotificationQueue()
+        queue.enqueue({ notifyId: 'first', priority: 'high' })
+        queue.enqueue({ notifyId: 'second', priority: 'high' })
+
+        expect(queue.dequeue()?.notifyId).toBe('first')
+        expect(queue.dequeue()?.notifyId).toBe('second')
+    })
+
+    test('enqueue with known notifyId replaces queued notification', () => {
+        const queue = new SimpleNotificationQueue()
+        queue.enqueue({ notifyId: 'doorbell', text: 'ring' })
+        queue.enqueue({ notifyId: 'doorbell', text: 'ring ring' })
+
+        const notification = queue.dequeue()
+        expect(notification?.notifyData.text).toBe('ring ring')
+        expect(queue.isEmpty()).toBe(true)
+    })
+
+    test('enqueue generates notifyId if missing', () => {
+        const queue = new SimpleNotificationQueue()
+        const notification = queue.enqueue({ text: 'no id' })
+
+        expect(notification.notifyId).toMatch(/^notify\./)
+        expect(notification.notifyData.notifyId).toBe(notification.notifyId)
+    })
+
+    test('expired notifications are dropped', () => {
+        const queue = new SimpleNotificationQueue()
+        const notification = queue.enqueue({ notifyId: 'expiring', expireAfter: 10 })
+        queue.enqueue({ notifyId: 'staying' })
+
+        notification.expiresAt = Date.now() - 1
+        expect(queue.purgeExpired().map((n) => n.notifyId)).toEqual(['expiring'])
+        expect(queue.dequeue()?.notifyId).toBe('staying')
+    })
+
+    test('requeue keeps original position within priority', () => {
+        const queue = new SimpleNotificationQueue()
+        const first = queue.enqueue({ notifyId: 'first' })
+        queue.enqueue({ notifyId: 'second' })
+
+        expect(queue.dequeue()?.notifyId).toBe('first')
+        queue.requeue(first)
+        expect(queue.dequeue()?.notifyId).toBe('first')
+    })
+})
@@ -0,0 +1,49 @@
+import { NSPanelOutboundQueue } from '../src/lib/nspanel-outbound-queue'
+
+const flush = (queue: NSPanelOutboundQueue): string[] => {
+    const payloads: string[] = []
+    while (queue.length > 0) {
+        payloads.push(queue.dequeue().payload)
+    }
+    return payloads
+}
+
+describe('NSPanelOutboundQueue', () => {
+    test('flush keeps order of messages', () => {
+        const queue = new NSPanelOutboundQueue()
+        queue.enqueue({ topic: 'cmnd/nspanel/Power1', payload: 'ON' })
+        queue.enqueue({ topic: 'cmnd/nspanel/CustomSend', payload: 'notify~Door~open', hmiCmd: 'notify' })
+        queue.enqueue({ topic: 'cmnd/nspanel/Power2', payload: 'OFF' })
+
+        expect(flush(queue)).toEqual(['ON', 'notify~Door~open', 'OFF'])
+        expect(queue.dequeue()).toBeNull()
+    })
+
+    test('keeps latest of each state command', () => {
+        const queue = new NSPanelOutboundQueue()
+        queue.enqueue({ topic: 'cmnd/nspanel/CustomSend', payload: 'time~12:00', hmiCmd: 'time' })
+        queue.enqueue({ topic: 'cmnd/nspanel/CustomSend', payload: 'date~Monday', hmiCmd: 'date' })
+        queue.enqueue({ topic: 'cmnd/nspanel/CustomSend', payload: 'time~12:01', hmiCmd: 'time' })
+
+        expect(flush(queue)).toEqual(['date~Monday', 'time~12:01'])
+    })
+
+    test('pageType drops render commands of previous page', () => {
+        const queue = new NSPanelOutboundQueue()
+        queue.enqueue({ topic: 'cmnd/nspanel/CustomSend', payload: 'pageType~cardEntities', hmiCmd: 'pageType' })
+        queue.enqueue({ topic: 'cmnd/nspanel/CustomSend', payload: 'entityUpd~Lights', hmiCmd: 'entityUpd' })
+        queue.enqueue({ topic: 'cmnd/nspanel/CustomSend', payload: 'time~12:00', hmiCmd: 'time' })
+        queue.enqueue({ topic: 'cmnd/nspanel/CustomSend', payload: 'pageType~screensaver', hmiCmd: 'pageType' })
+
+        expect(flush(queue)).toEqual(['time~12:00', 'pageType~screensaver'])
+    })
+
+    test('drops oldest message when full', () => {
+        const queue = new NSPanelOutboundQueue(2)
+
+        expect(queue.enqueue({ topic: 'cmnd/nspanel/Power1', payload: '1' })).toBe(true)
+        expect(queue.enqueue({ topic: 'cmnd/nspanel/Power1', payload: '2' })).toBe(true)
+        expect(queue.enqueue({ topic: 'cmnd/nspanel/Power1', payload: '3' })).toBe(false)
+        expect(flush(queue)).toEqual(['2', '3'])
+    })
+})
@@ -0,0 +1,59 @@
+import { NSPanelColorUtils } from '../src/lib/nspanel-colorutils'
+import { NSPanelScreenModel } from '../src/lib/nspanel-screen-model'
+import { NSPanelScreenRenderer } from '../src/lib/nspanel-screen-renderer'
+import { NSPanelUtils } from '../src/lib/nspanel-utils'
+
+describe('NSPanelScreenRenderer', () => {
+    test('converts RGB565 colors', () => {
+        expect(NSPanelColorUtils.rgbToHex(NSPanelColorUtils.dec565ToRgb(65535))).toBe('#ffffff')
+        expect(NSPanelColorUtils.rgbToHex(NSPanelColorUtils.dec565ToRgb(63488))).toBe('#ff0000')
+        expect(NSPanelColorUtils.rgbToHex(NSPanelColorUtils.dec565ToRgb(2016))).toBe('#00ff00')
+        expect(NSPanelColorUtils.dec565ToRgb(NSPanelColorUtils.color2dec565('#ff8000'))).toEqual({
+            red: 255,
+            green: 130,
+            blue: 0,
+        })
+    })
+
+    test('renders entities page with icons and colors', () => {
+        const screenModel = new NSPanelScreenModel()
+        screenModel.process('pageType~cardEntities')
+        screenModel.process(
+            [
+                'entityUpd',
+                'Living <Room>',
+                NSPanelUtils.makeEntity('delete'),
+                NSPanelUtils.makeEntity('button', 'nav.next', NSPanelUtils.getIcon('arrow-right'), 65535),
+                NSPanelUtils.makeEntity('light', 'light.0', NSPanelUtils.getIcon('lightbulb'), 63488, 'Ceiling', '1'),
+                NSPanelUtils.makeEntity('number', 'number.0', '', 2016, 'Volume', '30|0|100'),
+            ].join('~')
+        )
+
+        const html = NSPanelScreenRenderer.render(screenModel.getScreen())
+
+        expect(html).toContain('Living &lt;Room&gt;')
+        expect(html).toContain('color:#ff0000" title="lightbulb"')
+        expect(html).toContain('title="arrow-right"')
+        expect(html).toMatch(/Ceiling<\/span><span>ON<\/span>/)
+        expect(html).toMatch(/Volume<\/span><span>30<\/span>/)
+    })
+
+    test('renders screensaver time and date', () => {
+        const screenModel = new NSPanelScreenModel()
+        screenModel.process('pageType~screensaver')
+        screenModel.process('time~12:34')
+        screenModel.process('date~Monday, 19. October')
+
+        const html = NSPanelScreenRenderer.render(screenModel.getScreen())
+
+        expect(html).toContain('12:34')
+        expect(html).toContain('Monday, 19. October')
+    })
+
+    test('ignores commands not changing the screen', () => {
+        const screenModel = new NSPanelScreenModel()
+
+        expect(screenModel.process('notify~~')).toBe(false)
+        expect(NSPanelScreenRenderer.render(null)).toContain('-')
+    })
+})
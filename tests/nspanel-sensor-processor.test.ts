@@ -0,0 +1,86 @@
+import { NSPanelSensorProcessor } from '../src/lib/nspanel-sensor-processor'
+import { SensorEventArgs } from '../src/types/types'
+
+const HOUR = 60 * 60 * 1000
+
+const sensorEvent = (panelTemp: number, bmeTemp: number = 20): SensorEventArgs => ({
+    type: 'sensor',
+    source: 'temperature1',
+    event: 'measurement',
+    temp: panelTemp,
+    tempUnit: 'C',
+    measurements: [
+        { type: 'temperature', value: panelTemp, unit: 'C', source: 'ANALOG' },
+        { type: 'temperature', value: bmeTemp, unit: 'C', source: 'BME280' },
+        { type: 'humidity', value: 45, unit: '%', source: 'BME280' },
+    ],
+})
+
+describe('NSPanelSensorProcessor', () => {
+    test('calibrates the panel sensor only', () => {
+        const processor = new NSPanelSensorProcessor({ offset: -2.5, scale: 1.1 })
+        const result = processor.process(sensorEvent(24))
+
+        expect(result?.temp).toBe(23.9)
+        expect(result?.measurements).toEqual([
+            { type: 'temperature', value: 23.9, unit: 'C', source: 'ANALOG', raw: 24 },
+            { type: 'temperature', value: 20, unit: 'C', source: 'BME280', raw: 20 },
+            { type: 'humidity', value: 45, unit: '%', source: 'BME280' },
+        ])
+    })
+
+    test('smooths readings by moving average or median', () => {
+        const average = new NSPanelSensorProcessor({ filter: 'average', filterSize: 3 })
+        const median = new NSPanelSensorProcessor({ filter: 'median', filterSize: 3 })
+        ;[20, 21, 24, 22].forEach((temp) => {
+            average.process(sensorEvent(temp))
+            median.process(sensorEvent(temp))
+        })
+
+        expect(average.process(sensorEvent(23))?.temp).toBe(23)
+        expect(median.process(sensorEvent(21))?.temp).toBe(22)
+    })
+
+    test('rejects outliers until the change persists', () => {
+        const processor = new NSPanelSensorProcessor({ outlierThreshold: 3 })
+        ;[20, 20.2, 20.1].forEach((temp) => processor.process(sensorEvent(temp)))
+
+        const outlier = processor.process(sensorEvent(35))
+        expect(outlier?.temp).toBeUndefined()
+        expect(outlier?.measurements.map((measurement) => measurement.source)).toEqual(['BME280', 'BME280'])
+
+        expect(processor.process(sensorEvent(30))?.temp).toBeUndefined()
+        expect(processor.process(sensorEvent(30))?.temp).toBe(30)
+        expect(processor.process(sensorEvent(30.2))?.temp).toBe(30.2)
+    })
+
+    test('drops events without remaining measurements', () => {
+        const processor = new NSPanelSensorProcessor({ outlierThreshold: 1 })
+        const panelOnly: SensorEventArgs = {
+            type: 'sensor',
+            source: 'temperature1',
+            event: 'measurement',
+            temp: 20,
+            measurements: [{ type: 'temperature', value: 20, unit: 'C', source: 'ANALOG' }],
+        }
+        ;[20, 20, 20].forEach(() => processor.process(panelOnly))
+
+        const outlier = { ...panelOnly, temp: 40, measurements: [{ ...panelOnly.measurements[0], value: 40 }] }
+        expect(processor.process(outlier)).toBeNull()
+    })
+
+    test('keeps rolling statistics per sensor', () => {
+        const processor = new NSPanelSensorProcessor({ statsPeriod: 2 })
+        processor.process(sensorEvent(18, 19), 0)
+        processor.process(sensorEvent(21, 20), HOUR)
+        processor.process(sensorEvent(24, 21), 2 * HOUR)
+
+        expect(processor.getStatistics(2.5 * HOUR)).toEqual([
+            { source: 'ANALOG', unit: 'C', min: 21, max: 24, avg: 22.5, count: 2, since: new Date(HOUR) },
+            { source: 'BME280', unit: 'C', min: 20, max: 21, avg: 20.5, count: 2, since: new Date(HOUR) },
+        ])
+
+        processor.resetStatistics()
+        expect(processor.getStatistics(2.5 * HOUR)).toEqual([])
+    })
+})
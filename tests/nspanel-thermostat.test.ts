@@ -0,0 +1,57 @@
+import { NSPanelThermostat } from '../src/lib/nspanel-thermostat'
+
+const MINUTE = 60 * 1000
+
+describe('NSPanelThermostat', () => {
+    test('keeps the relay within the hysteresis band', () => {
+        const thermostat = new NSPanelThermostat({ hysteresis: 1 })
+
+        expect(thermostat.control(19.4, 20)).toEqual({ heating: true, retryIn: 0 })
+        thermostat.setHeating(true)
+        expect(thermostat.control(20.4, 20).heating).toBeNull()
+        expect(thermostat.control(20.5, 20)).toEqual({ heating: false, retryIn: 0 })
+        thermostat.setHeating(false)
+        expect(thermostat.control(19.6, 20).heating).toBeNull()
+        expect(thermostat.control(19.4, 20).heating).toBe(true)
+    })
+
+    test('does not switch within the band until the relay state is known', () => {
+        const thermostat = new NSPanelThermostat({ hysteresis: 1 })
+
+        expect(thermostat.control(19.8, 20).heating).toBeNull()
+        expect(thermostat.control(20.2, 20).heating).toBeNull()
+        expect(thermostat.control(20.6, 20).heating).toBe(false)
+    })
+
+    test('switches at the target without hysteresis', () => {
+        const thermostat = new NSPanelThermostat()
+
+        expect(thermostat.control(19.9, 20).heating).toBe(true)
+        expect(thermostat.control(20, 20).heating).toBe(false)
+        expect(thermostat.control(NaN, 20).heating).toBeNull()
+    })
+
+    test('keeps the min. on and off times', () => {
+        const thermostat = new NSPanelThermostat({ hysteresis: 1, minOnTime: 5, minOffTime: 10 })
+        thermostat.setHeating(true, 0)
+
+        expect(thermostat.control(21, 20, 2 * MINUTE)).toEqual({ heating: null, retryIn: 3 * MINUTE })
+        expect(thermostat.control(21, 20, 5 * MINUTE)).toEqual({ heating: false, retryIn: 0 })
+
+        thermostat.setHeating(false, 5 * MINUTE)
+        expect(thermostat.control(19, 20, 10 * MINUTE)).toEqual({ heating: null, retryIn: 5 * MINUTE })
+        expect(thermostat.control(19, 20, 15 * MINUTE).heating).toBe(true)
+    })
+
+    test('follows a manual switch of the relay', () => {
+        const thermostat = new NSPanelThermostat({ hysteresis: 1, minOffTime: 10 })
+        thermostat.setHeating(true, 0)
+
+        // switched off on the panel, the demand of heat waits for the min. off time
+        thermostat.setHeating(false, MINUTE)
+        expect(thermostat.isHeating()).toBe(false)
+        expect(thermostat.control(20.2, 20, 2 * MINUTE).heating).toBeNull()
+        expect(thermostat.control(19, 20, 2 * MINUTE)).toEqual({ heating: null, retryIn: 9 * MINUTE })
+        expect(thermostat.control(19, 20, 11 * MINUTE).heating).toBe(true)
+    })
+})
@@ -0,0 +1,61 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import { NSPanelTrafficRecorder } from '../src/lib/nspanel-traffic-recorder'
+
+const waitForWrites = () => new Promise((resolve) => setTimeout(resolve, 50))
+
+describe('NSPanelTrafficRecorder', () => {
+    let recordDir: string
+    let recordFile: string
+
+    beforeEach(() => {
+        recordDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nspanel-'))
+        recordFile = path.join(recordDir, 'nspanel.jsonl')
+    })
+
+    afterEach(() => {
+        fs.rmSync(recordDir, { recursive: true })
+    })
+
+    test('appends records to the file', async () => {
+        const recorder = new NSPanelTrafficRecorder(recordFile)
+        recorder.record('out', 'cmnd/nspanel/CustomSend', 'pageType~cardEntities')
+        recorder.dispose()
+        await waitForWrites()
+
+        const appendingRecorder = new NSPanelTrafficRecorder(recordFile)
+        appendingRecorder.record('in', 'tele/nspanel/RESULT', '{}')
+        appendingRecorder.dispose()
+        await waitForWrites()
+
+        const records = await NSPanelTrafficRecorder.readRecords(recordFile)
+        expect(records.map((trafficRecord) => trafficRecord.direction)).toEqual(['out', 'in'])
+    })
+
+    test('skips records that cannot be parsed', async () => {
+        const validRecord = {
+            time: '2024-01-01T12:00:00.000Z',
+            direction: 'in',
+            topic: 'tele/nspanel/RESULT',
+            payload: '{}',
+        }
+        fs.writeFileSync(recordFile, [JSON.stringify(validRecord), '{"time":"2024-01-01T12:00', ''].join('\n'))
+
+        expect(await NSPanelTrafficRecorder.readRecords(recordFile)).toEqual([validRecord])
+    })
+
+    test('rotates the file at max. size', async () => {
+        const recorder = new NSPanelTrafficRecorder(recordFile, 350)
+        ;[1, 2, 3, 4, 5].forEach((n) => recorder.record('in', 'tele/nspanel/RESULT', `{"n":${n}}`))
+        recorder.dispose()
+        await waitForWrites()
+
+        const payloads = async (file: string) =>
+            (await NSPanelTrafficRecorder.readRecords(file)).map((trafficRecord) => trafficRecord.payload)
+        expect(fs.statSync(recordFile).size).toBeLessThanOrEqual(350)
+        expect(await payloads(`${recordFile}.1`)).toEqual(['{"n":1}', '{"n":2}', '{"n":3}'])
+        expect(await payloads(recordFile)).toEqual(['{"n":4}', '{"n":5}'])
+    })
+})